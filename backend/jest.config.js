@@ -4,5 +4,7 @@ module.exports = {
     moduleNameMapper: {
       '^@/(.*)$': '<rootDir>/src/$1'
     },
+    // Only *.test.ts files are suites; the rest of __tests__ holds shared helpers
+    testMatch: ['**/__tests__/**/*.test.ts'],
     setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts']
   };
\ No newline at end of file
@@ -0,0 +1,39 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { IUser } from '../../models/User';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+describe('Book Controller', () => {
+  let owner: IUser;
+  let requester: IUser;
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  describe('GET /api/books', () => {
+    it('should only list pending books that can still be queued for', async () => {
+      await createBook(owner, 'Malgudi Days');
+      await createExchange(requester, await createBook(owner, 'The Guide'));
+      await createExchange(requester, await createBook(owner, 'Swami and Friends'), 'accepted');
+      const offered = await createBook(requester, 'The English Teacher');
+      await createExchange(requester, await createBook(owner, 'Mr Sampath'), 'pending', { offeredBooks: [offered._id] });
+
+      const response = await request(app).get('/api/books');
+
+      expect(response.status).toBe(200);
+      const listed = response.body.data.books.map((book: { title: string; status: string; canQueue: boolean }) =>
+        [book.title, book.status, book.canQueue]);
+      expect(listed.sort()).toEqual([
+        ['Malgudi Days', 'available', false],
+        ['Mr Sampath', 'pending', true],
+        ['The Guide', 'pending', true]
+      ]);
+    });
+  });
+});
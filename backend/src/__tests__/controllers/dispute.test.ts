@@ -0,0 +1,147 @@
+import fs from 'fs';
+import request from 'supertest';
+import { app } from '../../app';
+import Dispute from '../../models/Dispute';
+import Transaction, { ITransaction } from '../../models/Transaction';
+import User, { IUser } from '../../models/User';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { authHeader, createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+describe('Dispute Controller', () => {
+  let owner: IUser;
+  let requester: IUser;
+  let admin: IUser;
+  let exchange: ITransaction;
+
+  const openDispute = (reporter: IUser) => request(app)
+    .post('/api/disputes')
+    .set('Authorization', authHeader(reporter))
+    .field('transactionId', exchange._id.toString())
+    .field('reason', 'damaged')
+    .field('description', 'The spine came back torn')
+    .attach('evidence', Buffer.from('not really a png'), { filename: 'spine.png', contentType: 'image/png' });
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+    admin = await createUser('Meera');
+    await User.updateOne({ _id: admin._id }, { role: 'admin' });
+    exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'), 'accepted');
+  });
+  afterEach(async () => {
+    // Evidence is written to disk, so remove what the tests uploaded
+    const disputes = await Dispute.find({}, 'evidencePhotos');
+    for (const photo of disputes.flatMap(dispute => dispute.evidencePhotos)) {
+      fs.rmSync(photo, { force: true });
+    }
+    await clearDatabase();
+  });
+  afterAll(async () => await closeDatabase());
+
+  describe('POST /api/disputes', () => {
+    it('should freeze the exchange until the dispute is resolved', async () => {
+      const opened = await openDispute(owner);
+      expect(opened.status).toBe(201);
+      expect(opened.body.data).toHaveProperty('frozenStatus', 'accepted');
+
+      const frozen = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(requester))
+        .send({ status: 'cancelled' });
+
+      expect(frozen.status).toBe(409);
+      expect(frozen.body).toHaveProperty('error', 'This exchange is frozen while a dispute is open');
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+    });
+
+    it('should not open a second dispute on the same exchange', async () => {
+      await openDispute(owner);
+      const response = await openDispute(requester);
+
+      expect(response.status).toBe(409);
+      expect(await Dispute.countDocuments()).toBe(1);
+    });
+
+    it('should only let the two parties report a problem', async () => {
+      const response = await openDispute(admin);
+
+      expect(response.status).toBe(403);
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('dispute', null);
+    });
+  });
+
+  describe('POST /api/disputes/:disputeId/resolve', () => {
+    it('should unfreeze the exchange once an admin resolves the dispute', async () => {
+      const opened = await openDispute(owner);
+
+      const resolved = await request(app)
+        .post(`/api/disputes/${opened.body.data._id}/resolve`)
+        .set('Authorization', authHeader(admin))
+        .send({ outcome: 'upheld', note: 'Photos show the damage', reputationPenalty: 1 });
+
+      expect(resolved.status).toBe(200);
+      expect(resolved.body.data).toHaveProperty('status', 'resolved');
+      expect(resolved.body.data.resolution).toMatchObject({ outcome: 'upheld', reputationPenalty: 1 });
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('dispute', null);
+
+      const unfrozen = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(requester))
+        .send({ status: 'cancelled' });
+      expect(unfrozen.status).toBe(200);
+    });
+
+    it('should only let admins resolve disputes', async () => {
+      const opened = await openDispute(owner);
+
+      const response = await request(app)
+        .post(`/api/disputes/${opened.body.data._id}/resolve`)
+        .set('Authorization', authHeader(owner))
+        .send({ outcome: 'upheld' });
+
+      expect(response.status).toBe(403);
+      expect(await Dispute.findById(opened.body.data._id)).toHaveProperty('status', 'open');
+    });
+  });
+
+  describe('GET /api/disputes/:disputeId/evidence/:photoIndex', () => {
+    it('should serve evidence to both parties and admins', async () => {
+      const opened = await openDispute(owner);
+
+      for (const user of [owner, requester, admin]) {
+        const response = await request(app)
+          .get(`/api/disputes/${opened.body.data._id}/evidence/0`)
+          .set('Authorization', authHeader(user));
+
+        expect(response.status).toBe(200);
+        expect(response.headers['cache-control']).toContain('private');
+      }
+    });
+
+    it('should refuse evidence to anyone else', async () => {
+      const opened = await openDispute(owner);
+      const stranger = await createUser('Kiran');
+
+      const response = await request(app)
+        .get(`/api/disputes/${opened.body.data._id}/evidence/0`)
+        .set('Authorization', authHeader(stranger));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not serve evidence without a token', async () => {
+      const opened = await openDispute(owner);
+
+      const response = await request(app).get(`/api/disputes/${opened.body.data._id}/evidence/0`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should keep evidence out of the public uploads folder', async () => {
+      const opened = await openDispute(owner);
+
+      expect(opened.body.data.evidencePhotos[0]).toMatch(/^private-uploads\/dispute-evidence\//);
+    });
+  });
+});
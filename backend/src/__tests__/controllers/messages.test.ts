@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import { app } from '../../app';
+import Message from '../../models/Message';
+import { ITransaction } from '../../models/Transaction';
+import { IUser } from '../../models/User';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { authHeader, createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+describe('Exchange Messages', () => {
+  let owner: IUser;
+  let requester: IUser;
+  let exchange: ITransaction;
+
+  const sendMessage = (sender: IUser, message: string) => request(app)
+    .post(`/api/transactions/${exchange._id}/messages`)
+    .set('Authorization', authHeader(sender))
+    .send({ message });
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+    exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'));
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  describe('POST /api/transactions/:exchangeId/messages/read', () => {
+    it('should not mark anything read just by loading the messages', async () => {
+      await sendMessage(requester, 'Is it still available?');
+
+      const response = await request(app)
+        .get(`/api/transactions/${exchange._id}/messages`)
+        .set('Authorization', authHeader(owner));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.messages).toHaveLength(1);
+      expect(await Message.countDocuments({ read: false })).toBe(1);
+    });
+
+    it('should mark the other party\'s messages read up to the one given', async () => {
+      const first = await sendMessage(requester, 'Is it still available?');
+      await sendMessage(owner, 'Yes it is');
+      const last = await sendMessage(requester, 'Great, when can we meet?');
+
+      const response = await request(app)
+        .post(`/api/transactions/${exchange._id}/messages/read`)
+        .set('Authorization', authHeader(owner))
+        .send({ upTo: first.body.data._id });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.messageIds).toEqual([first.body.data._id]);
+      expect(await Message.findById(first.body.data._id)).toMatchObject({ read: true, readAt: expect.any(Date) });
+      expect(await Message.findById(last.body.data._id)).toHaveProperty('read', false);
+      // The reader's own messages are only read by the other party
+      expect(await Message.findOne({ sender: owner._id })).toHaveProperty('read', false);
+    });
+
+    it('should not let anyone else mark messages read', async () => {
+      await sendMessage(requester, 'Is it still available?');
+      const stranger = await createUser('Kiran');
+
+      const response = await request(app)
+        .post(`/api/transactions/${exchange._id}/messages/read`)
+        .set('Authorization', authHeader(stranger))
+        .send({});
+
+      expect(response.status).toBe(403);
+      expect(await Message.countDocuments({ read: false })).toBe(1);
+    });
+  });
+
+  describe('GET /api/transactions/:exchangeId/messages/:messageId/attachments/:attachmentId', () => {
+    // Photos are written to disk, so remove what the tests uploaded
+    afterEach(() => {
+      fs.rmSync(path.join('private-uploads/message-attachments', exchange._id.toString()), { recursive: true, force: true });
+    });
+
+    const sendPhoto = (sender: IUser) => request(app)
+      .post(`/api/transactions/${exchange._id}/messages`)
+      .set('Authorization', authHeader(sender))
+      .attach('attachments', Buffer.from('not really a png'), { filename: 'cover.png', contentType: 'image/png' });
+
+    const attachmentUrl = (message: { _id: string; attachments: { _id: string }[] }) =>
+      `/api/transactions/${exchange._id}/messages/${message._id}/attachments/${message.attachments[0]._id}`;
+
+    it('should serve a photo to both parties', async () => {
+      const sent = await sendPhoto(requester);
+      expect(sent.status).toBe(200);
+      expect(sent.body.data.attachments[0]).not.toHaveProperty('path');
+
+      for (const user of [owner, requester]) {
+        const response = await request(app)
+          .get(attachmentUrl(sent.body.data))
+          .set('Authorization', authHeader(user));
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('image/png');
+        expect(response.headers['cache-control']).toContain('private');
+      }
+    });
+
+    it('should refuse the photo to anyone else', async () => {
+      const sent = await sendPhoto(requester);
+      const stranger = await createUser('Kiran');
+
+      const response = await request(app)
+        .get(attachmentUrl(sent.body.data))
+        .set('Authorization', authHeader(stranger));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not serve a photo through another exchange', async () => {
+      const sent = await sendPhoto(requester);
+      const stranger = await createUser('Kiran');
+      const strangersExchange = await createExchange(stranger, await createBook(owner, 'The Guide'));
+
+      const response = await request(app)
+        .get(attachmentUrl(sent.body.data).replace(exchange._id.toString(), strangersExchange._id.toString()))
+        .set('Authorization', authHeader(stranger));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not store photos sent by anyone else', async () => {
+      const stranger = await createUser('Kiran');
+
+      const response = await sendPhoto(stranger);
+
+      expect(response.status).toBe(403);
+      expect(fs.existsSync(path.join('private-uploads/message-attachments', exchange._id.toString()))).toBe(false);
+    });
+
+    it('should not store photos for an exchange that does not exist', async () => {
+      const missingId = new Types.ObjectId().toString();
+
+      const response = await request(app)
+        .post(`/api/transactions/${missingId}/messages`)
+        .set('Authorization', authHeader(requester))
+        .attach('attachments', Buffer.from('not really a png'), { filename: 'cover.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(404);
+      expect(fs.existsSync(path.join('private-uploads/message-attachments', missingId))).toBe(false);
+    });
+
+    it('should only accept images', async () => {
+      const response = await request(app)
+        .post(`/api/transactions/${exchange._id}/messages`)
+        .set('Authorization', authHeader(requester))
+        .attach('attachments', Buffer.from('#!/bin/sh'), { filename: 'run.sh', contentType: 'text/x-sh' });
+
+      expect(response.status).toBe(400);
+      expect(await Message.countDocuments()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import request from 'supertest';
+import { Types } from 'mongoose';
+import { app } from '../../app';
+import Book from '../../models/Book';
+import EmailJob from '../../models/EmailJob';
+import ExchangeEvent from '../../models/ExchangeEvent';
+import Notification from '../../models/Notification';
+import SwapCycle from '../../models/SwapCycle';
+import Transaction, { ITransaction } from '../../models/Transaction';
+import User, { IUser } from '../../models/User';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { authHeader, createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+describe('Transaction Controller', () => {
+  let owner: IUser;
+  let requester: IUser;
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  describe('PATCH /api/transactions/:exchangeId/status', () => {
+    it('should let the owner accept a pending request', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book);
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'accepted' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('status', 'accepted');
+      expect(response.body.data.allowedStatuses).toEqual(['modified', 'cancelled']);
+    });
+
+    it('should reject an illegal transition with 409 and the allowed moves', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book, 'rejected');
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'accepted' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({
+        error: 'Cannot change exchange status from rejected to accepted',
+        currentStatus: 'rejected',
+        allowedStatuses: []
+      });
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'rejected');
+      expect(await Book.findById(book._id)).toHaveProperty('status', 'pending');
+    });
+
+    it('should reject a move the other party has to make with 403', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book);
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(requester))
+        .send({ status: 'accepted' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('error', 'Only the owner can move this exchange to accepted');
+    });
+  });
+
+  describe('GET /api/transactions/:exchangeId', () => {
+    it('should list the status moves open to whoever is asking', async () => {
+      const exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'));
+
+      const asOwner = await request(app)
+        .get(`/api/transactions/${exchange._id}`)
+        .set('Authorization', authHeader(owner));
+      const asRequester = await request(app)
+        .get(`/api/transactions/${exchange._id}`)
+        .set('Authorization', authHeader(requester));
+
+      expect(asOwner.body.data.allowedStatuses).toEqual(['accepted', 'rejected', 'modified']);
+      expect(asRequester.body.data.allowedStatuses).toEqual(['modified', 'cancelled']);
+    });
+  });
+
+  describe('swap offers', () => {
+    it('should reserve the offered books while the offer is open', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const offered = await createBook(requester, 'Swami and Friends');
+
+      const response = await request(app)
+        .post('/api/transactions/request')
+        .set('Authorization', authHeader(requester))
+        .send({
+          bookId: book._id,
+          offeredBookIds: [offered._id],
+          terms: { deliveryMethod: 'in-person', duration: 14 }
+        });
+
+      expect(response.status).toBe(201);
+      expect(await Book.findById(offered._id)).toHaveProperty('status', 'pending');
+    });
+
+    it('should not accept books the requester does not own as an offer', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const notTheirs = await createBook(owner, 'The Guide');
+
+      const response = await request(app)
+        .post('/api/transactions/request')
+        .set('Authorization', authHeader(requester))
+        .send({
+          bookId: book._id,
+          offeredBookIds: [notTheirs._id],
+          terms: { deliveryMethod: 'in-person', duration: 14 }
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Offered books must be your own available books');
+      expect(await Book.findById(notTheirs._id)).toHaveProperty('status', 'available');
+    });
+
+    it('should release the offers the owner did not pick', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const chosen = await createBook(requester, 'Swami and Friends');
+      const other = await createBook(requester, 'The English Teacher');
+      const exchange = await createExchange(requester, book, 'pending', { offeredBooks: [chosen._id, other._id] });
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'accepted', offeredBookId: chosen._id.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.acceptedOfferBook).toHaveProperty('_id', chosen._id.toString());
+      expect(await Book.findById(chosen._id)).toHaveProperty('status', 'pending');
+      expect(await Book.findById(other._id)).toHaveProperty('status', 'available');
+    });
+
+    it('should require the owner to pick one of the offers', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const offered = await createBook(requester, 'Swami and Friends');
+      const exchange = await createExchange(requester, book, 'pending', { offeredBooks: [offered._id] });
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'accepted' });
+
+      expect(response.status).toBe(400);
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'pending');
+      expect(await Book.findById(book._id)).toHaveProperty('status', 'pending');
+    });
+
+    it('should release every offered book when the request is rejected', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const offered = await createBook(requester, 'Swami and Friends');
+      const exchange = await createExchange(requester, book, 'pending', { offeredBooks: [offered._id] });
+
+      const response = await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'rejected' });
+
+      expect(response.status).toBe(200);
+      expect(await Book.findById(book._id)).toHaveProperty('status', 'available');
+      expect(await Book.findById(offered._id)).toHaveProperty('status', 'available');
+    });
+  });
+
+  describe('audit trail', () => {
+    it('should record who changed what on the exchange', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const created = await request(app)
+        .post('/api/transactions/request')
+        .set('Authorization', authHeader(requester))
+        .send({ bookId: book._id, terms: { deliveryMethod: 'in-person', duration: 14 } });
+      const exchangeId = created.body.data._id;
+
+      await request(app)
+        .patch(`/api/transactions/${exchangeId}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'modified', terms: { deliveryMethod: 'courier', duration: 21 } });
+
+      const events = await ExchangeEvent.find({ transaction: exchangeId }).sort({ createdAt: 1, _id: 1 });
+      expect(events.map(event => event.type)).toEqual(['created', 'status-changed', 'terms-changed']);
+      expect(events[0].actor?.toString()).toBe(requester._id.toString());
+      expect(events[1]).toMatchObject({
+        before: { status: 'pending' },
+        after: { status: 'modified' }
+      });
+      expect(events[1].actor?.toString()).toBe(owner._id.toString());
+      expect(events[2]).toMatchObject({
+        before: { version: 1 },
+        after: { version: 2, terms: { deliveryMethod: 'courier', duration: 21 } }
+      });
+    });
+
+    it('should not record anything for a rejected change', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book, 'completed');
+
+      await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'cancelled' });
+
+      expect(await ExchangeEvent.countDocuments({ transaction: exchange._id })).toBe(0);
+    });
+
+    it('should show the history to the parties but not to anyone else', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book);
+      const stranger = await createUser('Kiran');
+
+      await request(app)
+        .patch(`/api/transactions/${exchange._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'accepted' });
+
+      const history = await request(app)
+        .get(`/api/transactions/${exchange._id}/history`)
+        .set('Authorization', authHeader(requester));
+      expect(history.status).toBe(200);
+      expect(history.body.data).toHaveLength(1);
+      expect(history.body.data[0]).toMatchObject({ type: 'status-changed', actor: { name: 'Asha' } });
+
+      const denied = await request(app)
+        .get(`/api/transactions/${exchange._id}/history`)
+        .set('Authorization', authHeader(stranger));
+      expect(denied.status).toBe(403);
+    });
+  });
+
+  describe('swap cycles', () => {
+    // Asha gives Ravi a book, Ravi gives Meera one and Meera gives Asha one
+    const createSwap = async () => {
+      const meera = await createUser('Meera');
+      const books = [
+        await createBook(owner, 'Malgudi Days'),
+        await createBook(requester, 'Swami and Friends'),
+        await createBook(meera, 'The Guide')
+      ];
+      const receivers = [requester, meera, owner];
+      const cycle = await SwapCycle.create({
+        city: 'Chennai',
+        legs: books.map((book, index) => ({ giver: book.owner, receiver: receivers[index]._id, book: book._id })),
+        participants: [owner, requester, meera].map(user => ({ user: user._id, response: 'accepted' })),
+        status: 'accepted',
+        signature: books.map(book => book._id.toString()).join('>')
+      });
+      const legs = [];
+      for (const [index, book] of books.entries()) {
+        legs.push(await createExchange(receivers[index], book, 'accepted', { swapCycle: cycle._id }));
+      }
+      return { cycle, books, legs };
+    };
+
+    it('should cancel the other legs when one is called off', async () => {
+      const { cycle, books, legs } = await createSwap();
+
+      const response = await request(app)
+        .patch(`/api/transactions/${legs[0]._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'cancelled' });
+
+      expect(response.status).toBe(200);
+      for (const leg of legs) {
+        expect(await Transaction.findById(leg._id)).toHaveProperty('status', 'cancelled');
+      }
+      for (const book of books) {
+        expect(await Book.findById(book._id)).toHaveProperty('status', 'available');
+      }
+      expect(await SwapCycle.findById(cycle._id)).toHaveProperty('status', 'cancelled');
+    });
+
+    it('should leave a disputed leg frozen', async () => {
+      const { legs } = await createSwap();
+      await Transaction.updateOne({ _id: legs[2]._id }, { dispute: new Types.ObjectId() });
+
+      await request(app)
+        .patch(`/api/transactions/${legs[0]._id}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'cancelled' });
+
+      expect(await Transaction.findById(legs[1]._id)).toHaveProperty('status', 'cancelled');
+      expect(await Transaction.findById(legs[2]._id)).toHaveProperty('status', 'accepted');
+    });
+  });
+
+  describe('lifecycle emails', () => {
+    const changeStatus = (exchange: ITransaction, user: IUser, status: string) => request(app)
+      .patch(`/api/transactions/${exchange._id}/status`)
+      .set('Authorization', authHeader(user))
+      .send({ status });
+
+    it('should email the owner about a new request', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+
+      await request(app)
+        .post('/api/transactions/request')
+        .set('Authorization', authHeader(requester))
+        .send({ bookId: book._id, terms: { deliveryMethod: 'in-person', duration: 14 } });
+
+      const emails = await EmailJob.find();
+      expect(emails).toHaveLength(1);
+      expect(emails[0]).toMatchObject({ to: owner.email, type: 'exchangeRequest', status: 'pending' });
+      expect(emails[0].subject).toBe('New Exchange Request');
+    });
+
+    it('should email the other party when the status changes', async () => {
+      const accepted = await createExchange(requester, await createBook(owner, 'Malgudi Days'));
+      const rejected = await createExchange(requester, await createBook(owner, 'The Guide'));
+      const withdrawn = await createExchange(requester, await createBook(owner, 'Swami and Friends'));
+
+      await changeStatus(accepted, owner, 'accepted');
+      await changeStatus(rejected, owner, 'rejected');
+      await changeStatus(withdrawn, requester, 'cancelled');
+
+      const emails = await EmailJob.find().sort({ _id: 1 });
+      expect(emails.map(email => [email.to, email.type])).toEqual([
+        [requester.email, 'exchangeAccepted'],
+        [requester.email, 'exchangeRejected'],
+        [owner.email, 'exchangeWithdrawn']
+      ]);
+      expect(emails[0].subject).toBe('Your request for "Malgudi Days" was accepted');
+    });
+
+    it('should email both parties once the handover completes the exchange', async () => {
+      const exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'), 'accepted');
+
+      for (const user of [owner, requester]) {
+        await request(app)
+          .post(`/api/transactions/${exchange._id}/handover/confirm`)
+          .set('Authorization', authHeader(user));
+      }
+
+      const emails = await EmailJob.find({ type: 'exchangeCompleted' });
+      expect(emails.map(email => email.to).sort()).toEqual([owner.email, requester.email].sort());
+    });
+
+    it('should respect a recipient who turned off status emails', async () => {
+      await User.updateOne({ _id: requester._id }, { 'notificationPreferences.statusChange.email': false });
+      const exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'));
+
+      const response = await changeStatus(exchange, owner, 'accepted');
+
+      expect(response.status).toBe(200);
+      expect(await EmailJob.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('POST /api/transactions/:exchangeId/terms/:version/accept', () => {
+    it('should tell the proposer their revised terms were accepted', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const created = await request(app)
+        .post('/api/transactions/request')
+        .set('Authorization', authHeader(requester))
+        .send({ bookId: book._id, terms: { deliveryMethod: 'in-person', duration: 14 } });
+      const exchangeId = created.body.data._id;
+      await request(app)
+        .patch(`/api/transactions/${exchangeId}/status`)
+        .set('Authorization', authHeader(owner))
+        .send({ status: 'modified', terms: { deliveryMethod: 'courier', duration: 21 } });
+
+      const response = await request(app)
+        .post(`/api/transactions/${exchangeId}/terms/2/accept`)
+        .set('Authorization', authHeader(requester));
+
+      expect(response.status).toBe(200);
+      const notifications = await Notification.find({ exchange: exchangeId, user: owner._id });
+      expect(notifications.map(notification => notification.title))
+        .toContain('Ravi accepted the revised terms for "Malgudi Days"');
+      const events = await ExchangeEvent.find({ transaction: exchangeId, type: 'status-changed' }).sort({ createdAt: 1, _id: 1 });
+      expect(events[events.length - 1]).toMatchObject({
+        before: { status: 'modified' },
+        after: { status: 'pending' }
+      });
+    });
+  });
+
+  describe('POST /api/transactions/:exchangeId/handover/confirm', () => {
+    const confirmHandover = (exchange: ITransaction, user: IUser) => request(app)
+      .post(`/api/transactions/${exchange._id}/handover/confirm`)
+      .set('Authorization', authHeader(user));
+
+    it('should ask the other party to confirm after the first confirmation', async () => {
+      const exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'), 'accepted');
+
+      const response = await confirmHandover(exchange, owner);
+
+      expect(response.status).toBe(200);
+      const notifications = await Notification.find({ exchange: exchange._id });
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].user.toString()).toBe(requester._id.toString());
+      expect(notifications[0]).toMatchObject({
+        type: 'exchange-status',
+        title: 'Asha confirmed the handover of "Malgudi Days"'
+      });
+    });
+
+    it('should tell both parties once the exchange completes', async () => {
+      const exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'), 'accepted');
+
+      await confirmHandover(exchange, owner);
+      await confirmHandover(exchange, requester);
+
+      const completed = await Notification.find({ exchange: exchange._id, title: 'Your exchange of "Malgudi Days" is complete' });
+      expect(completed.map(notification => notification.user.toString()).sort())
+        .toEqual([owner._id.toString(), requester._id.toString()].sort());
+    });
+  });
+});
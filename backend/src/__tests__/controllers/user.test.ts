@@ -0,0 +1,56 @@
+import request from 'supertest';
+import { app } from '../../app';
+import Book from '../../models/Book';
+import Notification from '../../models/Notification';
+import Transaction from '../../models/Transaction';
+import User, { IUser } from '../../models/User';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { authHeader, createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+describe('User Controller', () => {
+  let owner: IUser;
+  let requester: IUser;
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  describe('DELETE /api/users/account', () => {
+    const deleteAccount = (user: IUser) => request(app)
+      .delete('/api/users/account')
+      .set('Authorization', authHeader(user));
+
+    it('should withdraw open requests and hand the book to the next in line', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book);
+      const next = await createExchange(await createUser('Kiran'), book, 'queued');
+      const completed = await createExchange(requester, await createBook(owner, 'The Guide'), 'completed');
+
+      const response = await deleteAccount(requester);
+
+      expect(response.status).toBe(200);
+      expect(await User.findById(requester._id)).toBeNull();
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'cancelled');
+      expect(await Transaction.findById(next._id)).toHaveProperty('status', 'pending');
+      expect(await Transaction.findById(completed._id)).toHaveProperty('status', 'completed');
+      expect(await Book.findById(book._id)).toHaveProperty('status', 'pending');
+      expect(await Notification.countDocuments({ user: owner._id, exchange: exchange._id })).toBe(1);
+    });
+
+    it('should cancel the queue for the books of an owner who leaves', async () => {
+      const book = await createBook(owner, 'Malgudi Days');
+      const exchange = await createExchange(requester, book, 'accepted');
+      const queued = await createExchange(await createUser('Kiran'), book, 'queued');
+
+      await deleteAccount(owner);
+
+      expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'cancelled');
+      expect(await Transaction.findById(queued._id)).toHaveProperty('status', 'cancelled');
+      expect(await Book.findById(book._id)).toBeNull();
+    });
+  });
+});
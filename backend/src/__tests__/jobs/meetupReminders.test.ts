@@ -0,0 +1,56 @@
+import EmailJob from '../../models/EmailJob';
+import Notification from '../../models/Notification';
+import Transaction, { ITransaction } from '../../models/Transaction';
+import User, { IUser } from '../../models/User';
+import { runMeetupReminders } from '../../jobs/meetupReminders';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+// 07:30 and 08:05 in India, with the meetup at 08:15
+const DURING_QUIET_HOURS = new Date('2026-10-19T02:00:00Z');
+const AFTER_QUIET_HOURS = new Date('2026-10-19T02:35:00Z');
+const MEETUP_STARTS_AT = new Date('2026-10-19T02:45:00Z');
+
+describe('Meetup Reminder Job', () => {
+  let owner: IUser;
+  let requester: IUser;
+  let exchange: ITransaction;
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+    exchange = await createExchange(requester, await createBook(owner, 'Malgudi Days'), 'accepted');
+    await Transaction.updateOne(
+      { _id: exchange._id },
+      { 'meetup.confirmed': { startsAt: MEETUP_STARTS_AT, place: 'Cubbon Park gate' } }
+    );
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  it('should remind both parties by email and in the app', async () => {
+    expect(await runMeetupReminders(AFTER_QUIET_HOURS)).toBe(1);
+
+    expect(await EmailJob.countDocuments({ type: 'meetupReminder' })).toBe(2);
+    const notifications = await Notification.find({ exchange: exchange._id, type: 'meetup-reminder' });
+    expect(notifications.map(notification => notification.user.toString()).sort())
+      .toEqual([owner._id.toString(), requester._id.toString()].sort());
+    expect((await Transaction.findById(exchange._id))?.meetup.reminderSentAt).toEqual(AFTER_QUIET_HOURS);
+  });
+
+  it('should hold the reminder until quiet hours are over', async () => {
+    await User.updateOne(
+      { _id: requester._id },
+      { 'notificationPreferences.quietHours': { enabled: true, start: '22:00', end: '08:00' } }
+    );
+
+    expect(await runMeetupReminders(DURING_QUIET_HOURS)).toBe(0);
+    expect(await EmailJob.countDocuments()).toBe(0);
+    expect(await Notification.countDocuments({ type: 'meetup-reminder' })).toBe(0);
+    expect((await Transaction.findById(exchange._id))?.meetup.reminderSentAt).toBeUndefined();
+
+    expect(await runMeetupReminders(AFTER_QUIET_HOURS)).toBe(1);
+    expect(await EmailJob.countDocuments({ type: 'meetupReminder' })).toBe(2);
+  });
+});
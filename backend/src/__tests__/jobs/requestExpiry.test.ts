@@ -0,0 +1,120 @@
+import request from 'supertest';
+import { Types } from 'mongoose';
+import { app } from '../../app';
+import Book from '../../models/Book';
+import EmailJob from '../../models/EmailJob';
+import Transaction, { ITransaction } from '../../models/Transaction';
+import { IUser } from '../../models/User';
+import { runRequestExpiry } from '../../jobs/requestExpiry';
+import { connect, clearDatabase, closeDatabase } from '../test-utils/db';
+import { authHeader, createBook, createExchange, createUser } from '../test-utils/fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pretend nobody has touched the exchange for a while
+const backdate = (exchange: ITransaction, days: number) =>
+  Transaction.updateOne(
+    { _id: exchange._id },
+    { $set: { updatedAt: new Date(Date.now() - days * DAY_MS) } },
+    { timestamps: false }
+  );
+
+describe('Request Expiry Job', () => {
+  let owner: IUser;
+  let requester: IUser;
+
+  beforeAll(async () => await connect());
+  beforeEach(async () => {
+    owner = await createUser('Asha');
+    requester = await createUser('Ravi');
+  });
+  afterEach(async () => await clearDatabase());
+  afterAll(async () => await closeDatabase());
+
+  it('should expire stale requests and put their books back on the shelf', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const offered = await createBook(requester, 'Swami and Friends');
+    const exchange = await createExchange(requester, book, 'pending', { offeredBooks: [offered._id] });
+    await backdate(exchange, 8);
+
+    expect(await runRequestExpiry()).toBe(1);
+
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'expired');
+    expect(await Book.findById(book._id)).toHaveProperty('status', 'available');
+    expect(await Book.findById(offered._id)).toHaveProperty('status', 'available');
+    expect(await EmailJob.countDocuments({ type: 'requestExpired' })).toBe(2);
+  });
+
+  it('should leave requests alone until the threshold has passed', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book);
+    await backdate(exchange, 6);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'pending');
+  });
+
+  it('should count a new message as activity', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book);
+    await backdate(exchange, 8);
+
+    const response = await request(app)
+      .post(`/api/transactions/${exchange._id}/messages`)
+      .set('Authorization', authHeader(owner))
+      .send({ message: 'Still keen on it?' });
+    expect(response.status).toBe(200);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'pending');
+  });
+
+  it('should not expire a request frozen by a dispute', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book, 'accepted', { dispute: new Types.ObjectId() });
+    await backdate(exchange, 30);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+  });
+
+  it('should not expire an exchange whose book has been dispatched', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book, 'accepted');
+    await Transaction.updateOne({ _id: exchange._id }, { 'shipment.status': 'dispatched', 'shipment.dispatchedAt': new Date() });
+    await backdate(exchange, 30);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+  });
+
+  it('should not expire an exchange whose book is in transit', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book, 'accepted');
+    await Transaction.updateOne({ _id: exchange._id }, { 'shipment.status': 'in-transit' });
+    await backdate(exchange, 30);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+  });
+
+  it('should not expire an exchange the owner has confirmed handing over', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book, 'accepted');
+    await Transaction.updateOne({ _id: exchange._id }, { 'handover.ownerConfirmedAt': new Date() });
+    await backdate(exchange, 30);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+  });
+
+  it('should not expire an exchange the requester has confirmed receiving', async () => {
+    const book = await createBook(owner, 'Malgudi Days');
+    const exchange = await createExchange(requester, book, 'accepted');
+    await Transaction.updateOne({ _id: exchange._id }, { 'handover.requesterConfirmedAt': new Date() });
+    await backdate(exchange, 30);
+
+    expect(await runRequestExpiry()).toBe(0);
+    expect(await Transaction.findById(exchange._id)).toHaveProperty('status', 'accepted');
+  });
+});
@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import {
+  MAX_BUNDLE_BOOKS,
+  getRequestedBookIds,
+  parseBundleBookIds,
+  selectBundleBooks
+} from '../../services/bundleService';
+import { IBundleBook } from '../../models/Transaction';
+
+describe('Bundle Service', () => {
+  const [first, second, third] = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+  const bundle: IBundleBook[] = [
+    { book: first, status: 'requested' },
+    { book: second, status: 'requested' },
+    { book: third, status: 'requested' }
+  ];
+
+  it('should require at least two distinct valid books', () => {
+    expect(parseBundleBookIds([first.toString(), first.toString()]).error).toBeDefined();
+    expect(parseBundleBookIds(['not-an-id', first.toString()]).error).toBeDefined();
+    expect(parseBundleBookIds('nope').error).toBeDefined();
+
+    const tooMany = Array.from({ length: MAX_BUNDLE_BOOKS + 1 }, () => new Types.ObjectId().toString());
+    expect(parseBundleBookIds(tooMany).error).toBeDefined();
+
+    const parsed = parseBundleBookIds([first.toString(), second.toString(), first.toString()]);
+    expect(parsed.bookIds?.map(String)).toEqual([first.toString(), second.toString()]);
+  });
+
+  it('should accept the whole bundle when no subset is given', () => {
+    const { accepted, declined } = selectBundleBooks(bundle, undefined);
+    expect(accepted).toHaveLength(3);
+    expect(declined).toHaveLength(0);
+  });
+
+  it('should split the bundle into accepted and declined books', () => {
+    const { accepted, declined } = selectBundleBooks(bundle, [third.toString(), first.toString()]);
+    expect(accepted?.map(String)).toEqual([first.toString(), third.toString()]);
+    expect(declined?.map(String)).toEqual([second.toString()]);
+  });
+
+  it('should reject an empty selection or books outside the bundle', () => {
+    expect(selectBundleBooks(bundle, []).error).toBeDefined();
+    expect(selectBundleBooks(bundle, [new Types.ObjectId().toString()]).error).toBeDefined();
+  });
+
+  it('should skip declined bundle books and fall back to the single book', () => {
+    const partlyDeclined: IBundleBook[] = [{ ...bundle[0] }, { ...bundle[1], status: 'declined' }];
+    expect(getRequestedBookIds({ book: first, bundle: partlyDeclined })).toEqual([first]);
+    expect(getRequestedBookIds({ book: second, bundle: [] })).toEqual([second]);
+  });
+});
@@ -0,0 +1,25 @@
+import { getRetryDelayMs, planRetry } from '../../services/emailQueue';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Email Queue', () => {
+  it('should double the wait after every failed attempt', () => {
+    expect(getRetryDelayMs(1)).toBe(MINUTE_MS);
+    expect(getRetryDelayMs(2)).toBe(2 * MINUTE_MS);
+    expect(getRetryDelayMs(4)).toBe(8 * MINUTE_MS);
+  });
+
+  it('should cap the wait at six hours', () => {
+    expect(getRetryDelayMs(20)).toBe(6 * 60 * MINUTE_MS);
+  });
+
+  it('should retry until the attempts run out and then dead letter the email', () => {
+    const now = new Date('2026-03-10T10:00:00Z');
+
+    expect(planRetry(2, now, 3)).toEqual({
+      status: 'pending',
+      nextAttemptAt: new Date('2026-03-10T10:02:00Z')
+    });
+    expect(planRetry(3, now, 3)).toEqual({ status: 'failed' });
+  });
+});
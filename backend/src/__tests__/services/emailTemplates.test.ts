@@ -0,0 +1,60 @@
+import { renderEmail } from '../../utils/emailTemplates';
+import { htmlToText } from '../../utils/emailTemplates/helpers';
+import { hi } from '../../utils/emailTemplates/hi';
+
+const exchange = {
+  name: 'Asha',
+  bookTitle: 'Malgudi Days',
+  otherPartyName: 'Ravi',
+  exchangeLink: 'http://localhost:3000/exchanges?exchange=1'
+};
+
+describe('Email Templates', () => {
+  it('should render in the recipient\'s language', () => {
+    expect(renderEmail('exchangeAccepted', exchange).subject)
+      .toBe('Your request for "Malgudi Days" was accepted');
+    expect(renderEmail('exchangeAccepted', exchange, 'hi').subject)
+      .toBe('"Malgudi Days" के लिए आपका अनुरोध स्वीकार कर लिया गया');
+    expect(renderEmail('exchangeAccepted', exchange, 'kn').html).toContain('ನಮಸ್ಕಾರ Asha');
+  });
+
+  it('should fall back to English when a language has no template', () => {
+    const welcome = hi.welcome;
+    delete hi.welcome;
+    try {
+      expect(renderEmail('welcome', { name: 'Asha' }, 'hi').subject).toBe('Welcome to Book Exchange Platform');
+    } finally {
+      hi.welcome = welcome;
+    }
+  });
+
+  it('should include a plain text version with the links spelled out', () => {
+    const { text } = renderEmail('newMessage', {
+      ...exchange,
+      senderName: 'Ravi',
+      preview: 'See you at <5pm> & bring it'
+    });
+
+    expect(text).not.toMatch(/<[a-z/]/);
+    expect(text).toContain('See you at <5pm> & bring it');
+    expect(text).toContain(`Open the exchange: ${exchange.exchangeLink}`);
+  });
+
+  it('should escape user-supplied fields in the html but not the subject', () => {
+    const data = { ...exchange, name: '<b>Asha</b>', bookTitle: 'Tom & Jerry <script>' };
+
+    for (const language of ['en', 'ta'] as const) {
+      const { subject, html } = renderEmail('exchangeAccepted', data, language);
+      expect(html).not.toContain('<b>Asha</b>');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;b&gt;Asha&lt;/b&gt;');
+      expect(html).toContain('Tom &amp; Jerry &lt;script&gt;');
+      expect(subject).toContain('Tom & Jerry <script>');
+    }
+  });
+
+  it('should keep list items on their own lines', () => {
+    expect(htmlToText('<p>You can:</p><ul><li>List books</li><li>Browse</li></ul>'))
+      .toBe('You can:\n\n- List books\n- Browse');
+  });
+});
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createEmailTransport,
+  createFileTransport,
+  createMemoryTransport
+} from '../../services/emailTransport';
+
+const email = { to: 'asha@example.com', subject: 'Hello', html: '<p>Hi</p>' };
+
+describe('Email Transport', () => {
+  it('should pick the transport from the environment', () => {
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'memory' }).kind).toBe('memory');
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'file' }).kind).toBe('file');
+    expect(createEmailTransport({ NODE_ENV: 'production' }).kind).toBe('smtp');
+    expect(createEmailTransport({ NODE_ENV: 'development' }).kind).toBe('smtp');
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'carrier-pigeon' })).toThrow('Unknown email transport: carrier-pigeon');
+  });
+
+  it('should keep sent emails in memory until cleared', async () => {
+    const transport = createMemoryTransport();
+    await transport.send(email);
+    await transport.send({ ...email, subject: 'Again' });
+
+    const emails = await transport.list!();
+    expect(emails).toHaveLength(2);
+    expect(emails[0]).toMatchObject({ to: email.to, html: email.html });
+    expect(emails[0].id).not.toBe(emails[1].id);
+
+    await transport.clear!();
+    expect(await transport.list!()).toEqual([]);
+  });
+
+  describe('file outbox', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write each email to its own file', async () => {
+      const transport = createFileTransport(path.join(dir, 'outbox'));
+      await transport.send(email);
+      await transport.send({ ...email, to: 'ravi@example.com' });
+
+      expect(fs.readdirSync(path.join(dir, 'outbox'))).toHaveLength(2);
+      const emails = await transport.list!();
+      expect(emails.map(captured => captured.to).sort()).toEqual(['asha@example.com', 'ravi@example.com']);
+
+      await transport.clear!();
+      expect(await transport.list!()).toEqual([]);
+    });
+
+    it('should treat a missing outbox as empty', async () => {
+      expect(await createFileTransport(path.join(dir, 'missing')).list!()).toEqual([]);
+    });
+  });
+});
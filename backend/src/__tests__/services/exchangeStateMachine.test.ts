@@ -0,0 +1,75 @@
+import {
+  canTransition,
+  getAllowedTransitions,
+  getBookStatusFor,
+  getTransitionRoles,
+  isLegalTransition,
+  isTransactionStatus
+} from '../../services/exchangeStateMachine';
+
+describe('Exchange State Machine', () => {
+  describe('getAllowedTransitions', () => {
+    it('should let the owner accept, reject or revise a pending request', () => {
+      expect(getAllowedTransitions('pending', 'owner')).toEqual(['accepted', 'rejected', 'modified']);
+    });
+
+    it('should only let the requester revise or withdraw a pending request', () => {
+      expect(getAllowedTransitions('pending', 'requester')).toEqual(['modified', 'cancelled']);
+    });
+
+    it('should not let a modified exchange be accepted until the terms are agreed', () => {
+      expect(canTransition('modified', 'accepted', 'owner')).toBe(false);
+    });
+
+    it('should only promote a queued request through the queue', () => {
+      expect(getAllowedTransitions('queued', 'owner')).toEqual(['rejected']);
+      expect(getAllowedTransitions('queued', 'requester')).toEqual(['cancelled']);
+      expect(isLegalTransition('queued', 'pending')).toBe(true);
+    });
+
+    it('should not allow any move out of a final status', () => {
+      expect(getAllowedTransitions('rejected', 'owner')).toEqual([]);
+      expect(getAllowedTransitions('cancelled', 'requester')).toEqual([]);
+      expect(getAllowedTransitions('completed', 'owner')).toEqual([]);
+    });
+  });
+
+  describe('canTransition', () => {
+    it('should reject reopening a rejected request', () => {
+      expect(canTransition('rejected', 'accepted', 'owner')).toBe(false);
+    });
+
+    it('should reject completing a cancelled request', () => {
+      expect(canTransition('cancelled', 'completed', 'requester')).toBe(false);
+    });
+
+    it('should only complete an accepted exchange through the handover', () => {
+      expect(canTransition('accepted', 'completed', 'owner')).toBe(false);
+      expect(canTransition('accepted', 'completed', 'requester')).toBe(false);
+      expect(isLegalTransition('accepted', 'completed')).toBe(true);
+      expect(isLegalTransition('pending', 'completed')).toBe(false);
+    });
+
+    it('should not let the requester accept their own request', () => {
+      expect(canTransition('pending', 'accepted', 'requester')).toBe(false);
+      expect(getTransitionRoles('pending', 'accepted')).toEqual(['owner']);
+    });
+  });
+
+  describe('getBookStatusFor', () => {
+    it('should map exchange statuses to book statuses', () => {
+      expect(getBookStatusFor('accepted')).toBe('pending');
+      expect(getBookStatusFor('rejected')).toBe('available');
+      expect(getBookStatusFor('cancelled')).toBe('available');
+      expect(getBookStatusFor('completed')).toBe('exchanged');
+    });
+  });
+
+  describe('isTransactionStatus', () => {
+    it('should only accept known statuses', () => {
+      expect(isTransactionStatus('accepted')).toBe(true);
+      expect(isTransactionStatus('archived')).toBe(false);
+      expect(isTransactionStatus(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { computeDueDate, getLoanState, LOAN_DUE_SOON_DAYS } from '../../services/loanService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Loan Service', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+
+  it('should compute the due date from the loan duration', () => {
+    expect(computeDueDate(now, 14)).toEqual(new Date('2024-06-29T12:00:00Z'));
+  });
+
+  it('should not treat an unfinished exchange as a loan', () => {
+    expect(getLoanState({ status: 'accepted', loan: { dueDate: now } }, now)).toBe('none');
+  });
+
+  it('should report loans close to their due date as due soon', () => {
+    const dueDate = new Date(now.getTime() + (LOAN_DUE_SOON_DAYS * DAY_MS) / 2);
+    expect(getLoanState({ status: 'completed', loan: { dueDate } }, now)).toBe('due-soon');
+  });
+
+  it('should report loans past their due date as overdue', () => {
+    const dueDate = new Date(now.getTime() - DAY_MS);
+    expect(getLoanState({ status: 'completed', loan: { dueDate } }, now)).toBe('overdue');
+  });
+
+  it('should report returned loans as returned', () => {
+    const dueDate = new Date(now.getTime() - DAY_MS);
+    expect(getLoanState({ status: 'completed', loan: { dueDate, returnedAt: now } }, now)).toBe('returned');
+  });
+});
@@ -0,0 +1,39 @@
+import { isMeetupReminderDue, MAX_MEETUP_SLOTS, parseMeetupSlots } from '../../services/meetupService';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Meetup Service', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+  const inMinutes = (minutes: number) => new Date(now.getTime() + minutes * MINUTE_MS);
+
+  it('should accept future slots and sort them by time', () => {
+    const { slots } = parseMeetupSlots([
+      { startsAt: inMinutes(120).toISOString(), place: ' Central Library ' },
+      { startsAt: inMinutes(60).toISOString(), place: 'Cafe' }
+    ], now);
+
+    expect(slots).toEqual([
+      { startsAt: inMinutes(60), place: 'Cafe' },
+      { startsAt: inMinutes(120), place: 'Central Library' }
+    ]);
+  });
+
+  it('should reject past slots, missing places and too many slots', () => {
+    expect(parseMeetupSlots([], now).error).toBeDefined();
+    expect(parseMeetupSlots([{ startsAt: inMinutes(-5), place: 'Cafe' }], now).error).toBeDefined();
+    expect(parseMeetupSlots([{ startsAt: inMinutes(30), place: '  ' }], now).error).toBeDefined();
+
+    const tooMany = Array.from({ length: MAX_MEETUP_SLOTS + 1 }, (_, i) => ({ startsAt: inMinutes(30 + i), place: 'Cafe' }));
+    expect(parseMeetupSlots(tooMany, now).error).toBeDefined();
+  });
+
+  it('should only make the reminder due within the hour before a confirmed meetup', () => {
+    expect(isMeetupReminderDue({ confirmed: { startsAt: inMinutes(45), place: 'Cafe' } }, now)).toBe(true);
+    expect(isMeetupReminderDue({ confirmed: { startsAt: inMinutes(90), place: 'Cafe' } }, now)).toBe(false);
+    expect(isMeetupReminderDue({ confirmed: { startsAt: inMinutes(-10), place: 'Cafe' } }, now)).toBe(false);
+    expect(isMeetupReminderDue({
+      confirmed: { startsAt: inMinutes(45), place: 'Cafe' },
+      reminderSentAt: now
+    }, now)).toBe(false);
+  });
+});
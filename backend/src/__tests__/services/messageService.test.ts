@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+  buildMessageCursorFilter,
+  groupMessagesForDigest,
+  parseMessagePageSize
+} from '../../services/messageService';
+
+describe('Message Service', () => {
+  it('should fall back to the default page size and cap large ones', () => {
+    expect(parseMessagePageSize(undefined)).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(parseMessagePageSize('abc')).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(parseMessagePageSize('0')).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(parseMessagePageSize('10')).toBe(10);
+    expect(parseMessagePageSize('5000')).toBe(MAX_MESSAGE_PAGE_SIZE);
+  });
+
+  it('should page around the cursor with the id breaking ties', () => {
+    const cursor = { _id: new Types.ObjectId(), createdAt: new Date('2024-05-01T10:00:00Z') };
+
+    expect(buildMessageCursorFilter('before', cursor)).toEqual({
+      $or: [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor._id } }
+      ]
+    });
+    expect(buildMessageCursorFilter('after', cursor).$or[0]).toEqual({ createdAt: { $gt: cursor.createdAt } });
+  });
+
+  it('should group unread messages by recipient and exchange', () => {
+    const owner = new Types.ObjectId();
+    const requester = new Types.ObjectId();
+    const otherRequester = new Types.ObjectId();
+    const first = { _id: new Types.ObjectId(), requester, owner };
+    const second = { _id: new Types.ObjectId(), requester: otherRequester, owner };
+    const messages = [
+      { transaction: first._id, sender: requester },
+      { transaction: first._id, sender: requester },
+      { transaction: second._id, sender: otherRequester },
+      { transaction: first._id, sender: owner },
+      { transaction: new Types.ObjectId(), sender: owner }
+    ];
+
+    const digests = groupMessagesForDigest(messages, [first, second]);
+
+    expect([...digests.keys()].sort()).toEqual([owner.toString(), requester.toString()].sort());
+    expect(digests.get(owner.toString())!.get(first._id.toString())).toEqual(messages.slice(0, 2));
+    expect(digests.get(owner.toString())!.get(second._id.toString())).toEqual([messages[2]]);
+    expect(digests.get(requester.toString())!.get(first._id.toString())).toEqual([messages[3]]);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  getNotificationEvent,
+  isWithinQuietHours,
+  mergeNotificationPreferences,
+  resolveNotificationPreferences,
+  shouldNotify
+} from '../../services/notificationPreferences';
+
+// 23:30 and 12:00 in India
+const LATE_NIGHT = new Date('2026-03-10T18:00:00Z');
+const MIDDAY = new Date('2026-03-10T06:30:00Z');
+
+describe('Notification Preferences', () => {
+  const defaults = resolveNotificationPreferences();
+
+  it('should default to email and in-app without quiet hours', () => {
+    expect(defaults.message).toEqual({ email: true, inApp: true, push: false });
+    expect(defaults.quietHours.enabled).toBe(false);
+    expect(shouldNotify(undefined, 'newRequest', 'email', LATE_NIGHT)).toBe(true);
+    expect(shouldNotify(undefined, 'newRequest', 'push', MIDDAY)).toBe(false);
+  });
+
+  it('should map every notification type to an event', () => {
+    expect(getNotificationEvent('exchange-request')).toBe('newRequest');
+    expect(getNotificationEvent('loan-reminder')).toBe('reminder');
+    expect(getNotificationEvent('review')).toBe('statusChange');
+  });
+
+  it('should merge a partial update', () => {
+    const { preferences, error } = mergeNotificationPreferences(defaults, {
+      message: { email: false },
+      quietHours: { enabled: true, start: '23:00' }
+    });
+
+    expect(error).toBeUndefined();
+    expect(preferences!.message).toEqual({ email: false, inApp: true, push: false });
+    expect(preferences!.quietHours).toEqual({ enabled: true, start: '23:00', end: '07:00' });
+    expect(defaults.message.email).toBe(true);
+  });
+
+  it('should reject unknown events, channels and malformed times', () => {
+    expect(mergeNotificationPreferences(defaults, { reviews: { email: false } }).error).toBe('Unknown notification type: reviews');
+    expect(mergeNotificationPreferences(defaults, { message: { sms: true } }).error).toBe('Invalid channel setting for message: sms');
+    expect(mergeNotificationPreferences(defaults, { message: { email: 'no' } }).error).toBe('Invalid channel setting for message: email');
+    expect(mergeNotificationPreferences(defaults, { quietHours: { start: '25:00' } }).error).toBe('Invalid quiet hours setting: start');
+    expect(mergeNotificationPreferences(defaults, null).error).toBe('Notification preferences must be an object');
+  });
+
+  it('should handle quiet hours that run past midnight', () => {
+    const overnight = { enabled: true, start: '22:00', end: '07:00' };
+    expect(isWithinQuietHours(overnight, LATE_NIGHT)).toBe(true);
+    expect(isWithinQuietHours(overnight, MIDDAY)).toBe(false);
+
+    const afternoon = { enabled: true, start: '11:00', end: '14:00' };
+    expect(isWithinQuietHours(afternoon, MIDDAY)).toBe(true);
+    expect(isWithinQuietHours(afternoon, LATE_NIGHT)).toBe(false);
+    expect(isWithinQuietHours({ ...afternoon, enabled: false }, MIDDAY)).toBe(false);
+  });
+
+  it('should hold back email and push but not in-app during quiet hours', () => {
+    const preferences = {
+      ...defaults,
+      message: { email: true, inApp: true, push: true },
+      quietHours: { enabled: true, start: '22:00', end: '07:00' }
+    };
+
+    expect(shouldNotify(preferences, 'message', 'email', LATE_NIGHT)).toBe(false);
+    expect(shouldNotify(preferences, 'message', 'push', LATE_NIGHT)).toBe(false);
+    expect(shouldNotify(preferences, 'message', 'inApp', LATE_NIGHT)).toBe(true);
+    expect(shouldNotify(preferences, 'message', 'email', MIDDAY)).toBe(true);
+  });
+});
@@ -0,0 +1,19 @@
+import { describeStatusChange } from '../../services/notificationService';
+
+describe('Notification Service', () => {
+  it('should name the person who made the change', () => {
+    expect(describeStatusChange('accepted', 'Dune', 'Asha')).toBe('Asha accepted your request for "Dune"');
+    expect(describeStatusChange('cancelled', 'Dune', 'Ravi')).toBe('Ravi withdrew their request for "Dune"');
+    expect(describeStatusChange('modified', 'Dune', 'Asha')).toBe('Asha proposed new terms for "Dune"');
+  });
+
+  it('should fall back to a neutral actor for changes made by jobs', () => {
+    expect(describeStatusChange('accepted', 'Dune')).toBe('The other party accepted your request for "Dune"');
+    expect(describeStatusChange('expired', 'Dune')).toBe('The request for "Dune" expired');
+    expect(describeStatusChange('pending', 'Dune')).toBe('Your request for "Dune" is now first in line');
+  });
+
+  it('should describe any other status generically', () => {
+    expect(describeStatusChange('queued', 'Dune')).toBe('The exchange for "Dune" is now queued');
+  });
+});
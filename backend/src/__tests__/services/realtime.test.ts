@@ -0,0 +1,44 @@
+import {
+  addConnection,
+  formatServerSentEvent,
+  isUserConnected,
+  publishToUsers,
+  removeConnection
+} from '../../services/realtime';
+
+describe('Realtime', () => {
+  const createConnection = () => ({ write: jest.fn() });
+
+  it('should format events as server-sent event data', () => {
+    expect(formatServerSentEvent({ type: 'unread-count', unreadCount: 2 }))
+      .toBe('data: {"type":"unread-count","unreadCount":2}\n\n');
+  });
+
+  it('should push to every open stream of the recipients only', () => {
+    const firstTab = createConnection();
+    const secondTab = createConnection();
+    const otherUser = createConnection();
+    addConnection('alice', firstTab);
+    addConnection('alice', secondTab);
+    addConnection('bob', otherUser);
+
+    publishToUsers(['alice', 'alice', 'carol'], { type: 'unread-count', unreadCount: 1 });
+
+    expect(firstTab.write).toHaveBeenCalledTimes(1);
+    expect(secondTab.write).toHaveBeenCalledTimes(1);
+    expect(otherUser.write).not.toHaveBeenCalled();
+
+    removeConnection('alice', firstTab);
+    removeConnection('alice', secondTab);
+    removeConnection('bob', otherUser);
+  });
+
+  it('should forget users once their last stream closes', () => {
+    const connection = createConnection();
+    addConnection('dave', connection);
+    expect(isUserConnected('dave')).toBe(true);
+
+    removeConnection('dave', connection);
+    expect(isUserConnected('dave')).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { computeReputation } from '../../services/reputationService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Reputation Service', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  it('should be 0 without reviews', () => {
+    expect(computeReputation([], now)).toBe(0);
+  });
+
+  it('should average reviews of the same age', () => {
+    expect(computeReputation([
+      { rating: 5, createdAt: daysAgo(3) },
+      { rating: 4, createdAt: daysAgo(3) }
+    ], now)).toBe(4.5);
+  });
+
+  it('should weight recent reviews more than old ones', () => {
+    const reputation = computeReputation([
+      { rating: 5, createdAt: daysAgo(1) },
+      { rating: 1, createdAt: daysAgo(720) }
+    ], now);
+
+    expect(reputation).toBeGreaterThan(4.5);
+    expect(reputation).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,17 @@
+import { canAdvanceShipment, isShippedExchange } from '../../services/shipmentService';
+
+describe('Shipment Service', () => {
+  it('should only let shipments move forward', () => {
+    expect(canAdvanceShipment(undefined, 'dispatched')).toBe(true);
+    expect(canAdvanceShipment('dispatched', 'in-transit')).toBe(true);
+    expect(canAdvanceShipment('dispatched', 'delivered')).toBe(true);
+    expect(canAdvanceShipment('in-transit', 'in-transit')).toBe(false);
+    expect(canAdvanceShipment('delivered', 'in-transit')).toBe(false);
+  });
+
+  it('should track shipments for courier and mail exchanges only', () => {
+    expect(isShippedExchange({ terms: { deliveryMethod: 'courier', duration: 7 } })).toBe(true);
+    expect(isShippedExchange({ terms: { deliveryMethod: 'mail', duration: 7 } })).toBe(true);
+    expect(isShippedExchange({ terms: { deliveryMethod: 'in-person', duration: 7 } })).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { findSwapCycles, getSwapCycleSignature, SwapListing } from '../../services/swapMatching';
+
+describe('Swap Matching', () => {
+  const listings: SwapListing[] = [
+    { bookId: 'book-a', ownerId: 'alice' },
+    { bookId: 'book-b', ownerId: 'bob' },
+    { bookId: 'book-c', ownerId: 'carol' },
+    { bookId: 'book-d', ownerId: 'dave' },
+    { bookId: 'book-e', ownerId: 'erin' }
+  ];
+
+  it('should find a direct swap between two users', () => {
+    const wants = new Map([
+      ['alice', ['book-b']],
+      ['bob', ['book-a']]
+    ]);
+
+    expect(findSwapCycles(listings, wants)).toEqual([[
+      { giver: 'bob', receiver: 'alice', book: 'book-b' },
+      { giver: 'alice', receiver: 'bob', book: 'book-a' }
+    ]]);
+  });
+
+  it('should find a three-way cycle once', () => {
+    const wants = new Map([
+      ['alice', ['book-b']],
+      ['bob', ['book-c']],
+      ['carol', ['book-a']]
+    ]);
+
+    const cycles = findSwapCycles(listings, wants);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].map(leg => leg.receiver)).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('should ignore cycles longer than the limit', () => {
+    const wants = new Map([
+      ['alice', ['book-b']],
+      ['bob', ['book-c']],
+      ['carol', ['book-d']],
+      ['dave', ['book-e']],
+      ['erin', ['book-a']]
+    ]);
+
+    expect(findSwapCycles(listings, wants)).toEqual([]);
+    expect(findSwapCycles(listings, wants, 5)).toHaveLength(1);
+  });
+
+  it('should prefer shorter cycles and never reuse a book', () => {
+    const wants = new Map([
+      ['alice', ['book-b']],
+      ['bob', ['book-a', 'book-c']],
+      ['carol', ['book-a']]
+    ]);
+
+    const cycles = findSwapCycles(listings, wants);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toHaveLength(2);
+  });
+
+  it('should not match users with their own books', () => {
+    const wants = new Map([['alice', ['book-a']]]);
+    expect(findSwapCycles(listings, wants)).toEqual([]);
+  });
+
+  it('should give the same signature to rotations of a cycle', () => {
+    const legs = [
+      { giver: 'bob', receiver: 'alice', book: 'book-b' },
+      { giver: 'alice', receiver: 'bob', book: 'book-a' }
+    ];
+
+    expect(getSwapCycleSignature(legs)).toBe(getSwapCycleSignature([legs[1], legs[0]]));
+  });
+});
@@ -0,0 +1,32 @@
+import { Types } from 'mongoose';
+import { getOpenSiblingLegs } from '../../services/swapService';
+import { TransactionStatus } from '../../models/Transaction';
+
+const leg = (status: TransactionStatus, dispute: Types.ObjectId | null = null) => ({
+  _id: new Types.ObjectId(),
+  status,
+  dispute
+});
+
+describe('Swap Service', () => {
+  it('should pick the other legs still waiting for their handover', () => {
+    const closed = leg('cancelled');
+    const waiting = leg('accepted');
+    const renegotiating = leg('modified');
+    const legs = [closed, waiting, renegotiating, leg('completed'), leg('expired')];
+
+    expect(getOpenSiblingLegs(legs, closed._id)).toEqual([waiting, renegotiating]);
+  });
+
+  it('should leave disputed legs frozen', () => {
+    const closed = leg('cancelled');
+    const disputed = leg('accepted', new Types.ObjectId());
+
+    expect(getOpenSiblingLegs([closed, disputed], closed._id)).toEqual([]);
+  });
+
+  it('should never include the leg that closed', () => {
+    const closed = leg('accepted');
+    expect(getOpenSiblingLegs([closed], closed._id)).toEqual([]);
+  });
+});
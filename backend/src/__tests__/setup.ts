@@ -0,0 +1,5 @@
+// Controller tests sign their own tokens, so the auth middleware needs a secret
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+// Downloading mongod for the in-memory database can take a while on the first run
+jest.setTimeout(30000);
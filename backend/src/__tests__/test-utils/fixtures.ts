@@ -0,0 +1,50 @@
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Book, { IBookDocument } from '../../models/Book';
+import Transaction, { ITransaction, TransactionStatus } from '../../models/Transaction';
+import { IUser } from '../../models/User';
+import { createTestUser } from '../setup/auth.setup';
+
+const terms = { deliveryMethod: 'in-person' as const, duration: 14 };
+
+export const createUser = (name: string): Promise<IUser> => createTestUser({
+  name,
+  email: `${name.toLowerCase()}@example.com`,
+  password: 'password123',
+  securityAnswers: ['Answer1', 'Answer2', 'Answer3']
+});
+
+// The Authorization header the auth middleware expects for this user
+export const authHeader = (user: Pick<IUser, '_id'>) =>
+  `Bearer ${jwt.sign({ userId: user._id }, process.env.JWT_SECRET!)}`;
+
+export const createBook = (owner: Pick<IUser, '_id'>, title: string, status: IBookDocument['status'] = 'available') =>
+  Book.create({
+    title,
+    author: 'R. K. Narayan',
+    genre: 'Fiction',
+    condition: 'Good',
+    location: 'Chennai',
+    owner: owner._id,
+    status
+  });
+
+// An exchange already in the given status, holding its book and any offered books as an open request does
+export const createExchange = async (
+  requester: Pick<IUser, '_id'>,
+  book: IBookDocument,
+  status: TransactionStatus = 'pending',
+  fields: Partial<Pick<ITransaction, 'offeredBooks' | 'swapCycle' | 'dispute'>> = {}
+): Promise<ITransaction> => {
+  await Book.updateMany({ _id: { $in: [book._id, ...(fields.offeredBooks || [])] } }, { status: 'pending' });
+  return Transaction.create({
+    book: book._id,
+    requester: requester._id,
+    owner: book.owner,
+    status,
+    terms,
+    termsRevisions: [{ version: 1, terms, proposedBy: requester._id, acceptedAt: new Date() }],
+    lastModifiedBy: requester._id as Types.ObjectId,
+    ...fields
+  });
+};
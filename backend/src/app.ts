@@ -4,6 +4,13 @@ import authRoutes from './routes/authRoutes';
 import bookRoutes from './routes/bookRoutes';
 import transactionRoutes from './routes/transactionRoutes';
 import userRoutes from './routes/userRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import disputeRoutes from './routes/disputeRoutes';
+import swapRoutes from './routes/swapRoutes';
+import realtimeRoutes from './routes/realtimeRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import emailRoutes from './routes/emailRoutes';
+import devRoutes from './routes/devRoutes';
 
 const app = express();
 
@@ -18,5 +25,14 @@ app.use('/api/auth', authRoutes);
 app.use('/api/books', bookRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/swaps', swapRoutes);
+app.use('/api/realtime', realtimeRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/emails', emailRoutes);
+if (process.env.ENABLE_DEV_ROUTES === 'true') {
+  app.use('/api/dev', devRoutes);
+}
 
 export { app };
\ No newline at end of file
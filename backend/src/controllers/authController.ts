@@ -60,7 +60,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     );
 
     try {
-      await sendEmail(email, 'welcome', { name });
+      await sendEmail(email, 'welcome', { name }, user.preferredLanguage);
     } catch (emailErr) {
       console.error('Email sending failed:', emailErr);
     }
@@ -123,7 +123,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       user: {
         id: user._id,
         name: user.name,
-        email: user.email
+        email: user.email,
+        role: user.role
       }
     });
   } catch (err) {
@@ -150,10 +151,10 @@ export const forgotPassword = async (req: Request, res: Response): Promise<void>
     await user.save();
 
     try {
-      await sendEmail(email, 'passwordReset', { otp });
+      await sendEmail(email, 'passwordReset', { otp }, user.preferredLanguage);
       res.json({ message: 'OTP sent to email' });
     } catch (emailErr) {
-      // Rollback the OTP
+      // Rollback the OTP if the email could not be queued
       user.resetPasswordToken = undefined;
       user.resetPasswordExpires = undefined;
       await user.save();
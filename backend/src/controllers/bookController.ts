@@ -3,6 +3,7 @@ import mongoose from 'mongoose';
 import { AuthRequest } from '../types/custom';
 import Book, { IBook, BookStatus, BookCondition } from '../models/Book';
 import User, { IUser } from '../models/User';
+import { getQueueableBookIds, getQueueSizes } from '../services/requestQueue';
 
 const ITEMS_PER_PAGE = 15;
 
@@ -40,10 +41,11 @@ interface BookResponse {
       genres: string[];
     };
   };
+  queueSize?: number;
   createdAt: Date;
 }
 
-const transformBookToResponse = (book: PopulatedBookDocument): BookResponse => {
+const transformBookToResponse = (book: PopulatedBookDocument, queueSize?: number): BookResponse => {
   return {
     id: book._id.toString(),
     title: book.title,
@@ -58,6 +60,7 @@ const transformBookToResponse = (book: PopulatedBookDocument): BookResponse => {
       email: book.owner.email,
       preferences: book.owner.preferences
     },
+    queueSize,
     createdAt: book.createdAt
   };
 };
@@ -76,7 +79,16 @@ export const getBooks = async (req: AuthRequest, res: Response): Promise<void> =
     const currentUser = await User.findById(userId);
     const userGenres = currentUser?.preferences?.genres || [];
 
-    let query = Book.find({ status: 'available' });
+    // Pending books are listed too when other readers can still join their waitlist
+    const queueableBookIds = await getQueueableBookIds();
+    let query = Book.find({
+      $and: [{
+        $or: [
+          { status: 'available' },
+          { status: 'pending', _id: { $in: [...queueableBookIds] } }
+        ]
+      }]
+    });
 
     // Apply filters
     if (searchQuery) {
@@ -105,7 +117,7 @@ export const getBooks = async (req: AuthRequest, res: Response): Promise<void> =
     const books = await query
       .skip((page - 1) * ITEMS_PER_PAGE)
       .limit(ITEMS_PER_PAGE)
-      .populate<{ owner: IUser }>('owner', 'name email preferences location')
+      .populate<{ owner: IUser }>('owner', 'name email preferences location reputation')
       .lean();
 
     // Sort books
@@ -140,6 +152,7 @@ export const getBooks = async (req: AuthRequest, res: Response): Promise<void> =
         genre: book.genre,
         condition: book.condition,
         status: book.status,
+        canQueue: queueableBookIds.has(book._id.toString()),
         description: book.description,
         location: book.location,
         owner: {
@@ -147,6 +160,7 @@ export const getBooks = async (req: AuthRequest, res: Response): Promise<void> =
           name: populatedOwner.name,
           email: populatedOwner.email,
           location: populatedOwner.location,
+          reputation: populatedOwner.reputation || 0,
           preferences: populatedOwner.preferences || { genres: [] }
         },
         createdAt: book.createdAt
@@ -176,8 +190,10 @@ export const getUserBooks = async (req: AuthRequest, res: Response): Promise<voi
       .populate<{ owner: IUser }>('owner', 'name email preferences')
       .sort({ createdAt: -1 });
 
+    const queueSizes = await getQueueSizes(books.map(book => book._id));
+
     const transformedBooks = books.map(book => 
-      transformBookToResponse(book as unknown as PopulatedBookDocument)
+      transformBookToResponse(book as unknown as PopulatedBookDocument, queueSizes.get(book._id.toString()) || 0)
     );
 
     res.json({
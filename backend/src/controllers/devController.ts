@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { getEmailTransport } from '../services/emailTransport';
+
+// Emails captured by the file or memory transport, newest first
+export const getOutbox = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transport = getEmailTransport();
+    if (!transport.list) {
+      res.status(404).json({ error: `The ${transport.kind} email transport does not keep an outbox` });
+      return;
+    }
+
+    res.json({
+      data: {
+        transport: transport.kind,
+        emails: await transport.list()
+      }
+    });
+  } catch (err) {
+    console.error('Get outbox error:', err);
+    res.status(500).json({ error: 'Failed to read the outbox' });
+  }
+};
+
+export const clearOutbox = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transport = getEmailTransport();
+    if (!transport.clear) {
+      res.status(404).json({ error: `The ${transport.kind} email transport does not keep an outbox` });
+      return;
+    }
+
+    await transport.clear();
+    res.json({ message: 'Outbox cleared' });
+  } catch (err) {
+    console.error('Clear outbox error:', err);
+    res.status(500).json({ error: 'Failed to clear the outbox' });
+  }
+};
@@ -0,0 +1,426 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { AuthRequest } from '../types/custom';
+import Dispute, { DISPUTE_OUTCOMES, DISPUTE_REASONS, DisputeOutcome, IDispute } from '../models/Dispute';
+import Transaction, { TransactionStatus } from '../models/Transaction';
+import User from '../models/User';
+import { recomputeReputation } from '../services/reputationService';
+import { recordExchangeEvent } from '../services/exchangeEvents';
+import { postMessage } from '../services/messageService';
+import { flagSwapSiblings } from '../services/swapService';
+
+// Exchange statuses in which a problem can be reported
+const DISPUTABLE_STATUSES: TransactionStatus[] = ['accepted', 'completed'];
+const MAX_EVIDENCE_PHOTOS = 5;
+
+// Multer for evidence photos, kept outside the publicly served uploads folder
+const storage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    const uploadDir = 'private-uploads/dispute-evidence';
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: function (req, file, cb) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, uniqueSuffix + path.extname(file.originalname));
+  }
+});
+
+const upload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      const error = new Error('Invalid file type');
+      return cb(error as any, false);
+    }
+    cb(null, true);
+  }
+}).array('evidence', MAX_EVIDENCE_PHOTOS);
+
+const removeUploads = (files: Express.Multer.File[]) => {
+  for (const file of files) {
+    if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
+
+const isAdmin = async (userId: string) => {
+  const user = await User.findById(userId, 'role');
+  return user?.role === 'admin';
+};
+
+const DISPUTE_POPULATE = [
+  { path: 'reporter', select: 'name' },
+  { path: 'respondent', select: 'name' },
+  { path: 'events.actor', select: 'name' },
+  { path: 'resolution.resolvedBy', select: 'name' }
+];
+
+const populateDispute = (dispute: IDispute) => dispute.populate(DISPUTE_POPULATE);
+
+// Report a problem with an exchange; freezes its status until an admin resolves the dispute
+export const openDispute = async (req: AuthRequest, res: Response): Promise<void> => {
+  upload(req, res, async function (err) {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: 'File upload error: ' + err.message });
+      return;
+    } else if (err) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    try {
+      const { transactionId, reason, description } = req.body;
+      const reporterId = new Types.ObjectId(req.userId);
+
+      if (!Types.ObjectId.isValid(transactionId)) {
+        removeUploads(files);
+        res.status(400).json({ error: 'Invalid exchange ID' });
+        return;
+      }
+
+      if (!DISPUTE_REASONS.includes(reason)) {
+        removeUploads(files);
+        res.status(400).json({ error: 'Invalid dispute reason' });
+        return;
+      }
+
+      if (!description?.trim()) {
+        removeUploads(files);
+        res.status(400).json({ error: 'Please describe the problem' });
+        return;
+      }
+
+      const transaction = await Transaction.findById(transactionId);
+      if (!transaction) {
+        removeUploads(files);
+        res.status(404).json({ error: 'Exchange request not found' });
+        return;
+      }
+
+      const isOwner = transaction.owner.toString() === req.userId;
+      const isRequester = transaction.requester.toString() === req.userId;
+
+      if (!isOwner && !isRequester) {
+        removeUploads(files);
+        res.status(403).json({ error: 'Not authorized to report a problem with this exchange' });
+        return;
+      }
+
+      if (transaction.dispute) {
+        removeUploads(files);
+        res.status(409).json({ error: 'A dispute is already open for this exchange' });
+        return;
+      }
+
+      if (!DISPUTABLE_STATUSES.includes(transaction.status)) {
+        removeUploads(files);
+        res.status(409).json({ error: 'Problems can only be reported on accepted or completed exchanges' });
+        return;
+      }
+
+      const now = new Date();
+      const dispute = await Dispute.create({
+        transaction: transaction._id,
+        reporter: reporterId,
+        respondent: isOwner ? transaction.requester : transaction.owner,
+        reason,
+        description: description.trim(),
+        evidencePhotos: files.map(file => file.path.replace(/\\/g, '/')),
+        frozenStatus: transaction.status,
+        events: [{ type: 'opened', actor: reporterId, note: description.trim(), createdAt: now }]
+      });
+
+      transaction.dispute = dispute._id;
+      transaction.lastModifiedBy = reporterId;
+      await postMessage(transaction._id, {
+        sender: transaction.owner,
+        content: 'A problem was reported with this exchange. Its status is frozen until the dispute is resolved.',
+        createdAt: now,
+        read: false,
+        notified: false,
+        system: true
+      });
+      await transaction.save();
+      await recordExchangeEvent({
+        transaction: transaction._id,
+        type: 'dispute',
+        actor: reporterId,
+        after: { dispute: dispute._id, status: 'open', reason },
+        note: description.trim()
+      });
+      await flagSwapSiblings(transaction);
+
+      await populateDispute(dispute);
+
+      res.status(201).json({
+        message: 'Dispute opened successfully',
+        data: dispute
+      });
+    } catch (error) {
+      removeUploads(files);
+      console.error('Open dispute error:', error);
+      res.status(500).json({ error: 'Failed to open dispute' });
+    }
+  });
+};
+
+export const addDisputeComment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { disputeId } = req.params;
+    const { note } = req.body;
+
+    if (!Types.ObjectId.isValid(disputeId)) {
+      res.status(400).json({ error: 'Invalid dispute ID' });
+      return;
+    }
+
+    if (!note?.trim()) {
+      res.status(400).json({ error: 'Comment cannot be empty' });
+      return;
+    }
+
+    const dispute = await Dispute.findById(disputeId);
+    if (!dispute) {
+      res.status(404).json({ error: 'Dispute not found' });
+      return;
+    }
+
+    const isParty = [dispute.reporter.toString(), dispute.respondent.toString()].includes(req.userId);
+    if (!isParty && !(await isAdmin(req.userId))) {
+      res.status(403).json({ error: 'Not authorized to comment on this dispute' });
+      return;
+    }
+
+    if (dispute.status !== 'open') {
+      res.status(409).json({ error: 'This dispute has already been resolved' });
+      return;
+    }
+
+    dispute.events.push({
+      type: 'comment',
+      actor: new Types.ObjectId(req.userId),
+      note: note.trim(),
+      createdAt: new Date()
+    });
+    await dispute.save();
+
+    await populateDispute(dispute);
+
+    res.json({
+      message: 'Comment added successfully',
+      data: dispute
+    });
+  } catch (err) {
+    console.error('Add dispute comment error:', err);
+    res.status(500).json({ error: 'Failed to add comment' });
+  }
+};
+
+// Disputes raised on an exchange, newest first; visible to its two parties and admins
+export const getTransactionDisputes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { transactionId } = req.params;
+
+    if (!Types.ObjectId.isValid(transactionId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(transactionId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    const isParty = [transaction.owner.toString(), transaction.requester.toString()].includes(req.userId);
+    if (!isParty && !(await isAdmin(req.userId))) {
+      res.status(403).json({ error: 'Not authorized to view this exchange' });
+      return;
+    }
+
+    const disputes = await Dispute.find({ transaction: transaction._id })
+      .populate(DISPUTE_POPULATE)
+      .sort({ createdAt: -1 });
+
+    res.json({
+      data: disputes
+    });
+  } catch (err) {
+    console.error('Get exchange disputes error:', err);
+    res.status(500).json({ error: 'Failed to fetch disputes' });
+  }
+};
+
+// One evidence photo, for the reporter, the respondent and admins only
+export const getDisputeEvidence = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { disputeId, photoIndex } = req.params;
+    const index = Number(photoIndex);
+
+    if (!Types.ObjectId.isValid(disputeId) || !Number.isInteger(index) || index < 0) {
+      res.status(400).json({ error: 'Invalid evidence photo' });
+      return;
+    }
+
+    const dispute = await Dispute.findById(disputeId, 'reporter respondent evidencePhotos');
+    if (!dispute) {
+      res.status(404).json({ error: 'Dispute not found' });
+      return;
+    }
+
+    const isParty = [dispute.reporter.toString(), dispute.respondent.toString()].includes(req.userId);
+    if (!isParty && !(await isAdmin(req.userId))) {
+      res.status(403).json({ error: 'Not authorized to view this dispute' });
+      return;
+    }
+
+    const photo = dispute.evidencePhotos[index];
+    const filePath = photo && path.resolve(photo);
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      res.status(404).json({ error: 'Evidence photo not found' });
+      return;
+    }
+
+    res.set('Cache-Control', 'private, max-age=86400');
+    res.sendFile(filePath);
+  } catch (err) {
+    console.error('Get dispute evidence error:', err);
+    res.status(500).json({ error: 'Failed to fetch evidence photo' });
+  }
+};
+
+// Admin queue of disputes, oldest first
+export const listDisputes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status === 'resolved' ? 'resolved' : 'open';
+
+    const disputes = await Dispute.find({ status })
+      .populate([
+        ...DISPUTE_POPULATE,
+        {
+          path: 'transaction',
+          select: 'book status',
+          populate: { path: 'book', select: 'title' }
+        }
+      ])
+      .sort({ createdAt: 1 })
+      .limit(100);
+
+    res.json({
+      data: disputes
+    });
+  } catch (err) {
+    console.error('List disputes error:', err);
+    res.status(500).json({ error: 'Failed to fetch disputes' });
+  }
+};
+
+export const resolveDispute = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { disputeId } = req.params;
+    const { outcome, note } = req.body;
+    const reputationPenalty = Number(req.body.reputationPenalty || 0);
+    const adminId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(disputeId)) {
+      res.status(400).json({ error: 'Invalid dispute ID' });
+      return;
+    }
+
+    if (!DISPUTE_OUTCOMES.includes(outcome)) {
+      res.status(400).json({ error: 'Invalid dispute outcome' });
+      return;
+    }
+
+    if (Number.isNaN(reputationPenalty) || reputationPenalty < 0 || reputationPenalty > 5) {
+      res.status(400).json({ error: 'Reputation penalty must be between 0 and 5' });
+      return;
+    }
+
+    const dispute = await Dispute.findById(disputeId);
+    if (!dispute) {
+      res.status(404).json({ error: 'Dispute not found' });
+      return;
+    }
+
+    if (dispute.status !== 'open') {
+      res.status(409).json({ error: 'This dispute has already been resolved' });
+      return;
+    }
+
+    // An upheld dispute penalizes the reported party, a dismissed one the reporter
+    const penalizedUsers: Partial<Record<DisputeOutcome, Types.ObjectId>> = {
+      upheld: dispute.respondent,
+      dismissed: dispute.reporter
+    };
+    const penalizedUser = reputationPenalty > 0 ? penalizedUsers[outcome as DisputeOutcome] : undefined;
+
+    const now = new Date();
+    dispute.status = 'resolved';
+    dispute.resolution = {
+      outcome,
+      note: note?.trim() || undefined,
+      penalizedUser,
+      reputationPenalty: penalizedUser ? reputationPenalty : 0,
+      resolvedBy: adminId,
+      resolvedAt: now
+    };
+    dispute.events.push({
+      type: 'resolved',
+      actor: adminId,
+      note: note?.trim() || undefined,
+      createdAt: now
+    });
+    await dispute.save();
+
+    const transaction = await Transaction.findById(dispute.transaction);
+    if (transaction) {
+      transaction.dispute = null;
+      await postMessage(transaction._id, {
+        sender: transaction.owner,
+        content: `The reported problem was resolved (${outcome}). The exchange can continue as normal.`,
+        createdAt: now,
+        read: false,
+        notified: false,
+        system: true
+      });
+      await transaction.save();
+      await recordExchangeEvent({
+        transaction: transaction._id,
+        type: 'dispute',
+        actor: adminId,
+        before: { dispute: dispute._id, status: 'open' },
+        after: { dispute: dispute._id, status: 'resolved', outcome },
+        note: note?.trim() || undefined
+      });
+    }
+
+    if (penalizedUser) {
+      await recomputeReputation(penalizedUser);
+    }
+
+    await populateDispute(dispute);
+
+    res.json({
+      message: 'Dispute resolved successfully',
+      data: dispute
+    });
+  } catch (err) {
+    console.error('Resolve dispute error:', err);
+    res.status(500).json({ error: 'Failed to resolve dispute' });
+  }
+};
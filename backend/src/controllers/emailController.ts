@@ -0,0 +1,56 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../types/custom';
+import EmailJob from '../models/EmailJob';
+import { resendEmail } from '../services/emailQueue';
+
+const FAILED_EMAIL_PAGE_SIZE = 100;
+
+// Emails the worker gave up on, most recent first, with the size of each queue state
+export const getFailedEmails = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const [emails, counts] = await Promise.all([
+      EmailJob.find({ status: 'failed' }, '-html -text')
+        .sort({ updatedAt: -1 })
+        .limit(FAILED_EMAIL_PAGE_SIZE),
+      EmailJob.aggregate<{ _id: string; count: number }>([
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    res.json({
+      data: {
+        emails,
+        counts: Object.fromEntries(counts.map(({ _id, count }) => [_id, count]))
+      }
+    });
+  } catch (err) {
+    console.error('Get failed emails error:', err);
+    res.status(500).json({ error: 'Failed to fetch failed emails' });
+  }
+};
+
+export const resendFailedEmail = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { emailId } = req.params;
+
+    if (!Types.ObjectId.isValid(emailId)) {
+      res.status(400).json({ error: 'Invalid email ID' });
+      return;
+    }
+
+    const email = await resendEmail(emailId);
+    if (!email) {
+      res.status(404).json({ error: 'Failed email not found' });
+      return;
+    }
+
+    res.json({
+      message: 'Email queued for another attempt',
+      data: email
+    });
+  } catch (err) {
+    console.error('Resend email error:', err);
+    res.status(500).json({ error: 'Failed to resend email' });
+  }
+};
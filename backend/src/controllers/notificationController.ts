@@ -0,0 +1,107 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../types/custom';
+import Notification from '../models/Notification';
+import { NOTIFICATION_PAGE_SIZE, countUnreadNotifications } from '../services/notificationService';
+import { publishToUsers } from '../services/realtime';
+
+// Keep the badge in the user's other tabs in step
+const pushUnreadNotifications = async (userId: Types.ObjectId) => {
+  const unreadNotifications = await countUnreadNotifications(userId);
+  publishToUsers([userId], { type: 'notification-count', unreadNotifications });
+  return unreadNotifications;
+};
+
+// The user's latest notifications, most recently updated first
+export const getNotifications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = new Types.ObjectId(req.userId);
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find({ user: userId })
+        .sort({ updatedAt: -1 })
+        .limit(NOTIFICATION_PAGE_SIZE),
+      countUnreadNotifications(userId)
+    ]);
+
+    res.json({
+      data: {
+        notifications,
+        unreadCount
+      }
+    });
+  } catch (err) {
+    console.error('Get notifications error:', err);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+};
+
+export const getUnreadNotificationCount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const unreadCount = await countUnreadNotifications(new Types.ObjectId(req.userId));
+
+    res.json({
+      data: { unreadCount }
+    });
+  } catch (err) {
+    console.error('Get unread notification count error:', err);
+    res.status(500).json({ error: 'Failed to fetch unread notification count' });
+  }
+};
+
+export const markNotificationRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { notificationId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(notificationId)) {
+      res.status(400).json({ error: 'Invalid notification ID' });
+      return;
+    }
+
+    const notification = await Notification.findOne({ _id: notificationId, user: userId });
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+
+    if (!notification.read) {
+      notification.read = true;
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    const unreadCount = await pushUnreadNotifications(userId);
+
+    res.json({
+      message: 'Notification marked as read',
+      data: {
+        notification,
+        unreadCount
+      }
+    });
+  } catch (err) {
+    console.error('Mark notification read error:', err);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+};
+
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = new Types.ObjectId(req.userId);
+
+    await Notification.updateMany(
+      { user: userId, read: false },
+      { read: true, readAt: new Date() }
+    );
+    const unreadCount = await pushUnreadNotifications(userId);
+
+    res.json({
+      message: 'All notifications marked as read',
+      data: { unreadCount }
+    });
+  } catch (err) {
+    console.error('Mark all notifications read error:', err);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+};
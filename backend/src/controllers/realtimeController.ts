@@ -0,0 +1,43 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../types/custom';
+import { addConnection, formatServerSentEvent, removeConnection } from '../services/realtime';
+import { countUnreadExchanges } from '../services/messageService';
+import { countUnreadNotifications } from '../services/notificationService';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Server-Sent Events stream of new messages, exchange changes, notifications and unread counts for the signed-in user
+export const streamEvents = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const [unreadCount, unreadNotifications] = await Promise.all([
+      countUnreadExchanges(new Types.ObjectId(userId)),
+      countUnreadNotifications(new Types.ObjectId(userId))
+    ]);
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    res.write('retry: 5000\n\n');
+    res.write(formatServerSentEvent({ type: 'unread-count', unreadCount }));
+    res.write(formatServerSentEvent({ type: 'notification-count', unreadNotifications }));
+    addConnection(userId, res);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      removeConnection(userId, res);
+    });
+  } catch (err) {
+    console.error('Event stream error:', err);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open event stream' });
+    }
+  }
+};
@@ -0,0 +1,205 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../types/custom';
+import Review from '../models/Review';
+import Transaction from '../models/Transaction';
+import User from '../models/User';
+import { recomputeReputation } from '../services/reputationService';
+import { notifyUser } from '../services/notificationService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long after posting a review its author may still edit it
+const REVIEW_EDIT_WINDOW_DAYS = parseInt(process.env.REVIEW_EDIT_WINDOW_DAYS || '', 10) || 7;
+
+const isValidRating = (rating: unknown): rating is number =>
+  Number.isInteger(rating) && (rating as number) >= 1 && (rating as number) <= 5;
+
+// Leave a review of the other party of a completed exchange
+export const createReview = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { transactionId, rating, comment } = req.body;
+    const reviewerId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(transactionId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    if (!isValidRating(rating)) {
+      res.status(400).json({ error: 'Rating must be a whole number from 1 to 5' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(transactionId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    const isOwner = transaction.owner.toString() === req.userId;
+    const isRequester = transaction.requester.toString() === req.userId;
+
+    if (!isOwner && !isRequester) {
+      res.status(403).json({ error: 'Not authorized to review this exchange' });
+      return;
+    }
+
+    if (transaction.status !== 'completed') {
+      res.status(409).json({ error: 'Only completed exchanges can be reviewed' });
+      return;
+    }
+
+    const existingReview = await Review.exists({ transaction: transaction._id, reviewer: reviewerId });
+    if (existingReview) {
+      res.status(409).json({ error: 'You have already reviewed this exchange' });
+      return;
+    }
+
+    const review = await Review.create({
+      transaction: transaction._id,
+      reviewer: reviewerId,
+      reviewee: isOwner ? transaction.requester : transaction.owner,
+      rating,
+      comment
+    });
+
+    await recomputeReputation(review.reviewee);
+
+    const reviewer = await User.findById(reviewerId, 'name');
+    await notifyUser({
+      user: review.reviewee,
+      type: 'review',
+      title: `${reviewer?.name || 'Someone'} left you a ${rating}-star review`,
+      body: comment || undefined,
+      exchange: transaction._id,
+      book: transaction.book
+    });
+
+    await review.populate([
+      { path: 'reviewer', select: 'name' },
+      { path: 'reviewee', select: 'name' }
+    ]);
+
+    res.status(201).json({
+      message: 'Review submitted successfully',
+      data: review
+    });
+  } catch (err) {
+    console.error('Create review error:', err);
+    res.status(500).json({ error: 'Failed to submit review' });
+  }
+};
+
+export const updateReview = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reviewId } = req.params;
+    const { rating, comment } = req.body;
+
+    if (!Types.ObjectId.isValid(reviewId)) {
+      res.status(400).json({ error: 'Invalid review ID' });
+      return;
+    }
+
+    if (rating !== undefined && !isValidRating(rating)) {
+      res.status(400).json({ error: 'Rating must be a whole number from 1 to 5' });
+      return;
+    }
+
+    const review = await Review.findById(reviewId);
+    if (!review) {
+      res.status(404).json({ error: 'Review not found' });
+      return;
+    }
+
+    if (review.reviewer.toString() !== req.userId) {
+      res.status(403).json({ error: 'Not authorized to edit this review' });
+      return;
+    }
+
+    if (Date.now() - review.createdAt.getTime() > REVIEW_EDIT_WINDOW_DAYS * DAY_MS) {
+      res.status(409).json({ error: `Reviews can only be edited within ${REVIEW_EDIT_WINDOW_DAYS} days` });
+      return;
+    }
+
+    if (rating !== undefined) review.rating = rating;
+    if (comment !== undefined) review.comment = comment;
+    await review.save();
+
+    await recomputeReputation(review.reviewee);
+    await review.populate([
+      { path: 'reviewer', select: 'name' },
+      { path: 'reviewee', select: 'name' }
+    ]);
+
+    res.json({
+      message: 'Review updated successfully',
+      data: review
+    });
+  } catch (err) {
+    console.error('Update review error:', err);
+    res.status(500).json({ error: 'Failed to update review' });
+  }
+};
+
+// Reviews left on an exchange, visible to its two parties
+export const getTransactionReviews = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { transactionId } = req.params;
+
+    if (!Types.ObjectId.isValid(transactionId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(transactionId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to view this exchange' });
+      return;
+    }
+
+    const reviews = await Review.find({ transaction: transaction._id })
+      .populate([
+        { path: 'reviewer', select: 'name' },
+        { path: 'reviewee', select: 'name' }
+      ]);
+
+    res.json({
+      data: {
+        reviews,
+        editWindowDays: REVIEW_EDIT_WINDOW_DAYS
+      }
+    });
+  } catch (err) {
+    console.error('Get exchange reviews error:', err);
+    res.status(500).json({ error: 'Failed to fetch reviews' });
+  }
+};
+
+export const getUserReviews = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    if (!Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+
+    const reviews = await Review.find({ reviewee: new Types.ObjectId(userId) })
+      .populate({ path: 'reviewer', select: 'name' })
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({
+      data: reviews
+    });
+  } catch (err) {
+    console.error('Get user reviews error:', err);
+    res.status(500).json({ error: 'Failed to fetch reviews' });
+  }
+};
@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../types/custom';
+import SwapCycle, { ISwapCycle } from '../models/SwapCycle';
+import Transaction, { ITerms } from '../models/Transaction';
+import Book from '../models/Book';
+import { recordExchangeEvent } from '../services/exchangeEvents';
+import { postMessage } from '../services/messageService';
+
+// Swapped books are lent for this long unless the pair agrees on new terms
+const SWAP_LOAN_DURATION_DAYS = 30;
+
+const SWAP_POPULATE = [
+  { path: 'legs.giver', select: 'name' },
+  { path: 'legs.receiver', select: 'name' },
+  { path: 'legs.book', select: 'title author condition' },
+  { path: 'participants.user', select: 'name' }
+];
+
+// Turn an agreed swap into one accepted exchange per hand-off
+const createSwapExchanges = async (cycle: ISwapCycle, acceptedBy: Types.ObjectId) => {
+  const now = new Date();
+  const terms: ITerms = {
+    deliveryMethod: 'in-person',
+    duration: SWAP_LOAN_DURATION_DAYS,
+    location: cycle.city
+  };
+
+  for (const leg of cycle.legs) {
+    const transaction = await Transaction.create({
+      book: leg.book,
+      requester: leg.receiver,
+      owner: leg.giver,
+      status: 'accepted',
+      terms,
+      termsVersion: 1,
+      termsRevisions: [{
+        version: 1,
+        terms,
+        proposedBy: leg.receiver,
+        acceptedAt: now,
+        createdAt: now
+      }],
+      swapCycle: cycle._id,
+      lastModifiedBy: acceptedBy
+    });
+    await postMessage(transaction._id, {
+      sender: leg.giver,
+      content: `This exchange is part of a ${cycle.legs.length}-way swap that every participant accepted`,
+      createdAt: now,
+      system: true
+    });
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'created',
+      actor: acceptedBy,
+      after: { status: 'accepted', terms, swapCycle: cycle._id }
+    });
+
+    leg.transaction = transaction._id;
+  }
+
+  await Book.updateMany({ _id: { $in: cycle.legs.map(leg => leg.book) } }, { status: 'pending' });
+};
+
+// Swap proposals the user takes part in, newest first
+export const getMySwaps = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const swaps = await SwapCycle.find({ 'participants.user': new Types.ObjectId(req.userId) })
+      .populate(SWAP_POPULATE)
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({
+      data: swaps
+    });
+  } catch (err) {
+    console.error('Get swaps error:', err);
+    res.status(500).json({ error: 'Failed to fetch swap opportunities' });
+  }
+};
+
+// Accept a proposed swap; the exchanges are created once the last participant accepts
+export const acceptSwap = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { cycleId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(cycleId)) {
+      res.status(400).json({ error: 'Invalid swap ID' });
+      return;
+    }
+
+    const cycle = await SwapCycle.findById(cycleId);
+    if (!cycle) {
+      res.status(404).json({ error: 'Swap not found' });
+      return;
+    }
+
+    const participant = cycle.participants.find(p => p.user.equals(userId));
+    if (!participant) {
+      res.status(403).json({ error: 'Not authorized to answer this swap' });
+      return;
+    }
+
+    if (cycle.status !== 'proposed') {
+      res.status(409).json({ error: `This swap has already been ${cycle.status}` });
+      return;
+    }
+
+    if (participant.response !== 'pending') {
+      res.status(409).json({ error: 'You have already answered this swap' });
+      return;
+    }
+
+    participant.response = 'accepted';
+    participant.respondedAt = new Date();
+
+    let message = 'Swap accepted. It will go ahead once everyone has accepted.';
+    if (cycle.participants.every(p => p.response === 'accepted')) {
+      const bookIds = cycle.legs.map(leg => leg.book);
+      const availableCount = await Book.countDocuments({ _id: { $in: bookIds }, status: 'available' });
+
+      if (availableCount !== bookIds.length) {
+        cycle.status = 'cancelled';
+        message = 'A book in this swap is no longer available, so the swap was cancelled';
+      } else {
+        await createSwapExchanges(cycle, userId);
+        cycle.status = 'accepted';
+        message = 'Everyone accepted. The swap exchanges have been created.';
+      }
+    }
+
+    await cycle.save();
+    await cycle.populate(SWAP_POPULATE);
+
+    res.json({
+      message,
+      data: cycle
+    });
+  } catch (err) {
+    console.error('Accept swap error:', err);
+    res.status(500).json({ error: 'Failed to accept swap' });
+  }
+};
+
+// A single refusal calls off the whole swap
+export const declineSwap = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { cycleId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(cycleId)) {
+      res.status(400).json({ error: 'Invalid swap ID' });
+      return;
+    }
+
+    const cycle = await SwapCycle.findById(cycleId);
+    if (!cycle) {
+      res.status(404).json({ error: 'Swap not found' });
+      return;
+    }
+
+    const participant = cycle.participants.find(p => p.user.equals(userId));
+    if (!participant) {
+      res.status(403).json({ error: 'Not authorized to answer this swap' });
+      return;
+    }
+
+    if (cycle.status !== 'proposed') {
+      res.status(409).json({ error: `This swap has already been ${cycle.status}` });
+      return;
+    }
+
+    participant.response = 'declined';
+    participant.respondedAt = new Date();
+    cycle.status = 'declined';
+    await cycle.save();
+    await cycle.populate(SWAP_POPULATE);
+
+    res.json({
+      message: 'Swap declined',
+      data: cycle
+    });
+  } catch (err) {
+    console.error('Decline swap error:', err);
+    res.status(500).json({ error: 'Failed to decline swap' });
+  }
+};
@@ -1,24 +1,168 @@
 import { Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
 import { AuthRequest } from '../types/custom';
-import Transaction, { TransactionStatus, ITransaction } from '../models/Transaction';
+import Transaction, { TransactionStatus, ITransaction, ITerms } from '../models/Transaction';
 import Book from '../models/Book';
+import User from '../models/User';
+import { EMAIL_RECIPIENT_FIELDS, getExchangeLink, sendNotificationEmail } from '../services/emailService';
+import { computeDueDate, getLoanState, isActiveLoan } from '../services/loanService';
+import { formatMeetupSlot, parseMeetupSlots } from '../services/meetupService';
+import { canAdvanceShipment, isShippedExchange } from '../services/shipmentService';
+import { recordExchangeEvent } from '../services/exchangeEvents';
+import { publishToUsers } from '../services/realtime';
+import { notifyUser } from '../services/notificationService';
+import ExchangeEvent from '../models/ExchangeEvent';
+import Message from '../models/Message';
+import {
+  buildMessageCursorFilter,
+  countUnreadExchanges,
+  parseMessagePageSize,
+  postMessage,
+  pushUnreadCount
+} from '../services/messageService';
+import {
+  declineQueuedRequests,
+  getQueueableBookIds,
+  promoteNextRequest,
+  releaseOfferedBooks,
+  requestsForBooks,
+  syncBookStatuses
+} from '../services/requestQueue';
+import { getRequestedBookIds, parseBundleBookIds, selectBundleBooks } from '../services/bundleService';
+import { cancelSwapSiblings } from '../services/swapService';
+import { announceStatusChange } from '../services/statusChangeService';
+import {
+  ACTIVE_STATUSES,
+  ExchangeRole,
+  getAllowedTransitions,
+  getTransitionRoles,
+  isLegalTransition,
+  isTransactionStatus
+} from '../services/exchangeStateMachine';
 import { Types } from 'mongoose';
 
+const MAX_MESSAGE_ATTACHMENTS = 4;
+
+// Everything an exchange view shows about the books, the parties and the history
+const EXCHANGE_POPULATE = [
+  { path: 'book', select: 'title author genre condition status' },
+  { path: 'bundle.book', select: 'title author condition status' },
+  { path: 'offeredBooks', select: 'title author condition status' },
+  { path: 'acceptedOfferBook', select: 'title author condition status' },
+  { path: 'requester', select: 'name email' },
+  { path: 'owner', select: 'name email' },
+  { path: 'termsRevisions.proposedBy', select: 'name' },
+  { path: 'shipment.events.recordedBy', select: 'name' }
+];
+
+// An exchange as one of its parties sees it, with the status moves the state machine leaves open to them
+const withAllowedStatuses = (transaction: ITransaction, userId: string) => {
+  const role: ExchangeRole = transaction.owner._id.toString() === userId ? 'owner' : 'requester';
+  return { ...transaction.toJSON(), allowedStatuses: getAllowedTransitions(transaction.status, role) };
+};
+
+// Multer for message photos, kept per exchange outside the publicly served uploads folder
+const attachmentStorage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    const { exchangeId } = req.params;
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      return cb(new Error('Invalid exchange ID'), '');
+    }
+
+    const uploadDir = path.join('private-uploads/message-attachments', exchangeId);
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: function (req, file, cb) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, uniqueSuffix + path.extname(file.originalname));
+  }
+});
+
+const uploadAttachments = multer({
+  storage: attachmentStorage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      const error = new Error('Invalid file type');
+      return cb(error as any, false);
+    }
+    cb(null, true);
+  }
+}).array('attachments', MAX_MESSAGE_ATTACHMENTS);
+
+const removeUploads = (files: Express.Multer.File[]) => {
+  for (const file of files) {
+    if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
+
+const DELIVERY_METHODS: ITerms['deliveryMethod'][] = ['in-person', 'courier', 'mail'];
+const DISPUTE_FROZEN_ERROR = 'This exchange is frozen while a dispute is open';
+
+// Returns the validated terms, or an error message describing what is wrong
+const parseTerms = (terms: any): { terms?: ITerms; error?: string } => {
+  if (!terms || typeof terms !== 'object') {
+    return { error: 'Terms are required' };
+  }
+
+  if (!DELIVERY_METHODS.includes(terms.deliveryMethod)) {
+    return { error: 'Invalid delivery method' };
+  }
+
+  const duration = Number(terms.duration);
+  if (!Number.isInteger(duration) || duration < 1 || duration > 90) {
+    return { error: 'Duration must be between 1 and 90 days' };
+  }
+
+  return {
+    terms: {
+      deliveryMethod: terms.deliveryMethod,
+      duration,
+      location: terms.location || undefined,
+      additionalNotes: terms.additionalNotes || undefined
+    }
+  };
+};
+
 // Create an exchange request
 export const createExchangeRequest = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { bookId, terms, message } = req.body;
-    console.log('Creating exchange request:', { bookId, terms, message });
+    const { bookId, bookIds, terms, message, offeredBookIds = [] } = req.body;
+    console.log('Creating exchange request:', { bookId, bookIds, terms, message, offeredBookIds });
 
     const requesterId = new Types.ObjectId(req.userId);
 
-    const book = await Book.findById(bookId);
+    // Several books from one owner can be requested together as a bundle
+    let bundleBookIds: Types.ObjectId[] = [];
+    if (bookIds !== undefined) {
+      const parsed = parseBundleBookIds(bookIds);
+      if (!parsed.bookIds) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      bundleBookIds = parsed.bookIds;
+    }
+
+    const book = await Book.findById(bundleBookIds[0] || bookId);
     if (!book) {
       res.status(404).json({ error: 'Book not found' });
       return;
     }
 
-    if (book.status !== 'available') {
+    // A book whose request has not been accepted yet can still be queued for
+    const hasActiveRequest = book.status === 'pending' && (await getQueueableBookIds([book._id])).has(book.id);
+
+    if (book.status !== 'available' && !hasActiveRequest) {
       res.status(400).json({ error: 'Book is not available for exchange' });
       return;
     }
@@ -28,57 +172,981 @@ export const createExchangeRequest = async (req: AuthRequest, res: Response): Pr
       return;
     }
 
+    // Bundles cannot be queued, so every book in one must be free and come from the same owner
+    if (bundleBookIds.length > 0) {
+      const bundleBooks = await Book.find({ _id: { $in: bundleBookIds } }, 'owner status');
+      if (bundleBooks.length !== bundleBookIds.length) {
+        res.status(404).json({ error: 'Book not found' });
+        return;
+      }
+
+      if (bundleBooks.some(bundleBook => bundleBook.owner.toString() !== book.owner.toString())) {
+        res.status(400).json({ error: 'All books in a bundle must belong to the same owner' });
+        return;
+      }
+
+      if (bundleBooks.some(bundleBook => bundleBook.status !== 'available')) {
+        res.status(400).json({ error: 'Every book in a bundle must be available for exchange' });
+        return;
+      }
+    }
+
+    const existingRequest = await Transaction.exists({
+      ...requestsForBooks(bundleBookIds.length > 0 ? bundleBookIds : [book._id]),
+      requester: requesterId,
+      status: { $in: ['queued', ...ACTIVE_STATUSES] }
+    });
+
+    if (existingRequest) {
+      res.status(400).json({
+        error: bundleBookIds.length > 0
+          ? 'You already have an open request for one of these books'
+          : 'You already have an open request for this book'
+      });
+      return;
+    }
+
+    const isQueued = hasActiveRequest;
+
+    // Books the requester offers in return must be their own and available
+    if (!Array.isArray(offeredBookIds) || offeredBookIds.some(id => !Types.ObjectId.isValid(id))) {
+      res.status(400).json({ error: 'Invalid offered books' });
+      return;
+    }
+
+    const offeredBooks = await Book.find({
+      _id: { $in: offeredBookIds },
+      owner: requesterId,
+      status: 'available'
+    });
+
+    if (offeredBooks.length !== new Set(offeredBookIds.map(String)).size) {
+      res.status(400).json({ error: 'Offered books must be your own available books' });
+      return;
+    }
+
     const transaction = new Transaction({
-      book: new Types.ObjectId(bookId),
+      book: book._id,
+      bundle: bundleBookIds.map(id => ({ book: id, status: 'requested' })),
+      offeredBooks: offeredBooks.map(offered => offered._id),
       requester: requesterId,
       owner: book.owner,
+      status: isQueued ? 'queued' : 'pending',
       terms,
-      lastModifiedBy: requesterId,
-      messages: message ? [{
-        sender: requesterId,
-        content: message,
-        createdAt: new Date(),
-        read: false
-      }] : []
+      termsVersion: 1,
+      termsRevisions: [{
+        version: 1,
+        terms,
+        proposedBy: requesterId,
+        acceptedAt: new Date(),
+        createdAt: new Date()
+      }],
+      lastModifiedBy: requesterId
     });
 
     await transaction.save();
+    if (message) {
+      await postMessage(transaction._id, { sender: requesterId, content: message });
+    }
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'created',
+      actor: requesterId,
+      after: {
+        status: transaction.status,
+        terms,
+        bundle: bundleBookIds.length > 0 ? bundleBookIds : undefined,
+        offeredBooks: transaction.offeredBooks
+      }
+    });
+
+    const [requester, owner] = await Promise.all([
+      User.findById(requesterId, 'name'),
+      User.findById(transaction.owner, EMAIL_RECIPIENT_FIELDS)
+    ]);
+    await notifyUser({
+      user: transaction.owner,
+      type: 'exchange-request',
+      title: `${requester?.name || 'Someone'} ${isQueued ? 'joined the queue for' : 'requested'} "${book.title}"`,
+      body: bundleBookIds.length > 1 ? `Along with ${bundleBookIds.length - 1} more of your books` : message || undefined,
+      exchange: transaction._id,
+      book: book._id
+    });
+
+    if (requester && owner) {
+      try {
+        await sendNotificationEmail(owner, 'newRequest', 'exchangeRequest', {
+          bookTitle: book.title,
+          requesterName: requester.name,
+          exchangeLink: getExchangeLink(transaction._id)
+        });
+      } catch (emailErr) {
+        console.error('Exchange request email failed:', emailErr);
+      }
+    }
 
-    // Update book status
+    // Update book status and reserve the offered books while the offer is open
     book.status = 'pending';
     await book.save();
+    await Book.updateMany({ _id: { $in: [...bundleBookIds, ...transaction.offeredBooks] } }, { status: 'pending' });
 
     // Populate transaction details
-    const populatedTransaction = await transaction
-      .populate([
-        { path: 'book', select: 'title author' },
-        { path: 'requester', select: 'name email' },
-        { path: 'owner', select: 'name email' },
-        { path: 'messages.sender', select: 'name' }
-      ]);
+    const populatedTransaction = await transaction.populate(EXCHANGE_POPULATE);
+
+    // Send success response with populated data
+    res.status(201).json({
+      message: isQueued ? 'Request added to the waitlist for this book' : undefined,
+      data: withAllowedStatuses(populatedTransaction, req.userId)
+    });
+
+    console.log('Exchange request created successfully:', populatedTransaction);
+  } catch (err) {
+    console.error('Create exchange request error:', err);
+    res.status(500).json({ error: 'Failed to create exchange request' });
+  }
+};
+
+// Update exchange request status
+export const updateExchangeStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const { status, message } = req.body;
+    const userId = new Types.ObjectId(req.userId);
+
+    console.log('Updating exchange status:', { exchangeId, status, message });
+
+    // Validate exchangeId
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    // Verify user authorization
+    const isOwner = transaction.owner.toString() === userId.toString();
+    const isRequester = transaction.requester.toString() === userId.toString();
+
+    if (!isOwner && !isRequester) {
+      res.status(403).json({ error: 'Not authorized to update this exchange' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (!isTransactionStatus(status)) {
+      res.status(400).json({ error: 'Invalid exchange status' });
+      return;
+    }
+
+    // Validate the move against the exchange state machine
+    const role: ExchangeRole = isOwner ? 'owner' : 'requester';
+    const allowedStatuses = getAllowedTransitions(transaction.status, role);
+
+    if (!allowedStatuses.includes(status)) {
+      const permittedRoles = getTransitionRoles(transaction.status, status);
+      if (permittedRoles.length > 0) {
+        res.status(403).json({
+          error: `Only the ${permittedRoles.join(' or ')} can move this exchange to ${status}`
+        });
+        return;
+      }
+
+      res.status(409).json({
+        error: `Cannot change exchange status from ${transaction.status} to ${status}`,
+        currentStatus: transaction.status,
+        allowedStatuses
+      });
+      return;
+    }
+
+    const previousStatus = transaction.status;
+
+    // Check everything the move needs before changing any books
+
+    // A move to modified is a counter-offer and must carry the revised terms
+    const parsedTerms = status === 'modified' ? parseTerms(req.body.terms) : undefined;
+    if (parsedTerms && !parsedTerms.terms) {
+      res.status(400).json({ error: parsedTerms.error });
+      return;
+    }
+
+    // The owner picks one of the offered books; the others are released
+    const chosenOffer = status === 'accepted' && transaction.offeredBooks.length > 0
+      ? transaction.offeredBooks.find(id => id.toString() === req.body.offeredBookId)
+      : undefined;
+    if (status === 'accepted' && transaction.offeredBooks.length > 0 && !chosenOffer) {
+      res.status(400).json({ error: 'Choose one of the offered books to accept' });
+      return;
+    }
+
+    // The owner may accept only part of a bundle; the declined books go back on the shelf
+    const bundleSelection = status === 'accepted' && transaction.bundle.length > 0
+      ? selectBundleBooks(transaction.bundle, req.body.acceptedBookIds)
+      : undefined;
+    if (bundleSelection && (!bundleSelection.accepted || !bundleSelection.declined)) {
+      res.status(400).json({ error: bundleSelection.error });
+      return;
+    }
+
+    let statusMessage = '';
+    if (parsedTerms?.terms) {
+      const latestRevision = transaction.termsRevisions[transaction.termsRevisions.length - 1];
+      const version = (latestRevision?.version || transaction.termsVersion || 1) + 1;
+
+      transaction.termsRevisions.push({
+        version,
+        terms: parsedTerms.terms,
+        proposedBy: userId,
+        previousStatus: transaction.status === 'modified'
+          ? latestRevision?.previousStatus
+          : transaction.status,
+        createdAt: new Date()
+      });
+
+      statusMessage = `Proposed revised terms (version ${version})`;
+    }
+
+    if (chosenOffer) {
+      transaction.acceptedOfferBook = chosenOffer;
+    }
+
+    let declinedBundleBooks: Types.ObjectId[] = [];
+    if (bundleSelection?.accepted && bundleSelection.declined) {
+      const accepted = bundleSelection.accepted;
+      for (const item of transaction.bundle) {
+        item.status = accepted.some(id => id.equals(item.book)) ? 'accepted' : 'declined';
+      }
+      // The primary book must stay one the exchange still covers
+      transaction.book = accepted[0];
+      declinedBundleBooks = bundleSelection.declined;
+
+      if (declinedBundleBooks.length > 0) {
+        statusMessage = `Request accepted for ${accepted.length} of ${transaction.bundle.length} books`;
+      }
+    }
+
+    // Update transaction status
+    const wasQueued = transaction.status === 'queued';
+    transaction.status = status;
+    transaction.lastModifiedBy = userId;
+
+    // Add status change message
+    const statusMessages = {
+      accepted: 'Request accepted',
+      rejected: 'Request rejected',
+      cancelled: 'Request withdrawn'
+    };
+
+    statusMessage = statusMessage || statusMessages[status as keyof typeof statusMessages] || '';
+    
+    if (statusMessage || message) {
+      await postMessage(transaction._id, {
+        sender: userId,
+        content: message || statusMessage,
+        createdAt: new Date(),
+        read: false,
+        notified: false
+      });
+    }
+
+    await transaction.save();
+
+    // Keep the book statuses in sync with the exchange; a queued request never held the book
+    if (!wasQueued) {
+      await syncBookStatuses(transaction, status);
+    }
+    if (chosenOffer) {
+      await releaseOfferedBooks(transaction.offeredBooks.filter(id => !id.equals(chosenOffer)));
+    }
+    if (status === 'rejected' || status === 'cancelled') {
+      await releaseOfferedBooks(transaction.offeredBooks);
+    }
+    if (declinedBundleBooks.length > 0) {
+      await Book.updateMany({ _id: { $in: declinedBundleBooks } }, { status: 'available' });
+    }
+
+    await announceStatusChange({
+      transaction,
+      before: previousStatus,
+      actor: userId,
+      note: message || undefined,
+      details: {
+        acceptedBooks: declinedBundleBooks.length > 0 ? getRequestedBookIds(transaction) : undefined
+      }
+    });
+
+    if (status === 'modified') {
+      const [previousRevision, proposedRevision] = transaction.termsRevisions.slice(-2);
+      await recordExchangeEvent({
+        transaction: transaction._id,
+        type: 'terms-changed',
+        actor: userId,
+        before: { version: previousRevision.version, terms: previousRevision.terms },
+        after: { version: proposedRevision.version, terms: proposedRevision.terms },
+        note: 'Proposed revised terms'
+      });
+    }
+
+    // Resolve the competing requests for the books
+    for (const bookId of getRequestedBookIds(transaction)) {
+      if (status === 'accepted') {
+        await declineQueuedRequests(bookId, userId);
+      } else if (!wasQueued && (status === 'rejected' || status === 'cancelled')) {
+        await promoteNextRequest(bookId);
+      }
+    }
+    for (const bookId of declinedBundleBooks) {
+      await promoteNextRequest(bookId);
+    }
+    // The rest of a swap cannot go ahead without this leg
+    if (status === 'rejected' || status === 'cancelled') {
+      await cancelSwapSiblings(transaction, userId);
+    }
+
+    // Populate and return updated transaction
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    if (!populatedTransaction) {
+      res.status(404).json({ error: 'Exchange request not found after update' });
+      return;
+    }
+
+    console.log('Exchange status updated successfully:', {
+      id: populatedTransaction._id,
+      status: populatedTransaction.status
+    });
+
+    res.json({
+      message: 'Exchange status updated successfully',
+      data: withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Update exchange status error:', err);
+    res.status(500).json({ error: 'Failed to update exchange status' });
+  }
+};
+
+// Accept the latest proposed terms revision
+export const acceptTermsRevision = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId, version } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to update this exchange' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    const latestRevision = transaction.termsRevisions[transaction.termsRevisions.length - 1];
+    if (transaction.status !== 'modified' || !latestRevision || latestRevision.acceptedAt) {
+      res.status(409).json({ error: 'There are no revised terms awaiting acceptance' });
+      return;
+    }
+
+    if (latestRevision.version !== Number(version)) {
+      res.status(409).json({
+        error: 'Only the latest terms revision can be accepted',
+        latestVersion: latestRevision.version
+      });
+      return;
+    }
+
+    if (latestRevision.proposedBy.toString() === req.userId) {
+      res.status(403).json({ error: 'The other party must accept your proposed terms' });
+      return;
+    }
+
+    const before = {
+      status: transaction.status,
+      termsVersion: transaction.termsVersion,
+      terms: transaction.toObject().terms
+    };
+
+    latestRevision.acceptedAt = new Date();
+    transaction.terms = latestRevision.terms;
+    transaction.termsVersion = latestRevision.version;
+    transaction.status = latestRevision.previousStatus || 'pending';
+    transaction.lastModifiedBy = userId;
+
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: `Accepted revised terms (version ${latestRevision.version})`,
+      createdAt: new Date(),
+      read: false,
+      notified: false
+    });
+
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'terms-changed',
+      actor: userId,
+      before,
+      after: {
+        status: transaction.status,
+        termsVersion: transaction.termsVersion,
+        terms: transaction.toObject().terms
+      },
+      note: 'Accepted revised terms'
+    });
+    await announceStatusChange({
+      transaction,
+      before: before.status,
+      actor: userId,
+      note: 'Accepted revised terms'
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: 'Revised terms accepted successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Accept terms revision error:', err);
+    res.status(500).json({ error: 'Failed to accept revised terms' });
+  }
+};
+
+// Propose meeting slots for an in-person handover; replaces any earlier proposal and reschedules a confirmed meetup
+export const proposeMeetup = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to update this exchange' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (transaction.status !== 'accepted' || transaction.terms.deliveryMethod !== 'in-person') {
+      res.status(409).json({ error: 'Meetups can only be scheduled for accepted in-person exchanges' });
+      return;
+    }
+
+    const parsed = parseMeetupSlots(req.body.slots);
+    if (!parsed.slots) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const meetup = transaction.meetup;
+    const isReschedule = !!meetup?.confirmed;
+    const now = new Date();
+
+    transaction.meetup = {
+      slots: parsed.slots,
+      proposedBy: userId,
+      proposedAt: now,
+      rescheduleCount: (meetup?.rescheduleCount || 0) + (isReschedule ? 1 : 0)
+    };
+    transaction.lastModifiedBy = userId;
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: `${isReschedule ? 'Asked to reschedule the meetup. New options' : 'Proposed meeting times'}: ` +
+        parsed.slots.map(formatMeetupSlot).join('; '),
+      createdAt: now,
+      read: false,
+      notified: false
+    });
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'meetup',
+      actor: userId,
+      before: meetup?.confirmed ? { confirmed: meetup.confirmed } : undefined,
+      after: { slots: parsed.slots },
+      note: isReschedule ? 'Reschedule proposed' : 'Meeting times proposed'
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: isReschedule ? 'Reschedule proposed successfully' : 'Meeting times proposed successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Propose meetup error:', err);
+    res.status(500).json({ error: 'Failed to propose meeting times' });
+  }
+};
+
+// The party who did not propose the slots picks one of them
+export const confirmMeetup = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const { slotId } = req.body;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to update this exchange' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    const meetup = transaction.meetup;
+    if (transaction.status !== 'accepted' || !meetup?.slots.length || meetup.confirmed) {
+      res.status(409).json({ error: 'There are no meeting times awaiting confirmation' });
+      return;
+    }
+
+    if (meetup.proposedBy?.toString() === req.userId) {
+      res.status(403).json({ error: 'The other party has to pick one of your proposed times' });
+      return;
+    }
+
+    const slot = meetup.slots.find(s => s._id?.toString() === slotId);
+    if (!slot) {
+      res.status(400).json({ error: 'Invalid meeting time' });
+      return;
+    }
+
+    if (slot.startsAt.getTime() <= Date.now()) {
+      res.status(409).json({ error: 'This meeting time has already passed' });
+      return;
+    }
+
+    meetup.confirmed = { startsAt: slot.startsAt, place: slot.place };
+    meetup.confirmedAt = new Date();
+    meetup.reminderSentAt = undefined;
+    transaction.lastModifiedBy = userId;
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: `Meetup confirmed: ${formatMeetupSlot(slot)}`,
+      createdAt: new Date(),
+      read: false,
+      notified: false
+    });
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'meetup',
+      actor: userId,
+      after: { confirmed: meetup.confirmed },
+      note: 'Meetup confirmed'
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: 'Meetup confirmed successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Confirm meetup error:', err);
+    res.status(500).json({ error: 'Failed to confirm meetup' });
+  }
+};
+
+// Owner records that the book has been handed to a courier or posted
+export const dispatchShipment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (transaction.owner.toString() !== req.userId) {
+      res.status(403).json({ error: 'Only the owner can update the shipment' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (transaction.status !== 'accepted' || !isShippedExchange(transaction)) {
+      res.status(409).json({ error: 'Shipments can only be tracked for accepted courier or mail exchanges' });
+      return;
+    }
+
+    if (transaction.shipment?.status) {
+      res.status(409).json({ error: 'This book has already been dispatched' });
+      return;
+    }
+
+    const carrier = typeof req.body.carrier === 'string' ? req.body.carrier.trim() : '';
+    const trackingNumber = typeof req.body.trackingNumber === 'string' ? req.body.trackingNumber.trim() : '';
+    if (!carrier || !trackingNumber) {
+      res.status(400).json({ error: 'Carrier and tracking number are required' });
+      return;
+    }
+
+    const now = new Date();
+    const dispatchedAt = req.body.dispatchedAt ? new Date(req.body.dispatchedAt) : now;
+    if (Number.isNaN(dispatchedAt.getTime()) || dispatchedAt.getTime() > now.getTime()) {
+      res.status(400).json({ error: 'Dispatch date cannot be in the future' });
+      return;
+    }
+
+    transaction.shipment = {
+      carrier,
+      trackingNumber,
+      dispatchedAt,
+      status: 'dispatched',
+      events: [{ status: 'dispatched', recordedBy: userId, createdAt: now }]
+    };
+    transaction.lastModifiedBy = userId;
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: `Book dispatched via ${carrier}, tracking number ${trackingNumber}`,
+      createdAt: now,
+      read: false,
+      notified: false
+    });
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'shipment',
+      actor: userId,
+      after: { status: 'dispatched', carrier, trackingNumber, dispatchedAt }
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: 'Shipment dispatched successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Dispatch shipment error:', err);
+    res.status(500).json({ error: 'Failed to record shipment' });
+  }
+};
+
+// Owner records carrier progress; delivery itself is confirmed by the requester
+export const updateShipmentStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (transaction.owner.toString() !== req.userId) {
+      res.status(403).json({ error: 'Only the owner can update the shipment' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (transaction.status !== 'accepted' || !isShippedExchange(transaction)) {
+      res.status(409).json({ error: 'Shipments can only be tracked for accepted courier or mail exchanges' });
+      return;
+    }
+
+    const { status, note } = req.body;
+    if (status !== 'in-transit') {
+      res.status(400).json({ error: 'Invalid shipment status' });
+      return;
+    }
+
+    if (!transaction.shipment?.status || !canAdvanceShipment(transaction.shipment.status, status)) {
+      res.status(409).json({ error: `Cannot move shipment to ${status}` });
+      return;
+    }
+
+    const previousShipmentStatus = transaction.shipment.status;
+    transaction.shipment.status = status;
+    transaction.shipment.events.push({
+      status,
+      note: note?.trim() || undefined,
+      recordedBy: userId,
+      createdAt: new Date()
+    });
+    transaction.lastModifiedBy = userId;
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'shipment',
+      actor: userId,
+      before: { status: previousShipmentStatus },
+      after: { status },
+      note: note?.trim() || undefined
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: 'Shipment updated successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Update shipment status error:', err);
+    res.status(500).json({ error: 'Failed to update shipment' });
+  }
+};
+
+export const confirmDelivery = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (transaction.requester.toString() !== req.userId) {
+      res.status(403).json({ error: 'Only the requester can confirm delivery' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (transaction.status !== 'accepted' || !isShippedExchange(transaction)) {
+      res.status(409).json({ error: 'Shipments can only be tracked for accepted courier or mail exchanges' });
+      return;
+    }
+
+    if (!transaction.shipment?.status || !canAdvanceShipment(transaction.shipment.status, 'delivered')) {
+      res.status(409).json({ error: 'There is no shipment awaiting delivery' });
+      return;
+    }
+
+    const now = new Date();
+    const previousShipmentStatus = transaction.shipment.status;
+    transaction.shipment.status = 'delivered';
+    transaction.shipment.deliveredAt = now;
+    transaction.shipment.events.push({ status: 'delivered', recordedBy: userId, createdAt: now });
+    transaction.lastModifiedBy = userId;
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: 'Delivery confirmed',
+      createdAt: now,
+      read: false,
+      notified: false
+    });
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'shipment',
+      actor: userId,
+      before: { status: previousShipmentStatus },
+      after: { status: 'delivered', deliveredAt: now }
+    });
+
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
+
+    res.json({
+      message: 'Delivery confirmed successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
+  } catch (err) {
+    console.error('Confirm delivery error:', err);
+    res.status(500).json({ error: 'Failed to confirm delivery' });
+  }
+};
+
+// Confirm the book has changed hands; completes the exchange once both parties confirm
+export const confirmHandover = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const userId = new Types.ObjectId(req.userId);
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId);
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    const isOwner = transaction.owner.toString() === req.userId;
+    const isRequester = transaction.requester.toString() === req.userId;
+
+    if (!isOwner && !isRequester) {
+      res.status(403).json({ error: 'Not authorized to update this exchange' });
+      return;
+    }
+
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
+      return;
+    }
+
+    if (!isLegalTransition(transaction.status, 'completed')) {
+      res.status(409).json({ error: 'Only accepted exchanges can be handed over' });
+      return;
+    }
+
+    const handover = transaction.handover || {};
+    const confirmedField = isOwner ? 'ownerConfirmedAt' : 'requesterConfirmedAt';
+
+    if (handover[confirmedField]) {
+      res.status(409).json({ error: 'You have already confirmed this handover' });
+      return;
+    }
+
+    handover[confirmedField] = new Date();
+    transaction.handover = handover;
+    transaction.lastModifiedBy = userId;
+
+    const completed = !!(handover.ownerConfirmedAt && handover.requesterConfirmedAt);
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: completed ? 'Handover confirmed, exchange completed' : 'Handover confirmed',
+      createdAt: new Date(),
+      read: false,
+      notified: false
+    });
+
+    if (completed) {
+      transaction.status = 'completed';
+      // The loan runs for the agreed duration from the handover, not from acceptance
+      transaction.loan = {
+        ...transaction.loan,
+        dueDate: computeDueDate(handover[confirmedField]!, transaction.terms.duration)
+      };
+      await syncBookStatuses(transaction, 'completed');
+    }
+
+    await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'handover',
+      actor: userId,
+      after: { [confirmedField]: handover[confirmedField] }
+    });
+    if (completed) {
+      await announceStatusChange({
+        transaction,
+        before: 'accepted',
+        actor: userId,
+        note: 'Both parties confirmed the handover',
+        // Neither party made the exchange complete on their own, so both are told
+        recipients: [transaction.owner, transaction.requester]
+      });
+    } else {
+      // The exchange only completes once the other party confirms too
+      const [book, actor] = await Promise.all([
+        Book.findById(transaction.book, 'title'),
+        User.findById(userId, 'name')
+      ]);
+      await notifyUser({
+        user: isOwner ? transaction.requester : transaction.owner,
+        type: 'exchange-status',
+        title: `${actor?.name || 'The other party'} confirmed the handover of "${book?.title || 'a book'}"`,
+        body: 'It is awaiting your confirmation to complete the exchange',
+        exchange: transaction._id,
+        book: transaction.book
+      });
+    }
 
-    // Send success response with populated data
-    res.status(201).json({
-      data: populatedTransaction
-    });
+    const populatedTransaction = await Transaction.findById(exchangeId)
+      .populate(EXCHANGE_POPULATE);
 
-    console.log('Exchange request created successfully:', populatedTransaction);
+    res.json({
+      message: completed ? 'Exchange completed successfully' : 'Handover confirmed successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
+    });
   } catch (err) {
-    console.error('Create exchange request error:', err);
-    res.status(500).json({ error: 'Failed to create exchange request' });
+    console.error('Confirm handover error:', err);
+    res.status(500).json({ error: 'Failed to confirm handover' });
   }
 };
 
-// Update exchange request status
-export const updateExchangeStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+// Owner confirms a lent book has come back
+export const confirmReturn = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { exchangeId } = req.params;
-    const { status, message } = req.body;
     const userId = new Types.ObjectId(req.userId);
 
-    console.log('Updating exchange status:', { exchangeId, status, message });
-
-    // Validate exchangeId
     if (!Types.ObjectId.isValid(exchangeId)) {
       res.status(400).json({ error: 'Invalid exchange ID' });
       return;
@@ -90,86 +1158,96 @@ export const updateExchangeStatus = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
-    // Verify user authorization
-    const isOwner = transaction.owner.toString() === userId.toString();
-    const isRequester = transaction.requester.toString() === userId.toString();
-
-    if (!isOwner && !isRequester) {
-      res.status(403).json({ error: 'Not authorized to update this exchange' });
+    if (transaction.owner.toString() !== req.userId) {
+      res.status(403).json({ error: 'Only the owner can confirm a return' });
       return;
     }
 
-    // Validate status update permissions
-    if ((status === 'accepted' || status === 'rejected') && !isOwner) {
-      res.status(403).json({ error: 'Only the owner can accept or reject requests' });
+    if (transaction.dispute) {
+      res.status(409).json({ error: DISPUTE_FROZEN_ERROR });
       return;
     }
 
-    if (status === 'cancelled' && !isRequester) {
-      res.status(403).json({ error: 'Only the requester can cancel requests' });
+    if (!isActiveLoan(transaction)) {
+      res.status(409).json({ error: 'This exchange has no book out on loan' });
       return;
     }
 
-    // Update transaction status
-    transaction.status = status as TransactionStatus;
+    transaction.loan.returnedAt = new Date();
     transaction.lastModifiedBy = userId;
+    await postMessage(transaction._id, {
+      sender: userId,
+      content: 'Book returned',
+      createdAt: new Date(),
+      read: false,
+      notified: false
+    });
 
-    // Add status change message
-    const statusMessages = {
-      accepted: 'Request accepted',
-      rejected: 'Request rejected',
-      cancelled: 'Request withdrawn'
-    };
-
-    const statusMessage = statusMessages[status as keyof typeof statusMessages] || '';
-    
-    if (statusMessage || message) {
-      transaction.messages.push({
-        sender: userId,
-        content: message || statusMessage,
-        createdAt: new Date(),
-        read: false,
-        notified: false
-      });
-    }
-
-    // Update book status
-    const book = await Book.findById(transaction.book);
-    if (book) {
-      book.status = status === 'accepted' ? 'pending' :
-                    status === 'rejected' || status === 'cancelled' ? 'available' :
-                    book.status;
-      await book.save();
-    }
+    // The books are back with their owners and can be requested again
+    const bookIds = [...getRequestedBookIds(transaction), transaction.acceptedOfferBook].filter(Boolean);
+    await Book.updateMany({ _id: { $in: bookIds } }, { status: 'available' });
 
     await transaction.save();
+    await recordExchangeEvent({
+      transaction: transaction._id,
+      type: 'returned',
+      actor: userId,
+      after: { returnedAt: transaction.loan.returnedAt }
+    });
 
-    // Populate and return updated transaction
     const populatedTransaction = await Transaction.findById(exchangeId)
-      .populate([
-        { path: 'book', select: 'title author genre condition status' },
-        { path: 'requester', select: 'name email' },
-        { path: 'owner', select: 'name email' },
-        { path: 'messages.sender', select: 'name' }
-      ]);
-
-    if (!populatedTransaction) {
-      res.status(404).json({ error: 'Exchange request not found after update' });
-      return;
-    }
+      .populate(EXCHANGE_POPULATE);
 
-    console.log('Exchange status updated successfully:', {
-      id: populatedTransaction._id,
-      status: populatedTransaction.status
+    res.json({
+      message: 'Return confirmed successfully',
+      data: populatedTransaction && withAllowedStatuses(populatedTransaction, req.userId)
     });
+  } catch (err) {
+    console.error('Confirm return error:', err);
+    res.status(500).json({ error: 'Failed to confirm return' });
+  }
+};
+
+// Get the user's running loans that are due soon or overdue, as borrower or lender
+export const getDueLoans = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = new Types.ObjectId(req.userId);
+
+    const loans = await Transaction.find({
+      $or: [
+        { requester: userId },
+        { owner: userId }
+      ],
+      status: 'completed',
+      'loan.dueDate': { $exists: true },
+      'loan.returnedAt': { $exists: false }
+    })
+    .populate([
+      { path: 'book', select: 'title author' },
+      { path: 'requester', select: 'name' },
+      { path: 'owner', select: 'name' }
+    ])
+    .sort({ 'loan.dueDate': 1 });
+
+    const now = new Date();
+    const dueLoans = loans
+      .map(loan => ({
+        id: loan._id,
+        book: loan.book,
+        owner: loan.owner,
+        requester: loan.requester,
+        dueDate: loan.loan.dueDate,
+        role: loan.owner._id.toString() === req.userId ? 'lender' : 'borrower',
+        state: getLoanState(loan, now)
+      }))
+      .filter(loan => loan.state === 'due-soon' || loan.state === 'overdue');
 
     res.json({
-      message: 'Exchange status updated successfully',
-      data: populatedTransaction
+      data: dueLoans
     });
   } catch (err) {
-    console.error('Update exchange status error:', err);
-    res.status(500).json({ error: 'Failed to update exchange status' });
+    console.error('Get due loans error:', err);
+    res.status(500).json({ error: 'Failed to fetch due loans' });
   }
 };
 
@@ -189,6 +1267,9 @@ export const getUserExchanges = async (req: AuthRequest, res: Response): Promise
     })
     .populate([
       { path: 'book', select: 'title author genre condition status' },
+      { path: 'bundle.book', select: 'title author condition status' },
+      { path: 'offeredBooks', select: 'title author condition status' },
+      { path: 'acceptedOfferBook', select: 'title author condition status' },
       { path: 'requester', select: 'name email' },
       { path: 'owner', select: 'name email' },
       { path: 'lastModifiedBy', select: 'name' }
@@ -196,7 +1277,7 @@ export const getUserExchanges = async (req: AuthRequest, res: Response): Promise
     .sort({ updatedAt: -1 });
 
     res.json({
-      data: exchanges
+      data: exchanges.map(exchange => withAllowedStatuses(exchange, req.userId))
     });
   } catch (err) {
     console.error('Get user exchanges error:', err);
@@ -207,17 +1288,11 @@ export const getUserExchanges = async (req: AuthRequest, res: Response): Promise
 // Get exchange details
 export const getExchangeDetails = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { transactionId } = req.params;
+    const { exchangeId } = req.params;
     const userId = new Types.ObjectId(req.userId);
 
-    const transaction = await Transaction.findById(transactionId)
-      .populate([
-        { path: 'book', select: 'title author genre condition status' },
-        { path: 'requester', select: 'name email' },
-        { path: 'owner', select: 'name email' },
-        { path: 'messages.sender', select: 'name' },
-        { path: 'lastModifiedBy', select: 'name' }
-      ]);
+    const transaction = await Transaction.findById(exchangeId)
+      .populate([...EXCHANGE_POPULATE, { path: 'lastModifiedBy', select: 'name' }]);
 
     if (!transaction) {
       res.status(404).json({ error: 'Exchange request not found' });
@@ -229,17 +1304,8 @@ export const getExchangeDetails = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    const otherUser = transaction.owner.toString() === req.userId ? 
-      transaction.requester.toString() : transaction.owner.toString();
-    
-    await Transaction.updateOne(
-      { _id: transactionId, 'messages.sender': otherUser },
-      { $set: { 'messages.$[elem].read': true } },
-      { arrayFilters: [{ 'elem.sender': otherUser }] }
-    );
-
     res.json({
-      data: transaction
+      data: withAllowedStatuses(transaction, req.userId)
     });
   } catch (err) {
     console.error('Get exchange details error:', err);
@@ -247,23 +1313,48 @@ export const getExchangeDetails = async (req: AuthRequest, res: Response): Promi
   }
 };
 
-// Get unread notifications count
-export const getUnreadCount = async (req: AuthRequest, res: Response): Promise<void> => {
+// Audit trail of an exchange, oldest first; visible to its two parties and admins
+export const getExchangeHistory = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const userId = new Types.ObjectId(req.userId);
+    const { exchangeId } = req.params;
 
-    const unreadCount = await Transaction.countDocuments({
-      $or: [
-        { requester: userId },
-        { owner: userId }
-      ],
-      'messages': {
-        $elemMatch: {
-          sender: { $ne: userId },
-          read: false
-        }
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    const isParty = [transaction.owner.toString(), transaction.requester.toString()].includes(req.userId);
+    if (!isParty) {
+      const user = await User.findById(req.userId, 'role');
+      if (user?.role !== 'admin') {
+        res.status(403).json({ error: 'Not authorized to view this exchange' });
+        return;
       }
+    }
+
+    const events = await ExchangeEvent.find({ transaction: transaction._id })
+      .populate({ path: 'actor', select: 'name' })
+      .sort({ createdAt: 1 });
+
+    res.json({
+      data: events
     });
+  } catch (err) {
+    console.error('Get exchange history error:', err);
+    res.status(500).json({ error: 'Failed to fetch exchange history' });
+  }
+};
+
+// Get unread notifications count
+export const getUnreadCount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const unreadCount = await countUnreadExchanges(new Types.ObjectId(req.userId));
 
     res.json({
       data: { unreadCount }
@@ -279,13 +1370,15 @@ export const getSentRequests = async (req: AuthRequest, res: Response): Promise<
     const exchanges = await Transaction.find({ requester: new Types.ObjectId(req.userId) })
       .populate([
         { path: 'book', select: 'title author genre condition status' },
-        { path: 'owner', select: 'name email' },
-        { path: 'messages.sender', select: 'name' }
+        { path: 'bundle.book', select: 'title author condition status' },
+        { path: 'offeredBooks', select: 'title author condition status' },
+        { path: 'acceptedOfferBook', select: 'title author condition status' },
+        { path: 'owner', select: 'name email' }
       ])
       .sort({ createdAt: -1 });
 
     res.json({
-      data: exchanges
+      data: exchanges.map(exchange => withAllowedStatuses(exchange, req.userId))
     });
   } catch (err) {
     console.error('Get sent requests error:', err);
@@ -298,75 +1391,348 @@ export const getReceivedRequests = async (req: AuthRequest, res: Response): Prom
     const exchanges = await Transaction.find({ owner: new Types.ObjectId(req.userId) })
       .populate([
         { path: 'book', select: 'title author genre condition status' },
-        { path: 'requester', select: 'name email' },
-        { path: 'messages.sender', select: 'name' }
+        { path: 'bundle.book', select: 'title author condition status' },
+        { path: 'offeredBooks', select: 'title author condition status' },
+        { path: 'acceptedOfferBook', select: 'title author condition status' },
+        { path: 'requester', select: 'name email' }
       ])
       .sort({ createdAt: -1 });
 
     res.json({
-      data: exchanges
+      data: exchanges.map(exchange => withAllowedStatuses(exchange, req.userId))
     });
   } catch (err) {
     console.error('Get received requests error:', err);
     res.status(500).json({ error: 'Failed to fetch received requests' });
   }
 };
-export const addMessage = async (req: AuthRequest, res: Response): Promise<void> => {
+
+// Page through an exchange thread, returned oldest first. Without a cursor the latest page is returned;
+// `before` loads older messages and `after` newer ones. Loading does not mark anything read: the client
+// reports what was actually seen through markMessagesRead.
+export const getMessages = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { exchangeId } = req.params;
-    const { message } = req.body;
-    
-    // Validate exchangeId
-    if (!exchangeId || !Types.ObjectId.isValid(exchangeId)) {
+    const { before, after } = req.query;
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
       res.status(400).json({ error: 'Invalid exchange ID' });
       return;
     }
 
+    const cursorId = before || after;
+    if (cursorId !== undefined && (typeof cursorId !== 'string' || !Types.ObjectId.isValid(cursorId))) {
+      res.status(400).json({ error: 'Invalid message cursor' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to view this exchange' });
+      return;
+    }
+
+    const filter: Record<string, unknown> = { transaction: transaction._id };
+    if (cursorId) {
+      const cursor = await Message.findOne({ _id: cursorId, transaction: transaction._id }, 'createdAt');
+      if (!cursor) {
+        res.status(400).json({ error: 'Invalid message cursor' });
+        return;
+      }
+      Object.assign(filter, buildMessageCursorFilter(after ? 'after' : 'before', cursor));
+    }
+
+    // One extra message tells whether there is more to load
+    const pageSize = parseMessagePageSize(req.query.limit);
+    const sortOrder = after ? 1 : -1;
+    const page = await Message.find(filter)
+      .populate({ path: 'sender', select: 'name' })
+      .sort({ createdAt: sortOrder, _id: sortOrder })
+      .limit(pageSize + 1);
+
+    const hasMore = page.length > pageSize;
+    const messages = page.slice(0, pageSize);
+    if (!after) messages.reverse();
+
+    res.json({
+      data: {
+        messages,
+        hasMore
+      }
+    });
+  } catch (err) {
+    console.error('Get messages error:', err);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+};
+
+// Mark the other party's messages as read, up to and including `upTo` when given
+export const markMessagesRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+    const { upTo } = req.body;
     const userId = new Types.ObjectId(req.userId);
-    const transactionId = new Types.ObjectId(exchangeId);
 
-    const transaction = await Transaction.findById(transactionId);
-    
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
+
+    if (upTo !== undefined && (typeof upTo !== 'string' || !Types.ObjectId.isValid(upTo))) {
+      res.status(400).json({ error: 'Invalid message ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId, 'owner requester');
     if (!transaction) {
       res.status(404).json({ error: 'Exchange request not found' });
       return;
     }
 
-    // Verify user is part of the exchange
     if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
-      res.status(403).json({ error: 'Not authorized to message in this exchange' });
+      res.status(403).json({ error: 'Not authorized to view this exchange' });
       return;
     }
 
-    // Add new message
-    transaction.messages.push({
-      sender: userId,
-      content: message,
-      createdAt: new Date(),
-      read: false,
-      notified: true
+    const filter: Record<string, unknown> = { transaction: transaction._id, sender: { $ne: userId }, read: false };
+    if (upTo) {
+      const lastRead = await Message.findOne({ _id: upTo, transaction: transaction._id }, 'createdAt');
+      if (!lastRead) {
+        res.status(400).json({ error: 'Invalid message ID' });
+        return;
+      }
+      Object.assign(filter, { $nor: [buildMessageCursorFilter('after', lastRead)] });
+    }
+
+    const unread = await Message.find(filter, '_id');
+    const messageIds = unread.map(message => message._id);
+    const readAt = new Date();
+
+    if (messageIds.length > 0) {
+      await Message.updateMany({ _id: { $in: messageIds } }, { read: true, readAt });
+
+      const otherParty = transaction.owner.equals(userId) ? transaction.requester : transaction.owner;
+      publishToUsers([otherParty], {
+        type: 'messages-read',
+        exchangeId: transaction._id.toString(),
+        messageIds: messageIds.map(String),
+        readAt
+      });
+      await pushUnreadCount(userId);
+    }
+
+    res.json({
+      message: 'Messages marked as read',
+      data: { messageIds, readAt }
     });
+  } catch (err) {
+    console.error('Mark messages read error:', err);
+    res.status(500).json({ error: 'Failed to mark messages as read' });
+  }
+};
 
-    await transaction.save();
+// Tell the other party the user is typing; nothing is stored
+export const sendTypingSignal = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId } = req.params;
+
+    if (!Types.ObjectId.isValid(exchangeId)) {
+      res.status(400).json({ error: 'Invalid exchange ID' });
+      return;
+    }
 
-    // Populate the transaction with user details
-    const populatedTransaction = await Transaction.findById(transactionId)
-      .populate('book', 'title author genre condition status')
-      .populate('requester', 'name email')
-      .populate('owner', 'name email')
-      .populate('messages.sender', 'name');
+    const transaction = await Transaction.findById(exchangeId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
 
-    if (!populatedTransaction) {
-      res.status(404).json({ error: 'Exchange request not found after update' });
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to message in this exchange' });
       return;
     }
 
+    const otherParty = transaction.owner.toString() === req.userId ? transaction.requester : transaction.owner;
+    publishToUsers([otherParty], {
+      type: 'typing',
+      exchangeId: transaction._id.toString(),
+      userId: req.userId
+    });
+
     res.json({
-      message: 'Message sent successfully',
-      data: populatedTransaction
+      message: 'Typing signal sent'
     });
   } catch (err) {
-    console.error('Add message error:', err);
+    console.error('Typing signal error:', err);
+    res.status(500).json({ error: 'Failed to send typing signal' });
+  }
+};
+
+export const addMessage = async (req: AuthRequest, res: Response): Promise<void> => {
+  const { exchangeId } = req.params;
+
+  // Check the caller is part of the exchange before multer writes any photos to disk
+  if (!exchangeId || !Types.ObjectId.isValid(exchangeId)) {
+    res.status(400).json({ error: 'Invalid exchange ID' });
+    return;
+  }
+
+  let transaction: ITransaction | null;
+  try {
+    transaction = await Transaction.findById(exchangeId, 'owner requester book');
+  } catch (error) {
+    console.error('Add message error:', error);
     res.status(500).json({ error: 'Failed to send message' });
+    return;
+  }
+
+  if (!transaction) {
+    res.status(404).json({ error: 'Exchange request not found' });
+    return;
+  }
+
+  if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+    res.status(403).json({ error: 'Not authorized to message in this exchange' });
+    return;
+  }
+
+  uploadAttachments(req, res, async function (err) {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: 'File upload error: ' + err.message });
+      return;
+    } else if (err) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    try {
+      const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+      if (!message && files.length === 0) {
+        res.status(400).json({ error: 'Message cannot be empty' });
+        return;
+      }
+
+      const userId = new Types.ObjectId(req.userId);
+
+      const newMessage = await postMessage(transaction._id, {
+        sender: userId,
+        content: message,
+        attachments: files.map(file => ({
+          path: file.path.replace(/\\/g, '/'),
+          mimeType: file.mimetype,
+          size: file.size,
+          originalName: file.originalname
+        })),
+        createdAt: new Date(),
+        read: false,
+        notified: false
+      });
+      await recordExchangeEvent({
+        transaction: transaction._id,
+        type: 'message',
+        actor: userId,
+        after: { content: message, attachments: files.length }
+      });
+
+      await newMessage.populate({ path: 'sender', select: 'name' });
+
+      const recipientId = transaction.owner.equals(userId) ? transaction.requester : transaction.owner;
+      const sender = await User.findById(userId, 'name');
+      await notifyUser({
+        user: recipientId,
+        type: 'message',
+        title: `New message from ${sender?.name || 'the other party'}`,
+        body: message || 'Sent a photo',
+        exchange: transaction._id
+      });
+
+      // Only the first of a run of unread messages is emailed, so a conversation does not flood the inbox
+      const earlierUnread = await Message.exists({
+        transaction: transaction._id,
+        sender: userId,
+        read: false,
+        _id: { $ne: newMessage._id }
+      });
+      if (!earlierUnread && sender) {
+        const [recipient, book] = await Promise.all([
+          User.findById(recipientId, EMAIL_RECIPIENT_FIELDS),
+          Book.findById(transaction.book, 'title')
+        ]);
+
+        if (recipient && book) {
+          try {
+            const emailed = await sendNotificationEmail(recipient, 'message', 'newMessage', {
+              name: recipient.name,
+              senderName: sender.name,
+              bookTitle: book.title,
+              preview: message || 'Sent a photo',
+              exchangeLink: getExchangeLink(transaction._id)
+            });
+            // Anything not emailed now, e.g. during quiet hours, is picked up by the daily digest
+            if (emailed) {
+              await Message.updateOne({ _id: newMessage._id }, { notified: true });
+            }
+          } catch (emailErr) {
+            console.error('New message email failed:', emailErr);
+          }
+        }
+      }
+
+      res.json({
+        message: 'Message sent successfully',
+        data: newMessage
+      });
+    } catch (error) {
+      removeUploads(files);
+      console.error('Add message error:', error);
+      res.status(500).json({ error: 'Failed to send message' });
+    }
+  });
+};
+
+// Serve a message photo to the two participants of the exchange
+export const getMessageAttachment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { exchangeId, messageId, attachmentId } = req.params;
+
+    if (![exchangeId, messageId, attachmentId].every(id => Types.ObjectId.isValid(id))) {
+      res.status(400).json({ error: 'Invalid attachment ID' });
+      return;
+    }
+
+    const transaction = await Transaction.findById(exchangeId, 'owner requester');
+    if (!transaction) {
+      res.status(404).json({ error: 'Exchange request not found' });
+      return;
+    }
+
+    if (![transaction.owner.toString(), transaction.requester.toString()].includes(req.userId)) {
+      res.status(403).json({ error: 'Not authorized to view this exchange' });
+      return;
+    }
+
+    const message = await Message.findOne({ _id: messageId, transaction: transaction._id }, 'attachments');
+    const attachment = message?.attachments.find(item => item._id.equals(attachmentId));
+    const filePath = attachment && path.resolve(attachment.path);
+
+    if (!attachment || !filePath || !fs.existsSync(filePath)) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    res.set('Cache-Control', 'private, max-age=86400');
+    res.type(attachment.mimeType);
+    res.sendFile(filePath);
+  } catch (err) {
+    console.error('Get message attachment error:', err);
+    res.status(500).json({ error: 'Failed to fetch attachment' });
   }
-};
\ No newline at end of file
+};
@@ -3,10 +3,17 @@ import bcrypt from 'bcryptjs';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import User from '../models/User';
+import User, { LANGUAGES } from '../models/User';
 import Book from '../models/Book';
 import Transaction from '../models/Transaction';
+import { ACTIVE_STATUSES } from '../services/exchangeStateMachine';
+import { getRequestedBookIds } from '../services/bundleService';
+import { postMessage } from '../services/messageService';
+import { promoteNextRequest, releaseOfferedBooks, syncBookStatuses } from '../services/requestQueue';
+import { announceStatusChange } from '../services/statusChangeService';
+import { cancelSwapSiblings } from '../services/swapService';
 import { AuthRequest } from '../types/custom';
+import { mergeNotificationPreferences, resolveNotificationPreferences } from '../services/notificationPreferences';
 import mongoose from 'mongoose';
 
 
@@ -219,9 +226,30 @@ export const updateProfileImage = async (req: AuthRequest, res: Response): Promi
   });
 };
 
+// Reading, notification and email language preferences, with defaults filled in
+export const getPreferences = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId, 'preferences notificationPreferences preferredLanguage');
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      preferences: user.preferences,
+      notificationPreferences: resolveNotificationPreferences(user.notificationPreferences),
+      preferredLanguage: user.preferredLanguage || 'en'
+    });
+  } catch (err) {
+    console.error('Error fetching preferences:', err);
+    res.status(500).json({ error: 'Failed to fetch preferences' });
+  }
+};
+
 export const updatePreferences = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { genres } = req.body;
+    const { genres, notificationPreferences, preferredLanguage } = req.body;
     const user = await User.findById(req.userId);
 
     if (!user) {
@@ -229,16 +257,41 @@ export const updatePreferences = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    user.preferences = {
-      ...user.preferences,
-      genres: genres || []
-    };
+    // Only the settings that were sent change, so the notification panel does not clear the genres
+    if (genres !== undefined || (notificationPreferences === undefined && preferredLanguage === undefined)) {
+      user.preferences = {
+        ...user.preferences,
+        genres: genres || []
+      };
+    }
+
+    if (notificationPreferences !== undefined) {
+      const { preferences, error } = mergeNotificationPreferences(
+        resolveNotificationPreferences(user.notificationPreferences),
+        notificationPreferences
+      );
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+      user.notificationPreferences = preferences!;
+    }
+
+    if (preferredLanguage !== undefined) {
+      if (!LANGUAGES.includes(preferredLanguage)) {
+        res.status(400).json({ error: `Preferred language must be one of: ${LANGUAGES.join(', ')}` });
+        return;
+      }
+      user.preferredLanguage = preferredLanguage;
+    }
 
     await user.save();
 
     res.json({
       message: 'Preferences updated successfully',
-      preferences: user.preferences
+      preferences: user.preferences,
+      notificationPreferences: resolveNotificationPreferences(user.notificationPreferences),
+      preferredLanguage: user.preferredLanguage || 'en'
     });
   } catch (err) {
     console.error('Error updating preferences:', err);
@@ -246,6 +299,93 @@ export const updatePreferences = async (req: AuthRequest, res: Response): Promis
   }
 };
 
+// Ids of the listings the user wants
+export const getWishlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId, 'wishlist');
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      data: user.wishlist
+    });
+  } catch (err) {
+    console.error('Error fetching wishlist:', err);
+    res.status(500).json({ error: 'Failed to fetch wishlist' });
+  }
+};
+
+export const addToWishlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { bookId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(bookId)) {
+      res.status(400).json({ error: 'Invalid book ID' });
+      return;
+    }
+
+    const book = await Book.findById(bookId, 'owner');
+    if (!book) {
+      res.status(404).json({ error: 'Book not found' });
+      return;
+    }
+
+    if (book.owner.toString() === req.userId) {
+      res.status(400).json({ error: 'Cannot add your own book to your wishlist' });
+      return;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.userId,
+      { $addToSet: { wishlist: book._id } },
+      { new: true, projection: 'wishlist' }
+    );
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      message: 'Book added to wishlist',
+      data: user.wishlist
+    });
+  } catch (err) {
+    console.error('Error adding to wishlist:', err);
+    res.status(500).json({ error: 'Failed to update wishlist' });
+  }
+};
+
+export const removeFromWishlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { bookId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(bookId)) {
+      res.status(400).json({ error: 'Invalid book ID' });
+      return;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.userId,
+      { $pull: { wishlist: new mongoose.Types.ObjectId(bookId) } },
+      { new: true, projection: 'wishlist' }
+    );
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      message: 'Book removed from wishlist',
+      data: user.wishlist
+    });
+  } catch (err) {
+    console.error('Error removing from wishlist:', err);
+    res.status(500).json({ error: 'Failed to update wishlist' });
+  }
+};
+
 export const deleteAccount = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const user = await User.findById(req.userId);
@@ -262,15 +402,57 @@ export const deleteAccount = async (req: AuthRequest, res: Response): Promise<vo
       }
     }
 
+    // Cancel the user's open exchanges the way a withdrawal would. Queued requests go first
+    // so that closing a pending one does not promote a request that is about to be cancelled
+    const userId = user._id;
+    const openExchanges = await Transaction.find({
+      $or: [{ requester: userId }, { owner: userId }],
+      status: { $in: ['queued', ...ACTIVE_STATUSES] }
+    });
+    openExchanges.sort((a, b) => Number(b.status === 'queued') - Number(a.status === 'queued'));
+    // Swap legs cancelled along with an earlier exchange; they may still be in the stale list
+    const cancelledLegs = new Set<string>();
+
+    for (const transaction of openExchanges) {
+      if (cancelledLegs.has(transaction.id)) continue;
+
+      const before = transaction.status;
+      transaction.status = 'cancelled';
+      transaction.lastModifiedBy = userId;
+      await postMessage(transaction._id, {
+        sender: userId,
+        content: `${user.name} closed their account, so this exchange was cancelled`,
+        createdAt: new Date(),
+        read: false,
+        notified: false,
+        system: true
+      });
+      await transaction.save();
+
+      // A queued request never held the book
+      if (before !== 'queued') {
+        await syncBookStatuses(transaction, 'cancelled');
+      }
+      await releaseOfferedBooks(transaction.offeredBooks);
+      await announceStatusChange({
+        transaction,
+        before,
+        actor: userId,
+        note: 'The account was closed'
+      });
+      if (before !== 'queued') {
+        for (const bookId of getRequestedBookIds(transaction)) {
+          await promoteNextRequest(bookId);
+        }
+      }
+      for (const legId of await cancelSwapSiblings(transaction, userId)) {
+        cancelledLegs.add(legId.toString());
+      }
+    }
+
     // Delete user's books
     await Book.deleteMany({ owner: req.userId });
 
-    // Update transactions
-    await Transaction.updateMany(
-      { $or: [{ requester: req.userId }, { owner: req.userId }] },
-      { status: 'cancelled' }
-    );
-
     // delete the user
     await User.findByIdAndDelete(req.userId);
 
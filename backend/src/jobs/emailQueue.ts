@@ -0,0 +1,10 @@
+import { processEmailQueue } from '../services/emailQueue';
+
+// Short enough that one-time codes arrive promptly
+const EMAIL_QUEUE_INTERVAL_MS = 15 * 1000;
+
+export const startEmailQueueJob = (intervalMs: number = EMAIL_QUEUE_INTERVAL_MS) => {
+  const run = () => processEmailQueue().catch(err => console.error('Email queue job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
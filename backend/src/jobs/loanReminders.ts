@@ -0,0 +1,108 @@
+import Transaction from '../models/Transaction';
+import Book from '../models/Book';
+import User from '../models/User';
+import { EMAIL_RECIPIENT_FIELDS, sendNotificationEmail } from '../services/emailService';
+import { getLoanState } from '../services/loanService';
+import { notifyUser } from '../services/notificationService';
+import { isWithinQuietHours } from '../services/notificationPreferences';
+
+const LOAN_REMINDER_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+const formatDate = (date: Date) => date.toDateString();
+
+// Sends the "due soon" reminder to borrowers and the overdue notice to both parties, once each
+export const runLoanReminders = async (now: Date = new Date()): Promise<void> => {
+  const loans = await Transaction.find({
+    status: 'completed',
+    'loan.dueDate': { $exists: true },
+    'loan.returnedAt': { $exists: false },
+    'loan.overdueReminderSentAt': { $exists: false }
+  });
+
+  for (const transaction of loans) {
+    try {
+      const state = getLoanState(transaction, now);
+      if (state !== 'due-soon' && state !== 'overdue') continue;
+      if (state === 'due-soon' && transaction.loan.dueSoonReminderSentAt) continue;
+
+      const [book, owner, requester] = await Promise.all([
+        Book.findById(transaction.book, 'title'),
+        User.findById(transaction.owner, EMAIL_RECIPIENT_FIELDS),
+        User.findById(transaction.requester, EMAIL_RECIPIENT_FIELDS)
+      ]);
+
+      if (!book || !owner || !requester) continue;
+
+      // Reminders are sent once, so hold them until the recipients' quiet hours are over rather than dropping them
+      const recipients = state === 'due-soon' ? [requester] : [requester, owner];
+      if (recipients.some(user => isWithinQuietHours(user.notificationPreferences?.quietHours, now))) continue;
+
+      const dueDate = formatDate(transaction.loan.dueDate!);
+
+      if (state === 'due-soon') {
+        await sendNotificationEmail(requester, 'reminder', 'loanDueSoon', {
+          name: requester.name,
+          bookTitle: book.title,
+          ownerName: owner.name,
+          dueDate
+        });
+        await notifyUser({
+          user: requester._id,
+          type: 'loan-reminder',
+          title: `"${book.title}" is due back on ${dueDate}`,
+          body: `Please return it to ${owner.name}`,
+          exchange: transaction._id,
+          book: book._id
+        });
+        transaction.loan.dueSoonReminderSentAt = now;
+      } else {
+        await Promise.all([
+          sendNotificationEmail(requester, 'reminder', 'loanOverdue', {
+            name: requester.name,
+            bookTitle: book.title,
+            otherPartyName: owner.name,
+            dueDate,
+            isOwner: false
+          }),
+          sendNotificationEmail(owner, 'reminder', 'loanOverdue', {
+            name: owner.name,
+            bookTitle: book.title,
+            otherPartyName: requester.name,
+            dueDate,
+            isOwner: true
+          })
+        ]);
+        await Promise.all([
+          notifyUser({
+            user: requester._id,
+            type: 'loan-reminder',
+            title: `"${book.title}" is overdue`,
+            body: `It was due back to ${owner.name} on ${dueDate}`,
+            exchange: transaction._id,
+            book: book._id
+          }),
+          notifyUser({
+            user: owner._id,
+            type: 'loan-reminder',
+            title: `"${book.title}" lent to ${requester.name} is overdue`,
+            body: `It was due back on ${dueDate}`,
+            exchange: transaction._id,
+            book: book._id
+          })
+        ]);
+        transaction.loan.overdueAt = transaction.loan.overdueAt || now;
+        transaction.loan.overdueReminderSentAt = now;
+      }
+
+      await transaction.save();
+    } catch (err) {
+      console.error('Loan reminder failed for exchange:', transaction._id, err);
+    }
+  }
+};
+
+export const startLoanReminderJob = (intervalMs: number = LOAN_REMINDER_INTERVAL_MS) => {
+  const run = () => runLoanReminders().catch(err => console.error('Loan reminder job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
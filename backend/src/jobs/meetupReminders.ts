@@ -0,0 +1,89 @@
+import Transaction from '../models/Transaction';
+import Book from '../models/Book';
+import User from '../models/User';
+import { EMAIL_RECIPIENT_FIELDS, sendNotificationEmail } from '../services/emailService';
+import { formatMeetupSlot, isMeetupReminderDue, MEETUP_REMINDER_LEAD_MINUTES } from '../services/meetupService';
+import { notifyUser } from '../services/notificationService';
+import { isWithinQuietHours } from '../services/notificationPreferences';
+
+const MINUTE_MS = 60 * 1000;
+// Runs often enough that reminders go out close to an hour before the meetup
+const MEETUP_REMINDER_INTERVAL_MS = 5 * MINUTE_MS;
+
+export const runMeetupReminders = async (now: Date = new Date()): Promise<number> => {
+  const upcoming = await Transaction.find({
+    status: 'accepted',
+    'meetup.confirmed.startsAt': {
+      $gt: now,
+      $lte: new Date(now.getTime() + MEETUP_REMINDER_LEAD_MINUTES * MINUTE_MS)
+    },
+    'meetup.reminderSentAt': { $exists: false }
+  });
+
+  let remindedCount = 0;
+
+  for (const transaction of upcoming) {
+    try {
+      if (!isMeetupReminderDue(transaction.meetup, now)) continue;
+
+      const [book, owner, requester] = await Promise.all([
+        Book.findById(transaction.book, 'title'),
+        User.findById(transaction.owner, EMAIL_RECIPIENT_FIELDS),
+        User.findById(transaction.requester, EMAIL_RECIPIENT_FIELDS)
+      ]);
+
+      if (!book || !owner || !requester) continue;
+
+      // The reminder is sent once, so hold it until both parties' quiet hours are over rather than dropping it
+      if ([owner, requester].some(user => isWithinQuietHours(user.notificationPreferences?.quietHours, now))) continue;
+
+      const meetup = formatMeetupSlot(transaction.meetup.confirmed!);
+      await Promise.all([
+        sendNotificationEmail(owner, 'reminder', 'meetupReminder', {
+          name: owner.name,
+          bookTitle: book.title,
+          otherPartyName: requester.name,
+          meetup
+        }, now),
+        sendNotificationEmail(requester, 'reminder', 'meetupReminder', {
+          name: requester.name,
+          bookTitle: book.title,
+          otherPartyName: owner.name,
+          meetup
+        }, now)
+      ]);
+      await Promise.all([
+        notifyUser({
+          user: owner._id,
+          type: 'meetup-reminder',
+          title: `You're meeting ${requester.name} soon about "${book.title}"`,
+          body: meetup,
+          exchange: transaction._id,
+          book: book._id
+        }),
+        notifyUser({
+          user: requester._id,
+          type: 'meetup-reminder',
+          title: `You're meeting ${owner.name} soon about "${book.title}"`,
+          body: meetup,
+          exchange: transaction._id,
+          book: book._id
+        })
+      ]);
+
+      transaction.meetup.reminderSentAt = now;
+      await transaction.save();
+      remindedCount++;
+    } catch (err) {
+      console.error('Meetup reminder failed for exchange:', transaction._id, err);
+    }
+  }
+
+  return remindedCount;
+};
+
+export const startMeetupReminderJob = (intervalMs: number = MEETUP_REMINDER_INTERVAL_MS) => {
+  const run = () => runMeetupReminders().catch(err => console.error('Meetup reminder job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
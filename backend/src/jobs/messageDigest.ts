@@ -0,0 +1,86 @@
+import Message from '../models/Message';
+import Transaction from '../models/Transaction';
+import Book from '../models/Book';
+import User from '../models/User';
+import { EMAIL_RECIPIENT_FIELDS, getExchangeLink, sendNotificationEmail } from '../services/emailService';
+import { groupMessagesForDigest } from '../services/messageService';
+import { resolveNotificationPreferences } from '../services/notificationPreferences';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MESSAGE_DIGEST_INTERVAL_MS = 24 * HOUR_MS;
+// Conversations that are still going on are left for the next digest
+const DIGEST_MIN_MESSAGE_AGE_MS = HOUR_MS;
+const PREVIEW_LENGTH = 140;
+
+const toPreview = (content: string) =>
+  content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH - 3)}...` : content;
+
+// Emails each user one summary of the messages they have neither read nor been emailed about
+export const runMessageDigest = async (now: Date = new Date()): Promise<number> => {
+  const messages = await Message.find({
+    read: false,
+    notified: false,
+    system: { $ne: true },
+    createdAt: { $lte: new Date(now.getTime() - DIGEST_MIN_MESSAGE_AGE_MS) }
+  }, 'transaction sender content attachments createdAt').sort({ createdAt: 1 });
+
+  if (messages.length === 0) return 0;
+
+  const transactions = await Transaction.find({
+    _id: { $in: [...new Set(messages.map(message => message.transaction.toString()))] }
+  }, 'book requester owner');
+  const [books, senders] = await Promise.all([
+    Book.find({ _id: { $in: transactions.map(transaction => transaction.book) } }, 'title'),
+    User.find({ _id: { $in: [...new Set(messages.map(message => message.sender.toString()))] } }, 'name')
+  ]);
+
+  const transactionsById = new Map(transactions.map(transaction => [transaction._id.toString(), transaction]));
+  const bookTitles = new Map(books.map(book => [book._id.toString(), book.title]));
+  const senderNames = new Map(senders.map(sender => [sender._id.toString(), sender.name]));
+
+  let sentCount = 0;
+
+  for (const [recipientId, exchanges] of groupMessagesForDigest(messages, transactions)) {
+    try {
+      const recipient = await User.findById(recipientId, EMAIL_RECIPIENT_FIELDS);
+      if (!recipient) continue;
+
+      // Digests the user turned off are not owed later, so their messages are marked as handled either way
+      if (resolveNotificationPreferences(recipient.notificationPreferences).digest.email) {
+        const sent = await sendNotificationEmail(recipient, 'digest', 'messageDigest', {
+          name: recipient.name,
+          exchanges: [...exchanges].map(([exchangeId, exchangeMessages]) => {
+            const latest = exchangeMessages[exchangeMessages.length - 1];
+            const transaction = transactionsById.get(exchangeId)!;
+            return {
+              bookTitle: bookTitles.get(transaction.book.toString()) || 'a book',
+              senderName: senderNames.get(latest.sender.toString()) || 'The other party',
+              count: exchangeMessages.length,
+              preview: toPreview(latest.content || 'Sent a photo'),
+              exchangeLink: getExchangeLink(exchangeId)
+            };
+          })
+        }, now);
+
+        // Held back by quiet hours; the next run tries again
+        if (!sent) continue;
+        sentCount++;
+      }
+
+      await Message.updateMany(
+        { _id: { $in: [...exchanges.values()].flat().map(message => message._id) } },
+        { notified: true }
+      );
+    } catch (err) {
+      console.error('Message digest failed for user:', recipientId, err);
+    }
+  }
+
+  return sentCount;
+};
+
+export const startMessageDigestJob = (intervalMs: number = MESSAGE_DIGEST_INTERVAL_MS) => {
+  const run = () => runMessageDigest().catch(err => console.error('Message digest job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,90 @@
+import Transaction, { TransactionStatus } from '../models/Transaction';
+import { isLegalTransition } from '../services/exchangeStateMachine';
+import { postMessage } from '../services/messageService';
+import { getRequestedBookIds } from '../services/bundleService';
+import { promoteNextRequest, releaseOfferedBooks, syncBookStatuses } from '../services/requestQueue';
+import { cancelSwapSiblings } from '../services/swapService';
+import { announceStatusChange } from '../services/statusChangeService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REQUEST_EXPIRY_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+const parseDays = (value: string | undefined, fallback: number) => {
+  const days = parseInt(value || '', 10);
+  return Number.isNaN(days) ? fallback : days;
+};
+
+// Days without activity after which a request in each status expires; 0 disables expiry for that status
+export const EXPIRY_THRESHOLDS_DAYS: Partial<Record<TransactionStatus, number>> = {
+  pending: parseDays(process.env.REQUEST_EXPIRY_PENDING_DAYS, 7),
+  modified: parseDays(process.env.REQUEST_EXPIRY_MODIFIED_DAYS, 7),
+  accepted: parseDays(process.env.REQUEST_EXPIRY_ACCEPTED_DAYS, 14)
+};
+
+// Once the book is on its way or either side has confirmed the handover, the exchange is under way even if nobody writes
+const HANDOVER_NOT_STARTED = {
+  'shipment.status': { $exists: false },
+  'handover.ownerConfirmedAt': { $exists: false },
+  'handover.requesterConfirmedAt': { $exists: false }
+};
+
+export const runRequestExpiry = async (now: Date = new Date()): Promise<number> => {
+  let expiredCount = 0;
+  // Swap legs cancelled along with an expired sibling; they may still be in a stale batch loaded earlier
+  const cancelledLegs = new Set<string>();
+
+  for (const [status, days] of Object.entries(EXPIRY_THRESHOLDS_DAYS) as [TransactionStatus, number][]) {
+    if (!days || !isLegalTransition(status, 'expired')) continue;
+
+    const stale = await Transaction.find({
+      status,
+      dispute: null,
+      ...HANDOVER_NOT_STARTED,
+      updatedAt: { $lt: new Date(now.getTime() - days * DAY_MS) }
+    });
+
+    for (const transaction of stale) {
+      if (cancelledLegs.has(transaction.id)) continue;
+
+      try {
+        transaction.status = 'expired';
+        transaction.lastModifiedBy = transaction.owner;
+        await postMessage(transaction._id, {
+          sender: transaction.owner,
+          content: `This request expired after ${days} days without activity`,
+          createdAt: now,
+          read: false,
+          notified: false,
+          system: true
+        });
+        await transaction.save();
+
+        await syncBookStatuses(transaction, 'expired');
+        await releaseOfferedBooks(transaction.offeredBooks);
+        await announceStatusChange({
+          transaction,
+          before: status,
+          note: `No activity for ${days} days`,
+          inactiveDays: days
+        });
+        for (const bookId of getRequestedBookIds(transaction)) {
+          await promoteNextRequest(bookId);
+        }
+        for (const legId of await cancelSwapSiblings(transaction)) {
+          cancelledLegs.add(legId.toString());
+        }
+        expiredCount++;
+      } catch (err) {
+        console.error('Request expiry failed for exchange:', transaction._id, err);
+      }
+    }
+  }
+
+  return expiredCount;
+};
+
+export const startRequestExpiryJob = (intervalMs: number = REQUEST_EXPIRY_INTERVAL_MS) => {
+  const run = () => runRequestExpiry().catch(err => console.error('Request expiry job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,77 @@
+import { Types } from 'mongoose';
+import Book from '../models/Book';
+import User from '../models/User';
+import SwapCycle from '../models/SwapCycle';
+import { findSwapCycles, getSwapCycleSignature } from '../services/swapMatching';
+
+const SWAP_MATCHING_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Swaps happen in person, so cycles are only looked for within a city
+const SWAP_CITIES = ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Hyderabad'];
+
+// Withdraw open proposals whose books are no longer free so they can be matched again
+const cancelStaleProposals = async (): Promise<Set<string>> => {
+  const proposals = await SwapCycle.find({ status: 'proposed' });
+  const bookIds = proposals.flatMap(proposal => proposal.legs.map(leg => leg.book));
+  const available = new Set(
+    (await Book.find({ _id: { $in: bookIds }, status: 'available' }, '_id')).map(book => book._id.toString())
+  );
+
+  const reserved = new Set<string>();
+  for (const proposal of proposals) {
+    if (proposal.legs.every(leg => available.has(leg.book.toString()))) {
+      proposal.legs.forEach(leg => reserved.add(leg.book.toString()));
+      continue;
+    }
+
+    proposal.status = 'cancelled';
+    await proposal.save();
+  }
+
+  return reserved;
+};
+
+export const runSwapMatching = async (): Promise<number> => {
+  const reservedBooks = await cancelStaleProposals();
+  let proposedCount = 0;
+
+  for (const city of SWAP_CITIES) {
+    const books = await Book.find({ location: city, status: 'available' }, 'owner');
+    const listings = books
+      .filter(book => !reservedBooks.has(book._id.toString()))
+      .map(book => ({ bookId: book._id.toString(), ownerId: book.owner.toString() }));
+    if (listings.length < 2) continue;
+
+    const users = await User.find({ location: city, 'wishlist.0': { $exists: true } }, 'wishlist');
+    const wants = new Map(users.map(user => [user._id.toString(), user.wishlist.map(String)]));
+
+    for (const legs of findSwapCycles(listings, wants)) {
+      try {
+        const signature = getSwapCycleSignature(legs);
+        if (await SwapCycle.exists({ signature, status: { $ne: 'cancelled' } })) continue;
+
+        await SwapCycle.create({
+          city,
+          legs: legs.map(leg => ({
+            giver: new Types.ObjectId(leg.giver),
+            receiver: new Types.ObjectId(leg.receiver),
+            book: new Types.ObjectId(leg.book)
+          })),
+          participants: legs.map(leg => ({ user: new Types.ObjectId(leg.receiver), response: 'pending' })),
+          signature
+        });
+        proposedCount++;
+      } catch (err) {
+        console.error('Swap proposal failed in city:', city, err);
+      }
+    }
+  }
+
+  return proposedCount;
+};
+
+export const startSwapMatchingJob = (intervalMs: number = SWAP_MATCHING_INTERVAL_MS) => {
+  const run = () => runSwapMatching().catch(err => console.error('Swap matching job error:', err));
+  run();
+  return setInterval(run, intervalMs);
+};
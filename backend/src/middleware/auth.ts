@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AuthRequest } from '../types/custom';
+import User from '../models/User';
 
 export const auth = async (
   req: Request,
@@ -22,4 +23,38 @@ export const auth = async (
   } catch (err) {
     res.status(401).json({ error: 'Invalid token' });
   }
-};
\ No newline at end of file
+};
+
+// EventSource cannot send headers, so event streams may pass the token as a query parameter instead
+export const streamAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+  if (token && !req.header('Authorization')) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+
+  return auth(req, res, next);
+};
+
+// Must run after auth; rejects users without the admin role
+export const requireAdmin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById((req as AuthRequest).userId, 'role');
+
+    if (user?.role !== 'admin') {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Message from '../models/Message';
+import Transaction from '../models/Transaction';
+
+dotenv.config();
+
+const BATCH_SIZE = 100;
+
+/**
+ * Moves messages embedded in transactions into the messages collection.
+ * Each message keeps its original _id, so the migration can safely be re-run
+ * after an interruption: already-copied messages are skipped.
+ */
+export const moveMessagesToCollection = async (): Promise<number> => {
+  // Messages are no longer part of the Transaction schema, so read the raw documents
+  const cursor = Transaction.collection.find(
+    { 'messages.0': { $exists: true } },
+    { projection: { messages: 1 }, batchSize: BATCH_SIZE }
+  );
+
+  let movedCount = 0;
+  for await (const transaction of cursor) {
+    const messages: any[] = transaction.messages || [];
+
+    await Message.bulkWrite(messages.map(message => ({
+      updateOne: {
+        filter: { _id: message._id },
+        update: {
+          $setOnInsert: {
+            transaction: transaction._id,
+            sender: message.sender,
+            content: message.content,
+            createdAt: message.createdAt || transaction._id.getTimestamp(),
+            read: !!message.read,
+            notified: !!message.notified,
+            system: !!message.system
+          }
+        },
+        upsert: true
+      }
+    })));
+
+    await Transaction.collection.updateOne({ _id: transaction._id }, { $unset: { messages: '' } });
+    movedCount += messages.length;
+  }
+
+  return movedCount;
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGODB_URI!)
+    .then(async () => {
+      await Message.syncIndexes();
+      const movedCount = await moveMessagesToCollection();
+      console.log(`Moved ${movedCount} messages to the messages collection`);
+    })
+    .catch(err => {
+      console.error('Message migration failed:', err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
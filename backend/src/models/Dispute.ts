@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { TransactionStatus } from './Transaction';
+
+export type DisputeReason = 'not-returned' | 'damaged' | 'not-as-described' | 'no-show' | 'other';
+export type DisputeStatus = 'open' | 'resolved';
+// upheld: the reported party was at fault; dismissed: the report was unfounded; settled: no fault assigned
+export type DisputeOutcome = 'upheld' | 'dismissed' | 'settled';
+export type DisputeEventType = 'opened' | 'comment' | 'resolved';
+
+export const DISPUTE_REASONS: DisputeReason[] = ['not-returned', 'damaged', 'not-as-described', 'no-show', 'other'];
+export const DISPUTE_OUTCOMES: DisputeOutcome[] = ['upheld', 'dismissed', 'settled'];
+
+export interface IDisputeEvent {
+  type: DisputeEventType;
+  actor: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface IDisputeResolution {
+  outcome: DisputeOutcome;
+  note?: string;
+  penalizedUser?: Types.ObjectId;
+  reputationPenalty: number;
+  resolvedBy: Types.ObjectId;
+  resolvedAt: Date;
+}
+
+export interface IDispute extends Document {
+  transaction: Types.ObjectId;
+  reporter: Types.ObjectId;
+  respondent: Types.ObjectId;
+  reason: DisputeReason;
+  description: string;
+  evidencePhotos: string[];
+  status: DisputeStatus;
+  // Exchange status when the dispute was opened
+  frozenStatus: TransactionStatus;
+  events: IDisputeEvent[];
+  resolution?: IDisputeResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const disputeSchema = new Schema({
+  transaction: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  reporter: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  respondent: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: DISPUTE_REASONS,
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+    maxLength: 2000
+  },
+  evidencePhotos: [{
+    type: String
+  }],
+  status: {
+    type: String,
+    enum: ['open', 'resolved'],
+    default: 'open'
+  },
+  frozenStatus: {
+    type: String,
+    required: true
+  },
+  events: [{
+    type: {
+      type: String,
+      enum: ['opened', 'comment', 'resolved'],
+      required: true
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxLength: 2000
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    },
+    _id: false
+  }],
+  resolution: {
+    outcome: {
+      type: String,
+      enum: DISPUTE_OUTCOMES
+    },
+    note: String,
+    penalizedUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reputationPenalty: {
+      type: Number,
+      min: 0,
+      max: 5
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    resolvedAt: Date,
+    _id: false
+  }
+}, {
+  timestamps: true
+});
+
+disputeSchema.index({ transaction: 1, status: 1 });
+disputeSchema.index({ status: 1, createdAt: 1 });
+disputeSchema.index({ 'resolution.penalizedUser': 1 });
+
+export default mongoose.model<IDispute>('Dispute', disputeSchema);
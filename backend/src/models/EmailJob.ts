@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// failed is the dead letter state: the worker gave up and only an admin resend retries it
+export type EmailJobStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface IEmailJob extends Document {
+  to: string;
+  // Template the email was rendered from
+  type: string;
+  subject: string;
+  html: string;
+  text?: string;
+  status: EmailJobStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SENT_EMAIL_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const emailJobSchema = new Schema({
+  to: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  html: {
+    type: String,
+    required: true
+  },
+  text: String,
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: Date,
+  lastError: String,
+  sentAt: Date
+}, {
+  timestamps: true
+});
+
+emailJobSchema.index({ status: 1, nextAttemptAt: 1 });
+// Delivered emails are only kept for a while
+emailJobSchema.index({ sentAt: 1 }, { expireAfterSeconds: SENT_EMAIL_RETENTION_SECONDS });
+
+export default mongoose.model<IEmailJob>('EmailJob', emailJobSchema);
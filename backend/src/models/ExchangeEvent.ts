@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type ExchangeEventType =
+  | 'created'
+  | 'status-changed'
+  | 'terms-changed'
+  | 'message'
+  | 'handover'
+  | 'meetup'
+  | 'shipment'
+  | 'returned'
+  | 'dispute';
+
+export interface IExchangeEvent extends Document {
+  transaction: Types.ObjectId;
+  type: ExchangeEventType;
+  // Missing for changes made by scheduled jobs
+  actor?: Types.ObjectId;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  note?: string;
+  createdAt: Date;
+}
+
+const exchangeEventSchema = new Schema({
+  transaction: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['created', 'status-changed', 'terms-changed', 'message', 'handover', 'meetup', 'shipment', 'returned', 'dispute'],
+    required: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed,
+  note: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+exchangeEventSchema.index({ transaction: 1, createdAt: 1 });
+
+// The audit trail is append-only: existing events can never be changed or removed
+exchangeEventSchema.pre('save', function (next) {
+  next(this.isNew ? undefined : new Error('Exchange events are append-only'));
+});
+
+exchangeEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function (next) {
+    next(new Error('Exchange events are append-only'));
+  }
+);
+
+export default mongoose.model<IExchangeEvent>('ExchangeEvent', exchangeEventSchema);
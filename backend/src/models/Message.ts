@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IMessageAttachment {
+  _id: Types.ObjectId;
+  // Stored outside the public uploads folder; served only to the exchange's participants
+  path: string;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+export interface IMessage extends Document {
+  transaction: Types.ObjectId;
+  sender: Types.ObjectId;
+  content: string;
+  createdAt: Date;
+  attachments: IMessageAttachment[];
+  read: boolean;
+  readAt?: Date;
+  notified: boolean;
+  system?: boolean;
+}
+
+const attachmentSchema = new Schema({
+  path: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  originalName: String
+}, {
+  toJSON: {
+    transform: (doc, ret) => {
+      delete ret.path;
+      return ret;
+    }
+  }
+});
+
+const messageSchema = new Schema({
+  transaction: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  sender: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Empty for messages that only carry attachments
+  content: {
+    type: String,
+    default: ''
+  },
+  attachments: [attachmentSchema],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date,
+  notified: {
+    type: Boolean,
+    default: false
+  },
+  system: {
+    type: Boolean,
+    default: false
+  }
+});
+
+// Thread pages are read newest first, with the id breaking ties between messages sent in the same millisecond
+messageSchema.index({ transaction: 1, createdAt: -1, _id: -1 });
+messageSchema.index({ transaction: 1, sender: 1, read: 1 });
+// Messages still waiting for the daily digest
+messageSchema.index({ read: 1, notified: 1, createdAt: 1 });
+
+export default mongoose.model<IMessage>('Message', messageSchema);
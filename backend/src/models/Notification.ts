@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type NotificationType =
+  | 'exchange-request'
+  | 'exchange-status'
+  | 'message'
+  | 'loan-reminder'
+  | 'meetup-reminder'
+  | 'review';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'exchange-request',
+  'exchange-status',
+  'message',
+  'loan-reminder',
+  'meetup-reminder',
+  'review'
+];
+
+export interface INotification extends Document {
+  user: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  // What the notification links to; the exchange wins when both are set
+  exchange?: Types.ObjectId;
+  book?: Types.ObjectId;
+  // Unread message notifications for an exchange are folded into one
+  count: number;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  body: String,
+  exchange: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  book: {
+    type: Schema.Types.ObjectId,
+    ref: 'Book'
+  },
+  count: {
+    type: Number,
+    default: 1
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ user: 1, updatedAt: -1 });
+notificationSchema.index({ user: 1, read: 1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
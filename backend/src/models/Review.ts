@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IReview extends Document {
+  transaction: Types.ObjectId;
+  reviewer: Types.ObjectId;
+  reviewee: Types.ObjectId;
+  rating: number;
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reviewSchema = new Schema({
+  transaction: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  reviewer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reviewee: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxLength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// One review per party per transaction
+reviewSchema.index({ transaction: 1, reviewer: 1 }, { unique: true });
+reviewSchema.index({ reviewee: 1, createdAt: -1 });
+
+export default mongoose.model<IReview>('Review', reviewSchema);
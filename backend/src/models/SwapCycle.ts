@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type SwapCycleStatus = 'proposed' | 'accepted' | 'declined' | 'cancelled';
+export type SwapResponse = 'pending' | 'accepted' | 'declined';
+
+export interface ISwapLeg {
+  giver: Types.ObjectId;
+  receiver: Types.ObjectId;
+  book: Types.ObjectId;
+  // Exchange created for this hand-off once every participant has accepted
+  transaction?: Types.ObjectId;
+}
+
+export interface ISwapParticipant {
+  user: Types.ObjectId;
+  response: SwapResponse;
+  respondedAt?: Date;
+}
+
+// A proposed multi-party swap; it only turns into exchanges when every participant accepts
+export interface ISwapCycle extends Document {
+  city: string;
+  legs: ISwapLeg[];
+  participants: ISwapParticipant[];
+  status: SwapCycleStatus;
+  // Same for every rotation of the cycle, so a declined swap is not proposed again
+  signature: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const swapCycleSchema = new Schema({
+  city: {
+    type: String,
+    required: true,
+    enum: ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Hyderabad']
+  },
+  legs: [{
+    giver: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    receiver: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true
+    },
+    transaction: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction'
+    },
+    _id: false
+  }],
+  participants: [{
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    response: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined'],
+      default: 'pending'
+    },
+    respondedAt: Date,
+    _id: false
+  }],
+  status: {
+    type: String,
+    enum: ['proposed', 'accepted', 'declined', 'cancelled'],
+    default: 'proposed'
+  },
+  signature: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+swapCycleSchema.index({ 'participants.user': 1, createdAt: -1 });
+swapCycleSchema.index({ status: 1 });
+swapCycleSchema.index({ signature: 1 });
+
+export default mongoose.model<ISwapCycle>('SwapCycle', swapCycleSchema);
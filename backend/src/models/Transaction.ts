@@ -1,40 +1,160 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 
-export type TransactionStatus = 'pending' | 'accepted' | 'rejected' | 'modified' | 'completed' | 'cancelled';
+export type TransactionStatus = 'queued' | 'pending' | 'accepted' | 'rejected' | 'modified' | 'completed' | 'cancelled' | 'expired';
 
-interface IMessage {
-  sender: Types.ObjectId;
-  content: string;
-  createdAt: Date;
-  read: boolean;
-  notified: boolean;
-}
-
-interface ITerms {
+export interface ITerms {
   deliveryMethod: 'in-person' | 'courier' | 'mail';
   duration: number;
   location?: string;
   additionalNotes?: string;
 }
 
+export interface ITermsRevision {
+  version: number;
+  terms: ITerms;
+  proposedBy: Types.ObjectId;
+  previousStatus?: TransactionStatus;
+  acceptedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IHandover {
+  ownerConfirmedAt?: Date;
+  requesterConfirmedAt?: Date;
+}
+
+export interface ILoan {
+  dueDate?: Date;
+  returnedAt?: Date;
+  overdueAt?: Date;
+  dueSoonReminderSentAt?: Date;
+  overdueReminderSentAt?: Date;
+}
+
+export interface IMeetupSlot {
+  _id?: Types.ObjectId;
+  startsAt: Date;
+  place: string;
+}
+
+// In-person meetup: one side proposes slots, the other confirms one of them
+export interface IMeetup {
+  slots: IMeetupSlot[];
+  proposedBy?: Types.ObjectId;
+  proposedAt?: Date;
+  confirmed?: IMeetupSlot;
+  confirmedAt?: Date;
+  rescheduleCount: number;
+  reminderSentAt?: Date;
+}
+
+export type ShipmentStatus = 'dispatched' | 'in-transit' | 'delivered';
+
+export interface IShipmentEvent {
+  status: ShipmentStatus;
+  note?: string;
+  recordedBy: Types.ObjectId;
+  createdAt: Date;
+}
+
+// Courier or mail delivery of the book from its owner to the requester
+export interface IShipment {
+  carrier?: string;
+  trackingNumber?: string;
+  dispatchedAt?: Date;
+  status?: ShipmentStatus;
+  deliveredAt?: Date;
+  events: IShipmentEvent[];
+}
+
+export type BundleBookStatus = 'requested' | 'accepted' | 'declined';
+
+export interface IBundleBook {
+  book: Types.ObjectId;
+  status: BundleBookStatus;
+}
+
 export interface ITransaction extends Document {
   book: Types.ObjectId;
+  // Every book of a multi-book request with the owner's answer for it; empty for single-book requests
+  bundle: IBundleBook[];
+  offeredBooks: Types.ObjectId[];
+  acceptedOfferBook?: Types.ObjectId;
   requester: Types.ObjectId;
   owner: Types.ObjectId;
   status: TransactionStatus;
   terms: ITerms;
-  messages: IMessage[];
+  termsVersion: number;
+  termsRevisions: ITermsRevision[];
+  handover: IHandover;
+  loan: ILoan;
+  meetup: IMeetup;
+  shipment: IShipment;
+  // Multi-party swap this exchange is one hand-off of
+  swapCycle?: Types.ObjectId;
+  // Open dispute; while set the exchange status is frozen
+  dispute?: Types.ObjectId | null;
   lastModifiedBy: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const meetupSlotDefinition = {
+  startsAt: {
+    type: Date,
+    required: true
+  },
+  place: {
+    type: String,
+    required: true,
+    trim: true,
+    maxLength: 200
+  }
+};
+
+const termsDefinition = {
+  deliveryMethod: {
+    type: String,
+    required: true,
+    enum: ['in-person', 'courier', 'mail']
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 90
+  },
+  location: String,
+  additionalNotes: String
+};
+
 const transactionSchema = new Schema({
   book: {
     type: Schema.Types.ObjectId,
     ref: 'Book',
     required: true
   },
+  bundle: [{
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['requested', 'accepted', 'declined'],
+      default: 'requested'
+    },
+    _id: false
+  }],
+  offeredBooks: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Book'
+  }],
+  acceptedOfferBook: {
+    type: Schema.Types.ObjectId,
+    ref: 'Book'
+  },
   requester: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -47,47 +167,117 @@ const transactionSchema = new Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'accepted', 'rejected', 'modified', 'completed', 'cancelled'],
+    enum: ['queued', 'pending', 'accepted', 'rejected', 'modified', 'completed', 'cancelled', 'expired'],
     default: 'pending'
   },
-  terms: {
-    deliveryMethod: {
-      type: String,
-      required: true,
-      enum: ['in-person', 'courier', 'mail']
-    },
-    duration: {
+  terms: termsDefinition,
+  termsVersion: {
+    type: Number,
+    default: 1
+  },
+  termsRevisions: [{
+    version: {
       type: Number,
-      required: true,
-      min: 1,
-      max: 90
+      required: true
     },
-    location: String,
-    additionalNotes: String
-  },
-  messages: [{
-    sender: {
+    terms: termsDefinition,
+    proposedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true
     },
-    content: {
+    previousStatus: {
       type: String,
-      required: true
+      enum: ['queued', 'pending', 'accepted', 'rejected', 'modified', 'completed', 'cancelled', 'expired']
     },
+    acceptedAt: Date,
     createdAt: {
       type: Date,
       default: Date.now
-    },
-    read: {
-      type: Boolean,
-      default: false
-    },
-    notified: {
-      type: Boolean,
-      default: false
     }
   }],
+  handover: {
+    ownerConfirmedAt: Date,
+    requesterConfirmedAt: Date,
+    _id: false
+  },
+  loan: {
+    dueDate: Date,
+    returnedAt: Date,
+    overdueAt: Date,
+    dueSoonReminderSentAt: Date,
+    overdueReminderSentAt: Date,
+    _id: false
+  },
+  meetup: {
+    slots: [meetupSlotDefinition],
+    proposedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    proposedAt: Date,
+    confirmed: {
+      type: new Schema(meetupSlotDefinition, { _id: false }),
+      default: undefined
+    },
+    confirmedAt: Date,
+    rescheduleCount: {
+      type: Number,
+      default: 0
+    },
+    reminderSentAt: Date,
+    _id: false
+  },
+  shipment: {
+    carrier: {
+      type: String,
+      trim: true,
+      maxLength: 100
+    },
+    trackingNumber: {
+      type: String,
+      trim: true,
+      maxLength: 100
+    },
+    dispatchedAt: Date,
+    status: {
+      type: String,
+      enum: ['dispatched', 'in-transit', 'delivered']
+    },
+    deliveredAt: Date,
+    events: [{
+      status: {
+        type: String,
+        enum: ['dispatched', 'in-transit', 'delivered'],
+        required: true
+      },
+      note: {
+        type: String,
+        trim: true,
+        maxLength: 500
+      },
+      recordedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+      },
+      createdAt: {
+        type: Date,
+        default: Date.now
+      },
+      _id: false
+    }],
+    _id: false
+  },
+  swapCycle: {
+    type: Schema.Types.ObjectId,
+    ref: 'SwapCycle'
+  },
+  dispute: {
+    type: Schema.Types.ObjectId,
+    ref: 'Dispute',
+    default: null
+  },
   lastModifiedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -99,6 +289,9 @@ const transactionSchema = new Schema({
 
 transactionSchema.index({ requester: 1, status: 1 });
 transactionSchema.index({ owner: 1, status: 1 });
-transactionSchema.index({ book: 1 });
+transactionSchema.index({ book: 1, status: 1, createdAt: 1 });
+transactionSchema.index({ 'bundle.book': 1, status: 1 });
+transactionSchema.index({ status: 1, 'loan.dueDate': 1 });
+transactionSchema.index({ status: 1, 'meetup.confirmed.startsAt': 1 });
 
 export default mongoose.model<ITransaction>('Transaction', transactionSchema);
\ No newline at end of file
@@ -1,5 +1,32 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Languages emails can be written in
+export const LANGUAGES = ['en', 'hi', 'ta', 'te', 'kn'] as const;
+export type PreferredLanguage = typeof LANGUAGES[number];
+
+// Where a notification may be delivered
+export interface INotificationChannels {
+  email: boolean;
+  inApp: boolean;
+  push: boolean;
+}
+
+// Times are HH:mm; a window such as 22:00-07:00 runs past midnight
+export interface IQuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface INotificationPreferences {
+  newRequest: INotificationChannels;
+  statusChange: INotificationChannels;
+  message: INotificationChannels;
+  reminder: INotificationChannels;
+  digest: INotificationChannels;
+  quietHours: IQuietHours;
+}
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   email: string;
@@ -11,13 +38,26 @@ export interface IUser extends Document {
   preferences: {
     genres: string[];
   };
+  notificationPreferences: INotificationPreferences;
+  preferredLanguage: PreferredLanguage;
+  // Listings the user would like to receive; used to find swap cycles
+  wishlist: mongoose.Types.ObjectId[];
   securityAnswers: string[];
   reputation?: number;
+  role: 'user' | 'admin';
   createdAt: Date;
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
 }
 
+const notificationChannelsSchema = new Schema({
+  email: { type: Boolean, default: true },
+  inApp: { type: Boolean, default: true },
+  push: { type: Boolean, default: false }
+}, { _id: false });
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 const userSchema = new Schema({
   email: { 
     type: String, 
@@ -53,6 +93,28 @@ const userSchema = new Schema({
     }],
     _id: false
   },
+  notificationPreferences: {
+    newRequest: { type: notificationChannelsSchema, default: () => ({}) },
+    statusChange: { type: notificationChannelsSchema, default: () => ({}) },
+    message: { type: notificationChannelsSchema, default: () => ({}) },
+    reminder: { type: notificationChannelsSchema, default: () => ({}) },
+    digest: { type: notificationChannelsSchema, default: () => ({}) },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00', match: TIME_OF_DAY },
+      end: { type: String, default: '07:00', match: TIME_OF_DAY }
+    },
+    _id: false
+  },
+  preferredLanguage: {
+    type: String,
+    enum: LANGUAGES,
+    default: 'en'
+  },
+  wishlist: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Book'
+  }],
   securityAnswers: {
     type: [String],
     required: true,
@@ -62,6 +124,11 @@ const userSchema = new Schema({
     type: Number,
     default: 0
   },
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user'
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import { getOutbox, clearOutbox } from '../controllers/devController';
+
+// Development helpers; only mounted when ENABLE_DEV_ROUTES is true
+const router = Router();
+
+router.use(auth);
+
+router.get('/outbox', getOutbox);
+router.delete('/outbox', clearOutbox);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { auth, requireAdmin } from '../middleware/auth';
+import {
+  openDispute,
+  addDisputeComment,
+  getTransactionDisputes,
+  getDisputeEvidence,
+  listDisputes,
+  resolveDispute
+} from '../controllers/disputeController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+router.use(auth);
+
+router.post('/', authHandler(openDispute));
+router.get('/transaction/:transactionId', authHandler(getTransactionDisputes));
+router.post('/:disputeId/comments', authHandler(addDisputeComment));
+router.get('/:disputeId/evidence/:photoIndex', authHandler(getDisputeEvidence));
+
+// Admin routes
+router.get('/', requireAdmin, authHandler(listDisputes));
+router.post('/:disputeId/resolve', requireAdmin, authHandler(resolveDispute));
+
+export default router;
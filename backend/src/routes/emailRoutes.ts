@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { auth, requireAdmin } from '../middleware/auth';
+import { getFailedEmails, resendFailedEmail } from '../controllers/emailController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Admin routes
+router.use(auth, requireAdmin);
+
+router.get('/failed', authHandler(getFailedEmails));
+router.post('/:emailId/resend', authHandler(resendFailedEmail));
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notificationController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+router.use(auth);
+
+router.get('/', authHandler(getNotifications));
+router.get('/unread', authHandler(getUnreadNotificationCount));
+router.patch('/read-all', authHandler(markAllNotificationsRead));
+router.patch('/:notificationId/read', authHandler(markNotificationRead));
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { streamAuth } from '../middleware/auth';
+import { streamEvents } from '../controllers/realtimeController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+router.use(streamAuth);
+
+router.get('/stream', authHandler(streamEvents));
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  createReview,
+  updateReview,
+  getTransactionReviews,
+  getUserReviews
+} from '../controllers/reviewController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+router.use(auth);
+
+router.post('/', authHandler(createReview));
+router.patch('/:reviewId', authHandler(updateReview));
+router.get('/transaction/:transactionId', authHandler(getTransactionReviews));
+router.get('/user/:userId', authHandler(getUserReviews));
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  getMySwaps,
+  acceptSwap,
+  declineSwap
+} from '../controllers/swapController';
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/custom';
+
+const router = Router();
+
+const authHandler = (handler: (req: AuthRequest, res: Response) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handler(req as AuthRequest, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+router.use(auth);
+
+router.get('/', authHandler(getMySwaps));
+router.post('/:cycleId/accept', authHandler(acceptSwap));
+router.post('/:cycleId/decline', authHandler(declineSwap));
+
+export default router;
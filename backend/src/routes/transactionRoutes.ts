@@ -5,12 +5,26 @@ import { Request, Response, NextFunction } from 'express';
 import {
   createExchangeRequest,
   updateExchangeStatus,
+  acceptTermsRevision,
+  proposeMeetup,
+  confirmMeetup,
+  dispatchShipment,
+  updateShipmentStatus,
+  confirmDelivery,
+  confirmHandover,
+  confirmReturn,
+  getDueLoans,
   getSentRequests,
   getReceivedRequests,
   getUserExchanges,
   getExchangeDetails,
+  getExchangeHistory,
   getUnreadCount,
-  addMessage
+  getMessages,
+  addMessage,
+  markMessagesRead,
+  getMessageAttachment,
+  sendTypingSignal
 } from '../controllers/transactionController';
 
 const router = Router();
@@ -31,14 +45,28 @@ router.use(auth);
 
 // Exchange request routes
 router.post('/request', authHandler(createExchangeRequest));
-router.patch('/:requestId/status', authHandler(updateExchangeStatus));
+router.patch('/:exchangeId/status', authHandler(updateExchangeStatus));
+router.post('/:exchangeId/terms/:version/accept', authHandler(acceptTermsRevision));
+router.post('/:exchangeId/meetup', authHandler(proposeMeetup));
+router.post('/:exchangeId/meetup/confirm', authHandler(confirmMeetup));
+router.post('/:exchangeId/shipment', authHandler(dispatchShipment));
+router.post('/:exchangeId/shipment/status', authHandler(updateShipmentStatus));
+router.post('/:exchangeId/shipment/delivered', authHandler(confirmDelivery));
+router.post('/:exchangeId/handover/confirm', authHandler(confirmHandover));
+router.post('/:exchangeId/return', authHandler(confirmReturn));
+router.get('/:exchangeId/messages', authHandler(getMessages));
 router.post('/:exchangeId/messages', addMessage);
+router.post('/:exchangeId/messages/read', authHandler(markMessagesRead));
+router.get('/:exchangeId/messages/:messageId/attachments/:attachmentId', authHandler(getMessageAttachment));
+router.post('/:exchangeId/typing', authHandler(sendTypingSignal));
 
 // Request listing routes
 router.get('/sent', authHandler(getSentRequests));
 router.get('/received', authHandler(getReceivedRequests));
 router.get('/user', authHandler(getUserExchanges));
+router.get('/loans/due', authHandler(getDueLoans));
 router.get('/:exchangeId', authHandler(getExchangeDetails));
+router.get('/:exchangeId/history', authHandler(getExchangeHistory));
 router.get('/notifications/unread', authHandler(getUnreadCount));
 
 export default router;
\ No newline at end of file
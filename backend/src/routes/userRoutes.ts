@@ -4,7 +4,11 @@ import {
   getUserStats,
   updateProfile,
   updateProfileImage,
+  getPreferences,
   updatePreferences,
+  getWishlist,
+  addToWishlist,
+  removeFromWishlist,
   deleteAccount,
   updateProfilePassword
 } from '../controllers/userController';
@@ -28,7 +32,11 @@ router.use(auth);
 router.get('/stats', authHandler(getUserStats));
 router.patch('/profile', authHandler(updateProfile));
 router.post('/profile/image', authHandler(updateProfileImage));
+router.get('/preferences', authHandler(getPreferences));
 router.patch('/preferences', authHandler(updatePreferences));
+router.get('/wishlist', authHandler(getWishlist));
+router.post('/wishlist/:bookId', authHandler(addToWishlist));
+router.delete('/wishlist/:bookId', authHandler(removeFromWishlist));
 router.delete('/account', authHandler(deleteAccount));
 router.patch('/profile/password', auth, authHandler(updateProfilePassword));
 
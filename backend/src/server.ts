@@ -6,6 +6,19 @@ import authRoutes from './routes/authRoutes';
 import bookRoutes from './routes/bookRoutes';
 import transactionRoutes from './routes/transactionRoutes';
 import userRoutes from './routes/userRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import disputeRoutes from './routes/disputeRoutes';
+import swapRoutes from './routes/swapRoutes';
+import realtimeRoutes from './routes/realtimeRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import emailRoutes from './routes/emailRoutes';
+import devRoutes from './routes/devRoutes';
+import { startLoanReminderJob } from './jobs/loanReminders';
+import { startRequestExpiryJob } from './jobs/requestExpiry';
+import { startMeetupReminderJob } from './jobs/meetupReminders';
+import { startSwapMatchingJob } from './jobs/swapMatching';
+import { startMessageDigestJob } from './jobs/messageDigest';
+import { startEmailQueueJob } from './jobs/emailQueue';
 
 
 dotenv.config();
@@ -22,13 +35,30 @@ app.use(cors({
 app.use(express.json());
 
 mongoose.connect(process.env.MONGODB_URI!)
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    startLoanReminderJob();
+    startRequestExpiryJob();
+    startMeetupReminderJob();
+    startSwapMatchingJob();
+    startMessageDigestJob();
+    startEmailQueueJob();
+  })
   .catch(err => console.error('MongoDB connection error:', err));
 
 app.use('/api/auth', authRoutes);
 app.use('/api/books', bookRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/swaps', swapRoutes);
+app.use('/api/realtime', realtimeRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/emails', emailRoutes);
+if (process.env.ENABLE_DEV_ROUTES === 'true') {
+  app.use('/api/dev', devRoutes);
+}
 app.use('/uploads', express.static('uploads'));
 
 // Error handling middleware
@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import { IBundleBook, ITransaction } from '../models/Transaction';
+
+export const MAX_BUNDLE_BOOKS = 10;
+
+// Returns the validated ids of a multi-book request, or an error message describing what is wrong
+export const parseBundleBookIds = (bookIds: any): { bookIds?: Types.ObjectId[]; error?: string } => {
+  if (!Array.isArray(bookIds) || bookIds.some(id => !Types.ObjectId.isValid(id))) {
+    return { error: 'Invalid books' };
+  }
+
+  const unique = Array.from(new Set(bookIds.map(String)));
+  if (unique.length < 2) {
+    return { error: 'A bundle needs at least two different books' };
+  }
+
+  if (unique.length > MAX_BUNDLE_BOOKS) {
+    return { error: `A bundle can include at most ${MAX_BUNDLE_BOOKS} books` };
+  }
+
+  return { bookIds: unique.map(id => new Types.ObjectId(id)) };
+};
+
+// The books a request still asks for: the bundle books the owner has not declined, or its single book
+export const getRequestedBookIds = (transaction: Pick<ITransaction, 'book' | 'bundle'>): Types.ObjectId[] =>
+  transaction.bundle?.length
+    ? transaction.bundle.filter(item => item.status !== 'declined').map(item => item.book)
+    : [transaction.book];
+
+// Splits a bundle into the books the owner accepts and the ones declined; all of them when no subset is given
+export const selectBundleBooks = (
+  bundle: IBundleBook[],
+  acceptedBookIds: any
+): { accepted?: Types.ObjectId[]; declined?: Types.ObjectId[]; error?: string } => {
+  if (acceptedBookIds === undefined) {
+    return { accepted: bundle.map(item => item.book), declined: [] };
+  }
+
+  if (!Array.isArray(acceptedBookIds) || acceptedBookIds.length === 0) {
+    return { error: 'Choose at least one book to accept' };
+  }
+
+  const chosen = new Set(acceptedBookIds.map(String));
+  if (Array.from(chosen).some(id => !bundle.some(item => item.book.toString() === id))) {
+    return { error: 'Accepted books must be part of this request' };
+  }
+
+  return {
+    accepted: bundle.filter(item => chosen.has(item.book.toString())).map(item => item.book),
+    declined: bundle.filter(item => !chosen.has(item.book.toString())).map(item => item.book)
+  };
+};
@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import EmailJob, { IEmailJob } from '../models/EmailJob';
+import { getEmailTransport } from './emailTransport';
+
+const MINUTE_MS = 60 * 1000;
+const RETRY_BASE_DELAY_MS = MINUTE_MS;
+const MAX_RETRY_DELAY_MS = 6 * 60 * MINUTE_MS;
+// A worker that stopped mid-send leaves its claim behind; the email is picked up again after this long
+const SEND_LOCK_TIMEOUT_MS = 5 * MINUTE_MS;
+const DEFAULT_BATCH_SIZE = 50;
+
+// Attempts after which an email is moved to the failed (dead letter) state
+export const EMAIL_MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '', 10) || 5;
+
+export interface QueuedEmail {
+  to: string;
+  type: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export type RetryPlan =
+  | { status: 'pending'; nextAttemptAt: Date }
+  | { status: 'failed' };
+
+export const enqueueEmail = (email: QueuedEmail): Promise<IEmailJob> => EmailJob.create(email);
+
+// The wait doubles after every failed attempt: 1, 2, 4, 8... minutes, up to six hours
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+// What happens to an email once its latest attempt has failed
+export const planRetry = (attempts: number, now: Date, maxAttempts: number = EMAIL_MAX_ATTEMPTS): RetryPlan =>
+  attempts >= maxAttempts
+    ? { status: 'failed' }
+    : { status: 'pending', nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)) };
+
+// Claim the next due email so two workers never send the same one
+const claimNextEmail = (now: Date) => EmailJob.findOneAndUpdate(
+  {
+    $or: [
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { status: 'sending', lockedAt: { $lte: new Date(now.getTime() - SEND_LOCK_TIMEOUT_MS) } }
+    ]
+  },
+  { status: 'sending', lockedAt: now },
+  { sort: { nextAttemptAt: 1 }, new: true }
+);
+
+const deliverEmail = async (job: IEmailJob, now: Date): Promise<boolean> => {
+  job.attempts += 1;
+  job.lockedAt = undefined;
+
+  try {
+    await getEmailTransport().send({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to: job.to,
+      subject: job.subject,
+      html: job.html,
+      text: job.text
+    });
+    job.status = 'sent';
+    job.sentAt = now;
+    await job.save();
+    console.log(`Email sent successfully to ${job.to}`);
+    return true;
+  } catch (err) {
+    console.error('Email delivery failed:', job._id, job.type, err);
+    job.lastError = err instanceof Error ? err.message : String(err);
+    const plan = planRetry(job.attempts, now);
+    job.status = plan.status;
+    if (plan.status === 'pending') job.nextAttemptAt = plan.nextAttemptAt;
+    await job.save();
+    return false;
+  }
+};
+
+// Send the emails that are due; resolves to how many went out
+export const processEmailQueue = async (now: Date = new Date(), batchSize: number = DEFAULT_BATCH_SIZE): Promise<number> => {
+  let sentCount = 0;
+
+  for (let i = 0; i < batchSize; i++) {
+    const job = await claimNextEmail(now);
+    if (!job) break;
+    if (await deliverEmail(job, now)) sentCount++;
+  }
+
+  return sentCount;
+};
+
+// Give a dead-lettered email a fresh set of attempts
+export const resendEmail = (emailId: Types.ObjectId | string) => EmailJob.findOneAndUpdate(
+  { _id: emailId, status: 'failed' },
+  { status: 'pending', attempts: 0, nextAttemptAt: new Date(), $unset: { lastError: 1 } },
+  { new: true }
+);
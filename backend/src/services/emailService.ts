@@ -1,35 +1,41 @@
-import nodemailer from 'nodemailer';
-import { emailTemplates } from '../utils/emailTemplates';
+import { Types } from 'mongoose';
+import { EmailData, EmailType, renderEmail } from '../utils/emailTemplates';
+import { IUser, PreferredLanguage } from '../models/User';
+import { NotificationEvent, shouldNotify } from './notificationPreferences';
+import { enqueueEmail } from './emailQueue';
 
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS
-  }
-});
+// Fields to load on a user before emailing them with sendNotificationEmail
+export const EMAIL_RECIPIENT_FIELDS = 'name email notificationPreferences preferredLanguage';
 
-type EmailType = keyof typeof emailTemplates;
+// Opens the exchange in the app, the same target as the in-app notifications
+export const getExchangeLink = (exchangeId: Types.ObjectId | string) =>
+  `${process.env.FRONTEND_URL || 'http://localhost:3000'}/exchanges?exchange=${exchangeId}`;
 
+// Queues the email for the worker, which retries failed deliveries; resolves once it is stored
 export const sendEmail = async <T extends EmailType>(
   to: string,
   type: T,
-  data: Parameters<typeof emailTemplates[T]>[0]
+  data: EmailData<T>,
+  language: PreferredLanguage = 'en'
 ) => {
   try {
-    const template = emailTemplates[type](data);
-    
-    await transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to,
-      subject: template.subject,
-      html: template.html
-    });
-
-    console.log(`Email sent successfully to ${to}`);
+    const { subject, html, text } = renderEmail(type, data, language);
+    await enqueueEmail({ to, type, subject, html, text });
     return true;
   } catch (error) {
-    console.error('Email sending failed:', error);
+    console.error('Email queueing failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Emails about exchanges respect the recipient's notification preferences; resolves to whether the email went out
+export const sendNotificationEmail = async <T extends EmailType>(
+  user: Pick<IUser, 'email' | 'notificationPreferences' | 'preferredLanguage'>,
+  event: NotificationEvent,
+  type: T,
+  data: EmailData<T>,
+  now: Date = new Date()
+): Promise<boolean> => {
+  if (!shouldNotify(user.notificationPreferences, event, 'email', now)) return false;
+  return sendEmail(user.email, type, data, user.preferredLanguage);
+};
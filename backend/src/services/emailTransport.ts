@@ -0,0 +1,121 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type EmailTransportKind = 'smtp' | 'file' | 'memory';
+
+export interface OutgoingEmail {
+  from?: string;
+  to: string;
+  subject: string;
+  html: string;
+  // Plain text alternative for clients that do not show HTML
+  text?: string;
+}
+
+export interface CapturedEmail extends OutgoingEmail {
+  id: string;
+  sentAt: string;
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind;
+  send(email: OutgoingEmail): Promise<void>;
+  // Only transports that keep what they send can be browsed and cleared
+  list?(): Promise<CapturedEmail[]>;
+  clear?(): Promise<void>;
+}
+
+const DEFAULT_OUTBOX_DIR = 'outbox';
+
+const capture = (email: OutgoingEmail, now: Date): CapturedEmail => ({
+  id: randomUUID(),
+  sentAt: now.toISOString(),
+  ...email
+});
+
+const newestFirst = (a: CapturedEmail, b: CapturedEmail) => b.sentAt.localeCompare(a.sentAt);
+
+// A named service such as gmail when EMAIL_SERVICE is set, otherwise any SMTP server
+export const createSmtpTransport = (env: NodeJS.ProcessEnv = process.env): EmailTransport => {
+  const auth = { user: env.EMAIL_USER, pass: env.EMAIL_PASS };
+  const transporter = env.SMTP_HOST
+    ? nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '587', 10),
+      secure: env.SMTP_SECURE === 'true',
+      auth
+    })
+    : nodemailer.createTransport({ service: env.EMAIL_SERVICE || 'gmail', auth });
+
+  return {
+    kind: 'smtp',
+    send: async (email) => {
+      await transporter.sendMail(email);
+    }
+  };
+};
+
+// Writes each email to its own JSON file so development never needs a mail account
+export const createFileTransport = (dir: string = DEFAULT_OUTBOX_DIR): EmailTransport => ({
+  kind: 'file',
+  send: async (email) => {
+    const captured = capture(email, new Date());
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${captured.id}.json`), JSON.stringify(captured, null, 2));
+  },
+  list: async () => {
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    const emails = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as CapturedEmail));
+    return emails.sort(newestFirst);
+  },
+  clear: async () => {
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.unlink(path.join(dir, file))));
+  }
+});
+
+export const createMemoryTransport = (): EmailTransport => {
+  let emails: CapturedEmail[] = [];
+
+  return {
+    kind: 'memory',
+    send: async (email) => {
+      emails.push(capture(email, new Date()));
+    },
+    list: async () => [...emails].sort(newestFirst),
+    clear: async () => {
+      emails = [];
+    }
+  };
+};
+
+// EMAIL_TRANSPORT picks the transport; emails go out over SMTP unless it is set to file or memory
+export const createEmailTransport = (env: NodeJS.ProcessEnv = process.env): EmailTransport => {
+  const kind = env.EMAIL_TRANSPORT || 'smtp';
+
+  switch (kind) {
+    case 'smtp': return createSmtpTransport(env);
+    case 'file': return createFileTransport(env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    case 'memory': return createMemoryTransport();
+    default: throw new Error(`Unknown email transport: ${kind}`);
+  }
+};
+
+let transport: EmailTransport | undefined;
+
+// Created on first use so the settings from .env have been loaded by then
+export const getEmailTransport = (): EmailTransport => {
+  transport ??= createEmailTransport();
+  return transport;
+};
+
+// Lets tests swap in a transport they can inspect
+export const setEmailTransport = (next: EmailTransport) => {
+  transport = next;
+};
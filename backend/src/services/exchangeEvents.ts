@@ -0,0 +1,45 @@
+import { Types } from 'mongoose';
+import ExchangeEvent, { ExchangeEventType } from '../models/ExchangeEvent';
+import Transaction from '../models/Transaction';
+import { isUserConnected, publishToUsers } from './realtime';
+
+interface ExchangeEventInput {
+  transaction: Types.ObjectId;
+  type: ExchangeEventType;
+  actor?: Types.ObjectId;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  note?: string;
+}
+
+// Append an entry to the exchange audit trail; a failed write is logged rather than failing the change it records
+export const recordExchangeEvent = async (event: ExchangeEventInput): Promise<void> => {
+  try {
+    await ExchangeEvent.create(event);
+  } catch (err) {
+    console.error('Failed to record exchange event:', event.type, event.transaction, err);
+  }
+
+  // New messages are pushed on their own when posted
+  if (event.type !== 'message') await publishExchangeChange(event.transaction, event.type);
+};
+
+// Let connected participants know the exchange changed so they can refresh it
+const publishExchangeChange = async (transactionId: Types.ObjectId, type: ExchangeEventType) => {
+  try {
+    const transaction = await Transaction.findById(transactionId, 'requester owner status');
+    if (!transaction) return;
+
+    const participants = [transaction.requester, transaction.owner];
+    if (!participants.some(isUserConnected)) return;
+
+    publishToUsers(participants, {
+      type: 'exchange',
+      exchangeId: transaction._id.toString(),
+      status: transaction.status,
+      event: type
+    });
+  } catch (err) {
+    console.error('Failed to publish exchange change:', transactionId, err);
+  }
+};
@@ -0,0 +1,88 @@
+import { TransactionStatus } from '../models/Transaction';
+import { BookStatus } from '../models/Book';
+
+export type ExchangeRole = 'owner' | 'requester';
+
+export const TRANSACTION_STATUSES: TransactionStatus[] = [
+  'queued',
+  'pending',
+  'accepted',
+  'rejected',
+  'modified',
+  'completed',
+  'cancelled',
+  'expired'
+];
+
+// Legal moves out of each status and which party may make them; exchanges sent to
+// the client carry the moves open to the user asking as allowedStatuses
+export const EXCHANGE_TRANSITIONS: Record<TransactionStatus, Partial<Record<TransactionStatus, ExchangeRole[]>>> = {
+  // Waiting behind another request for the same book; promoted to pending when that one is closed
+  queued: {
+    pending: [],
+    rejected: ['owner'],
+    cancelled: ['requester']
+  },
+  // Open requests expire on their own when nobody acts on them (see jobs/requestExpiry)
+  pending: {
+    accepted: ['owner'],
+    rejected: ['owner'],
+    modified: ['owner', 'requester'],
+    cancelled: ['requester'],
+    expired: []
+  },
+  // A modified exchange only resumes once the other party accepts the latest
+  // terms revision, which restores the status it had before the proposal
+  modified: {
+    modified: ['owner', 'requester'],
+    rejected: ['owner'],
+    cancelled: ['owner', 'requester'],
+    expired: []
+  },
+  // Completion is not set directly: it happens once both parties confirm the handover
+  accepted: {
+    modified: ['owner', 'requester'],
+    completed: [],
+    cancelled: ['owner', 'requester'],
+    expired: []
+  },
+  rejected: {},
+  completed: {},
+  cancelled: {},
+  expired: {}
+};
+
+// Statuses in which a request holds the book, as opposed to waiting in its queue or being closed
+export const ACTIVE_STATUSES: TransactionStatus[] = ['pending', 'modified', 'accepted'];
+
+// Book status to apply when a transaction enters a given status
+const BOOK_STATUS_ON_ENTER: Partial<Record<TransactionStatus, BookStatus>> = {
+  pending: 'pending',
+  accepted: 'pending',
+  rejected: 'available',
+  cancelled: 'available',
+  expired: 'available',
+  completed: 'exchanged'
+};
+
+export const isTransactionStatus = (value: unknown): value is TransactionStatus =>
+  typeof value === 'string' && TRANSACTION_STATUSES.includes(value as TransactionStatus);
+
+export const getAllowedTransitions = (from: TransactionStatus, role: ExchangeRole): TransactionStatus[] => {
+  const moves = EXCHANGE_TRANSITIONS[from] || {};
+  return (Object.keys(moves) as TransactionStatus[]).filter(to => moves[to]?.includes(role));
+};
+
+export const canTransition = (from: TransactionStatus, to: TransactionStatus, role: ExchangeRole): boolean =>
+  getAllowedTransitions(from, role).includes(to);
+
+// Whether a move exists at all, including ones no party can request directly
+export const isLegalTransition = (from: TransactionStatus, to: TransactionStatus): boolean =>
+  !!EXCHANGE_TRANSITIONS[from]?.[to];
+
+// Roles allowed to make a move regardless of who is asking, empty if the move is illegal
+export const getTransitionRoles = (from: TransactionStatus, to: TransactionStatus): ExchangeRole[] =>
+  EXCHANGE_TRANSITIONS[from]?.[to] || [];
+
+export const getBookStatusFor = (status: TransactionStatus): BookStatus | undefined =>
+  BOOK_STATUS_ON_ENTER[status];
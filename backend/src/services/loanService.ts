@@ -0,0 +1,25 @@
+import { ITransaction } from '../models/Transaction';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many days before the due date a loan counts as "due soon"
+export const LOAN_DUE_SOON_DAYS = parseInt(process.env.LOAN_DUE_SOON_DAYS || '', 10) || 2;
+
+export type LoanState = 'none' | 'on-loan' | 'due-soon' | 'overdue' | 'returned';
+
+export const computeDueDate = (from: Date, durationDays: number): Date =>
+  new Date(from.getTime() + durationDays * DAY_MS);
+
+// A loan is running once the handover has completed the exchange, until the owner confirms its return
+export const isActiveLoan = (transaction: Pick<ITransaction, 'status' | 'loan'>): boolean =>
+  transaction.status === 'completed' && !!transaction.loan?.dueDate && !transaction.loan?.returnedAt;
+
+export const getLoanState = (transaction: Pick<ITransaction, 'status' | 'loan'>, now: Date = new Date()): LoanState => {
+  if (transaction.loan?.returnedAt) return 'returned';
+  if (!isActiveLoan(transaction)) return 'none';
+
+  const dueTime = transaction.loan.dueDate!.getTime();
+  if (dueTime < now.getTime()) return 'overdue';
+  if (dueTime - now.getTime() <= LOAN_DUE_SOON_DAYS * DAY_MS) return 'due-soon';
+  return 'on-loan';
+};
@@ -0,0 +1,51 @@
+import { IMeetup, IMeetupSlot } from '../models/Transaction';
+
+const MINUTE_MS = 60 * 1000;
+
+export const MAX_MEETUP_SLOTS = 5;
+
+// How long before a confirmed meetup both parties get a reminder
+export const MEETUP_REMINDER_LEAD_MINUTES = 60;
+
+// Returns the validated slots, or an error message describing what is wrong
+export const parseMeetupSlots = (slots: any, now: Date = new Date()): { slots?: IMeetupSlot[]; error?: string } => {
+  if (!Array.isArray(slots) || slots.length === 0) {
+    return { error: 'Propose at least one meeting time' };
+  }
+
+  if (slots.length > MAX_MEETUP_SLOTS) {
+    return { error: `Propose at most ${MAX_MEETUP_SLOTS} meeting times` };
+  }
+
+  const parsed: IMeetupSlot[] = [];
+  for (const slot of slots) {
+    const startsAt = new Date(slot?.startsAt);
+    if (Number.isNaN(startsAt.getTime()) || startsAt.getTime() <= now.getTime()) {
+      return { error: 'Meeting times must be in the future' };
+    }
+
+    const place = typeof slot?.place === 'string' ? slot.place.trim() : '';
+    if (!place) {
+      return { error: 'Every meeting time needs a place' };
+    }
+
+    parsed.push({ startsAt, place });
+  }
+
+  return { slots: parsed.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime()) };
+};
+
+// Exchanges are local to Indian cities, so times are shown in IST
+export const formatMeetupSlot = (slot: IMeetupSlot): string =>
+  `${slot.startsAt.toLocaleString('en-IN', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'Asia/Kolkata'
+  })} at ${slot.place}`;
+
+export const isMeetupReminderDue = (meetup: Pick<IMeetup, 'confirmed' | 'reminderSentAt'> | undefined, now: Date = new Date()): boolean => {
+  if (!meetup?.confirmed || meetup.reminderSentAt) return false;
+
+  const untilStart = meetup.confirmed.startsAt.getTime() - now.getTime();
+  return untilStart > 0 && untilStart <= MEETUP_REMINDER_LEAD_MINUTES * MINUTE_MS;
+};
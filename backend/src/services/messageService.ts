@@ -0,0 +1,117 @@
+import { Types } from 'mongoose';
+import Message, { IMessage, IMessageAttachment } from '../models/Message';
+import Transaction, { ITransaction } from '../models/Transaction';
+import { isUserConnected, publishToUsers } from './realtime';
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export interface NewMessage {
+  sender: Types.ObjectId;
+  content: string;
+  attachments?: Omit<IMessageAttachment, '_id'>[];
+  createdAt?: Date;
+  read?: boolean;
+  notified?: boolean;
+  system?: boolean;
+}
+
+export interface MessageCursor {
+  _id: Types.ObjectId;
+  createdAt: Date;
+}
+
+// Number of exchanges with messages the user has not read yet
+export const countUnreadExchanges = async (userId: Types.ObjectId): Promise<number> => {
+  const transactions = await Transaction.find({
+    $or: [
+      { requester: userId },
+      { owner: userId }
+    ]
+  }, '_id');
+
+  const unreadExchanges = await Message.distinct('transaction', {
+    transaction: { $in: transactions.map(transaction => transaction._id) },
+    sender: { $ne: userId },
+    read: false
+  });
+  return unreadExchanges.length;
+};
+
+export const pushUnreadCount = async (userId: Types.ObjectId) => {
+  if (!isUserConnected(userId)) return;
+  publishToUsers([userId], { type: 'unread-count', unreadCount: await countUnreadExchanges(userId) });
+};
+
+// Push a new message to both participants and refresh the recipient's unread count
+const publishMessage = async (message: IMessage) => {
+  try {
+    const transaction = await Transaction.findById(message.transaction, 'requester owner');
+    if (!transaction) return;
+
+    const participants = [transaction.requester, transaction.owner];
+    if (!participants.some(isUserConnected)) return;
+    const recipient = message.sender.equals(transaction.owner) ? transaction.requester : transaction.owner;
+
+    await message.populate({ path: 'sender', select: 'name' });
+    publishToUsers(participants, {
+      type: 'message',
+      exchangeId: transaction._id.toString(),
+      message: message.toJSON()
+    });
+    await pushUnreadCount(recipient);
+  } catch (err) {
+    console.error('Failed to publish message:', message._id, err);
+  }
+};
+
+// Add a message to an exchange thread. The exchange's updatedAt is its last activity, which request expiry
+// relies on, so posting a message touches it even though the messages live in their own collection
+export const postMessage = async (transaction: Types.ObjectId, message: NewMessage) => {
+  const created = await Message.create({ transaction, ...message });
+  await Transaction.updateOne({ _id: transaction }, { $set: { updatedAt: new Date() } });
+  await publishMessage(created);
+  return created;
+};
+
+type DigestMessage = Pick<IMessage, 'transaction' | 'sender'>;
+type DigestTransaction = Pick<ITransaction, '_id' | 'requester' | 'owner'>;
+
+// Unread messages keyed by the participant they are waiting for, then by exchange; messages of unknown exchanges are left out
+export const groupMessagesForDigest = <T extends DigestMessage>(
+  messages: T[],
+  transactions: DigestTransaction[]
+): Map<string, Map<string, T[]>> => {
+  const transactionsById = new Map(transactions.map(transaction => [transaction._id.toString(), transaction]));
+  const digests = new Map<string, Map<string, T[]>>();
+
+  for (const message of messages) {
+    const transaction = transactionsById.get(message.transaction.toString());
+    if (!transaction) continue;
+
+    const recipient = message.sender.equals(transaction.owner) ? transaction.requester : transaction.owner;
+    const exchanges = digests.get(recipient.toString()) ?? new Map<string, T[]>();
+    const exchangeId = transaction._id.toString();
+    exchanges.set(exchangeId, [...(exchanges.get(exchangeId) ?? []), message]);
+    digests.set(recipient.toString(), exchanges);
+  }
+
+  return digests;
+};
+
+export const parseMessagePageSize = (limit: unknown): number => {
+  const size = parseInt(String(limit ?? ''), 10);
+  if (Number.isNaN(size) || size < 1) return DEFAULT_MESSAGE_PAGE_SIZE;
+  return Math.min(size, MAX_MESSAGE_PAGE_SIZE);
+};
+
+// Filter for the messages strictly older (before) or newer (after) than the cursor message
+export const buildMessageCursorFilter = (direction: 'before' | 'after', cursor: MessageCursor) => {
+  const op = direction === 'before' ? '$lt' : '$gt';
+  return {
+    $or: [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { [op]: cursor._id } }
+    ]
+  };
+};
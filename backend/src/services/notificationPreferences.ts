@@ -0,0 +1,130 @@
+import { INotificationChannels, INotificationPreferences, IQuietHours } from '../models/User';
+import { NotificationType } from '../models/Notification';
+
+export const NOTIFICATION_EVENTS = ['newRequest', 'statusChange', 'message', 'reminder', 'digest'] as const;
+export const NOTIFICATION_CHANNELS = ['email', 'inApp', 'push'] as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+const DEFAULT_CHANNELS: INotificationChannels = { email: true, inApp: true, push: false };
+const DEFAULT_QUIET_HOURS: IQuietHours = { enabled: false, start: '22:00', end: '07:00' };
+
+// Every supported city is in India, which keeps the same offset all year
+const IST_OFFSET_MINUTES = 5 * 60 + 30;
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Reviews are part of how an exchange wraps up, so they follow the status change settings
+const EVENT_BY_NOTIFICATION_TYPE: Record<NotificationType, NotificationEvent> = {
+  'exchange-request': 'newRequest',
+  'exchange-status': 'statusChange',
+  'message': 'message',
+  'loan-reminder': 'reminder',
+  'meetup-reminder': 'reminder',
+  'review': 'statusChange'
+};
+
+export const getNotificationEvent = (type: NotificationType): NotificationEvent => EVENT_BY_NOTIFICATION_TYPE[type];
+
+// Plain copy of the stored preferences with defaults for anything missing, e.g. accounts created before they existed
+export const resolveNotificationPreferences = (
+  preferences?: Partial<INotificationPreferences> | null
+): INotificationPreferences => {
+  const resolveChannels = (event: NotificationEvent): INotificationChannels => ({
+    email: preferences?.[event]?.email ?? DEFAULT_CHANNELS.email,
+    inApp: preferences?.[event]?.inApp ?? DEFAULT_CHANNELS.inApp,
+    push: preferences?.[event]?.push ?? DEFAULT_CHANNELS.push
+  });
+
+  return {
+    newRequest: resolveChannels('newRequest'),
+    statusChange: resolveChannels('statusChange'),
+    message: resolveChannels('message'),
+    reminder: resolveChannels('reminder'),
+    digest: resolveChannels('digest'),
+    quietHours: {
+      enabled: preferences?.quietHours?.enabled ?? DEFAULT_QUIET_HOURS.enabled,
+      start: preferences?.quietHours?.start ?? DEFAULT_QUIET_HOURS.start,
+      end: preferences?.quietHours?.end ?? DEFAULT_QUIET_HOURS.end
+    }
+  };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Apply a partial update from the client on top of the current preferences
+export const mergeNotificationPreferences = (
+  current: INotificationPreferences,
+  update: unknown
+): { preferences?: INotificationPreferences; error?: string } => {
+  if (!isPlainObject(update)) {
+    return { error: 'Notification preferences must be an object' };
+  }
+
+  const preferences = resolveNotificationPreferences(current);
+
+  for (const [key, value] of Object.entries(update)) {
+    if (key === 'quietHours') {
+      if (!isPlainObject(value)) {
+        return { error: 'Quiet hours must be an object' };
+      }
+      for (const [field, setting] of Object.entries(value)) {
+        if (field === 'enabled' && typeof setting === 'boolean') {
+          preferences.quietHours.enabled = setting;
+        } else if ((field === 'start' || field === 'end') && typeof setting === 'string' && TIME_OF_DAY.test(setting)) {
+          preferences.quietHours[field] = setting;
+        } else {
+          return { error: `Invalid quiet hours setting: ${field}` };
+        }
+      }
+      continue;
+    }
+
+    if (!(NOTIFICATION_EVENTS as readonly string[]).includes(key)) {
+      return { error: `Unknown notification type: ${key}` };
+    }
+    if (!isPlainObject(value)) {
+      return { error: `Channels for ${key} must be an object` };
+    }
+    for (const [channel, enabled] of Object.entries(value)) {
+      if (!(NOTIFICATION_CHANNELS as readonly string[]).includes(channel) || typeof enabled !== 'boolean') {
+        return { error: `Invalid channel setting for ${key}: ${channel}` };
+      }
+      preferences[key as NotificationEvent][channel as NotificationChannel] = enabled;
+    }
+  }
+
+  return { preferences };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinQuietHours = (quietHours: IQuietHours | undefined, now: Date): boolean => {
+  if (!quietHours?.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  const localMinutes = (now.getUTCHours() * 60 + now.getUTCMinutes() + IST_OFFSET_MINUTES) % MINUTES_PER_DAY;
+  return start < end
+    ? localMinutes >= start && localMinutes < end
+    : localMinutes >= start || localMinutes < end;
+};
+
+// In-app notifications wait quietly in the list, so quiet hours only hold back email and push
+export const shouldNotify = (
+  preferences: Partial<INotificationPreferences> | null | undefined,
+  event: NotificationEvent,
+  channel: NotificationChannel,
+  now: Date = new Date()
+): boolean => {
+  const resolved = resolveNotificationPreferences(preferences);
+  if (!resolved[event][channel]) return false;
+  return channel === 'inApp' || !isWithinQuietHours(resolved.quietHours, now);
+};
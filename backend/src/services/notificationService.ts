@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import Notification, { INotification, NotificationType } from '../models/Notification';
+import { TransactionStatus } from '../models/Transaction';
+import User from '../models/User';
+import { isUserConnected, publishToUsers } from './realtime';
+import { getNotificationEvent, shouldNotify } from './notificationPreferences';
+
+export const NOTIFICATION_PAGE_SIZE = 50;
+
+export interface NotificationInput {
+  user: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  exchange?: Types.ObjectId;
+  book?: Types.ObjectId;
+}
+
+// Notification title for the party who did not make the status change
+export const describeStatusChange = (status: TransactionStatus, bookTitle: string, actorName = 'The other party'): string => {
+  switch (status) {
+    case 'accepted': return `${actorName} accepted your request for "${bookTitle}"`;
+    case 'rejected': return `Your request for "${bookTitle}" was declined`;
+    case 'cancelled': return `${actorName} withdrew their request for "${bookTitle}"`;
+    case 'modified': return `${actorName} proposed new terms for "${bookTitle}"`;
+    case 'completed': return `Your exchange of "${bookTitle}" is complete`;
+    case 'expired': return `The request for "${bookTitle}" expired`;
+    case 'pending': return `Your request for "${bookTitle}" is now first in line`;
+    default: return `The exchange for "${bookTitle}" is now ${status}`;
+  }
+};
+
+export const countUnreadNotifications = (userId: Types.ObjectId) =>
+  Notification.countDocuments({ user: userId, read: false });
+
+// New messages bump the exchange's unread message notification instead of stacking up
+const saveNotification = (input: NotificationInput): Promise<INotification | null> => {
+  if (input.type !== 'message' || !input.exchange) {
+    return Notification.create(input);
+  }
+
+  return Notification.findOneAndUpdate(
+    { user: input.user, type: 'message', exchange: input.exchange, read: false },
+    { $set: { title: input.title, body: input.body, book: input.book }, $inc: { count: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Store an in-app notification and push it to the user's open tabs, as far as their preferences allow;
+// failures are logged rather than failing the change that caused them
+export const notifyUser = async (input: NotificationInput): Promise<void> => {
+  try {
+    const user = await User.findById(input.user, 'notificationPreferences');
+    const event = getNotificationEvent(input.type);
+    const now = new Date();
+
+    if (shouldNotify(user?.notificationPreferences, event, 'inApp', now)) {
+      const notification = await saveNotification(input);
+      if (notification && isUserConnected(input.user)) {
+        publishToUsers([input.user], {
+          type: 'notification',
+          notification: notification.toJSON(),
+          unreadNotifications: await countUnreadNotifications(input.user)
+        });
+      }
+    }
+
+    // There is no push service yet, so push reaches the browser through the user's open tabs
+    if (shouldNotify(user?.notificationPreferences, event, 'push', now) && isUserConnected(input.user)) {
+      publishToUsers([input.user], {
+        type: 'push',
+        title: input.title,
+        body: input.body,
+        exchangeId: input.exchange?.toString()
+      });
+    }
+  } catch (err) {
+    console.error('Failed to notify user:', input.type, input.user, err);
+  }
+};
@@ -0,0 +1,55 @@
+import { Types } from 'mongoose';
+import { ExchangeEventType } from '../models/ExchangeEvent';
+
+export type RealtimeEvent =
+  | { type: 'message'; exchangeId: string; message: unknown }
+  | { type: 'exchange'; exchangeId: string; status: string; event: ExchangeEventType }
+  | { type: 'messages-read'; exchangeId: string; messageIds: string[]; readAt: Date }
+  | { type: 'typing'; exchangeId: string; userId: string }
+  | { type: 'notification'; notification: unknown; unreadNotifications: number }
+  | { type: 'notification-count'; unreadNotifications: number }
+  | { type: 'push'; title: string; body?: string; exchangeId?: string }
+  | { type: 'unread-count'; unreadCount: number };
+
+// Anything an event can be written to; an Express response in production
+export interface RealtimeConnection {
+  write(chunk: string): unknown;
+}
+
+// Open event streams per user; a user may have several tabs connected
+const connections = new Map<string, Set<RealtimeConnection>>();
+
+export const formatServerSentEvent = (event: RealtimeEvent): string =>
+  `data: ${JSON.stringify(event)}\n\n`;
+
+export const addConnection = (userId: string, connection: RealtimeConnection) => {
+  const userConnections = connections.get(userId) ?? new Set<RealtimeConnection>();
+  userConnections.add(connection);
+  connections.set(userId, userConnections);
+};
+
+export const removeConnection = (userId: string, connection: RealtimeConnection) => {
+  const userConnections = connections.get(userId);
+  if (!userConnections) return;
+
+  userConnections.delete(connection);
+  if (userConnections.size === 0) connections.delete(userId);
+};
+
+export const isUserConnected = (userId: Types.ObjectId | string) => connections.has(userId.toString());
+
+// Push an event to every open stream of the given users; users without a stream are skipped
+export const publishToUsers = (userIds: (Types.ObjectId | string)[], event: RealtimeEvent) => {
+  const payload = formatServerSentEvent(event);
+  const recipients = new Set(userIds.map(String));
+
+  recipients.forEach(userId => {
+    connections.get(userId)?.forEach(connection => {
+      try {
+        connection.write(payload);
+      } catch (err) {
+        console.error('Failed to push realtime event:', event.type, userId, err);
+      }
+    });
+  });
+};
@@ -0,0 +1,41 @@
+import { Types } from 'mongoose';
+import Review from '../models/Review';
+import Dispute from '../models/Dispute';
+import User from '../models/User';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A review loses half of its weight every REPUTATION_HALF_LIFE_DAYS
+const REPUTATION_HALF_LIFE_DAYS = 180;
+
+// Recency-weighted average rating rounded to one decimal, 0 when there are no reviews
+export const computeReputation = (
+  reviews: { rating: number; createdAt: Date }[],
+  now: Date = new Date()
+): number => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const review of reviews) {
+    const ageDays = Math.max(0, now.getTime() - review.createdAt.getTime()) / DAY_MS;
+    const weight = Math.pow(0.5, ageDays / REPUTATION_HALF_LIFE_DAYS);
+    weightedSum += review.rating * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 10) / 10 : 0;
+};
+
+// Penalties from resolved disputes are subtracted from the review score, never below 0
+export const recomputeReputation = async (userId: Types.ObjectId): Promise<number> => {
+  const [reviews, disputes] = await Promise.all([
+    Review.find({ reviewee: userId }, 'rating createdAt'),
+    Dispute.find({ status: 'resolved', 'resolution.penalizedUser': userId }, 'resolution.reputationPenalty')
+  ]);
+  const penalty = disputes.reduce((sum, dispute) => sum + (dispute.resolution?.reputationPenalty || 0), 0);
+  const reputation = Math.max(0, Math.round((computeReputation(reviews) - penalty) * 10) / 10);
+
+  await User.updateOne({ _id: userId }, { reputation });
+
+  return reputation;
+};
@@ -0,0 +1,117 @@
+import { Types } from 'mongoose';
+import Transaction, { ITransaction, TransactionStatus } from '../models/Transaction';
+import Book from '../models/Book';
+import { getBookStatusFor } from './exchangeStateMachine';
+import { postMessage } from './messageService';
+import { getRequestedBookIds } from './bundleService';
+import { announceStatusChange } from './statusChangeService';
+
+// Apply the book status for an exchange status to the requested books and the accepted swap offer
+export const syncBookStatuses = async (transaction: ITransaction, status: TransactionStatus): Promise<void> => {
+  const bookStatus = getBookStatusFor(status);
+  if (!bookStatus) return;
+
+  const bookIds = [...getRequestedBookIds(transaction), transaction.acceptedOfferBook].filter(Boolean);
+  await Book.updateMany({ _id: { $in: bookIds } }, { status: bookStatus });
+};
+
+// Query matching requests that ask for any of the books, alone or as part of a bundle
+export const requestsForBooks = (bookIds: Types.ObjectId[]) => ({
+  $or: [
+    { book: { $in: bookIds } },
+    { bundle: { $elemMatch: { book: { $in: bookIds }, status: { $ne: 'declined' } } } }
+  ]
+});
+
+// Query matching requests a new one may still wait behind: open requests the owner has not accepted.
+// Accepting declines the queue and nothing promotes it after the handover, so later requests would wait forever
+export const QUEUEABLE_REQUEST = {
+  $or: [
+    { status: 'pending' },
+    // A change of terms proposed after acceptance keeps the exchange accepted
+    { status: 'modified', 'termsRevisions.previousStatus': { $ne: 'accepted' } }
+  ]
+};
+
+// Ids of the books a new request can still queue for: the book of a single-book request the owner
+// has not accepted. Books in a bundle, offered in a swap or held by an accepted exchange cannot be queued for
+export const getQueueableBookIds = async (bookIds?: Types.ObjectId[]): Promise<Set<string>> => {
+  const queueable = await Transaction.distinct('book', {
+    $and: [
+      QUEUEABLE_REQUEST,
+      { 'bundle.0': { $exists: false } },
+      ...(bookIds ? [{ book: { $in: bookIds } }] : [])
+    ]
+  });
+  return new Set(queueable.map(String));
+};
+
+// Put offered books that are no longer part of an exchange back on the shelf
+export const releaseOfferedBooks = async (bookIds: Types.ObjectId[]): Promise<void> => {
+  if (bookIds.length === 0) return;
+  await Book.updateMany({ _id: { $in: bookIds }, status: 'pending' }, { status: 'available' });
+};
+
+// Move the oldest queued request for a book to the front of the line
+export const promoteNextRequest = async (bookId: Types.ObjectId) => {
+  const next = await Transaction.findOne({ book: bookId, status: 'queued' }).sort({ createdAt: 1 });
+  if (!next) return null;
+
+  next.status = 'pending';
+  next.lastModifiedBy = next.owner;
+  await postMessage(next._id, {
+    sender: next.owner,
+    content: 'Your request is now first in line for this book',
+    createdAt: new Date(),
+    read: false,
+    notified: false,
+    system: true
+  });
+  await next.save();
+  await Book.updateOne({ _id: bookId }, { status: 'pending' });
+  await announceStatusChange({
+    transaction: next,
+    before: 'queued',
+    note: 'Promoted from the queue',
+    recipients: [next.requester]
+  });
+
+  return next;
+};
+
+// Decline every request still waiting for a book once another one has been accepted
+export const declineQueuedRequests = async (bookId: Types.ObjectId, declinedBy: Types.ObjectId): Promise<number> => {
+  const queued = await Transaction.find({ book: bookId, status: 'queued' });
+
+  for (const transaction of queued) {
+    transaction.status = 'rejected';
+    transaction.lastModifiedBy = declinedBy;
+    await postMessage(transaction._id, {
+      sender: declinedBy,
+      content: 'Another request for this book was accepted',
+      createdAt: new Date(),
+      read: false,
+      notified: false
+    });
+    await transaction.save();
+    await releaseOfferedBooks(transaction.offeredBooks);
+    await announceStatusChange({
+      transaction,
+      before: 'queued',
+      actor: declinedBy,
+      note: 'Another request for this book was accepted'
+    });
+  }
+
+  return queued.length;
+};
+
+// Number of queued requests per book id
+export const getQueueSizes = async (bookIds: Types.ObjectId[]): Promise<Map<string, number>> => {
+  const counts = await Transaction.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { book: { $in: bookIds }, status: 'queued' } },
+    { $group: { _id: '$book', count: { $sum: 1 } } }
+  ]);
+
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+};
@@ -0,0 +1,12 @@
+import { ITransaction, ShipmentStatus } from '../models/Transaction';
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = ['dispatched', 'in-transit', 'delivered'];
+
+// Shipments only move forward; delivered is recorded by the receiver
+export const canAdvanceShipment = (from: ShipmentStatus | undefined, to: ShipmentStatus): boolean => {
+  const fromIndex = from ? SHIPMENT_STATUSES.indexOf(from) : -1;
+  return SHIPMENT_STATUSES.indexOf(to) > fromIndex;
+};
+
+export const isShippedExchange = (transaction: Pick<ITransaction, 'terms'>): boolean =>
+  transaction.terms.deliveryMethod === 'courier' || transaction.terms.deliveryMethod === 'mail';
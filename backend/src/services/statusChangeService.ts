@@ -0,0 +1,108 @@
+import { Types } from 'mongoose';
+import { ITransaction, TransactionStatus } from '../models/Transaction';
+import Book from '../models/Book';
+import User from '../models/User';
+import { EMAIL_RECIPIENT_FIELDS, getExchangeLink, sendNotificationEmail } from './emailService';
+import { recordExchangeEvent } from './exchangeEvents';
+import { describeStatusChange, notifyUser } from './notificationService';
+
+// Status changes that are emailed and name the party who made them
+const STATUS_EMAILS = {
+  accepted: 'exchangeAccepted',
+  rejected: 'exchangeRejected',
+  cancelled: 'exchangeWithdrawn',
+  completed: 'exchangeCompleted'
+} as const;
+
+export interface StatusChangeInput {
+  // Already saved with its new status
+  transaction: ITransaction;
+  before: TransactionStatus;
+  // Who made the change; automatic changes have none
+  actor?: Types.ObjectId;
+  // Why the status changed; kept in the audit trail and shown with the notification
+  note?: string;
+  // More details for the audit trail
+  details?: Record<string, unknown>;
+  // Defaults to both parties except the one who made the change
+  recipients?: Types.ObjectId[];
+  // Replaces the usual notification title when the change needs explaining
+  title?: string;
+  // How long an expired request went without activity
+  inactiveDays?: number;
+}
+
+/**
+ * Every exchange status change goes through here so it is always recorded in
+ * the audit trail, notified in the app and emailed where there is a template
+ * for it. Failures are logged rather than failing the change itself.
+ */
+export const announceStatusChange = async (input: StatusChangeInput): Promise<void> => {
+  const { transaction, before, actor, note, details } = input;
+  const status = transaction.status;
+
+  await recordExchangeEvent({
+    transaction: transaction._id,
+    type: 'status-changed',
+    actor,
+    before: { status: before },
+    after: { status, ...details },
+    note
+  });
+
+  const recipients = input.recipients
+    || [transaction.owner, transaction.requester].filter(party => !actor || !party.equals(actor));
+
+  const [book, owner, requester] = await Promise.all([
+    Book.findById(transaction.book, 'title'),
+    User.findById(transaction.owner, EMAIL_RECIPIENT_FIELDS),
+    User.findById(transaction.requester, EMAIL_RECIPIENT_FIELDS)
+  ]);
+  const bookTitle = book?.title || 'a book';
+  const parties = [owner, requester].filter((party): party is NonNullable<typeof party> => !!party);
+  const actorParty = actor && parties.find(party => party._id.equals(actor));
+
+  // Accepting a counter-offer resumes the exchange at the status its parties were already told about
+  const resumed = before === 'modified' && (status === 'pending' || status === 'accepted');
+  const title = input.title || (resumed
+    ? `${actorParty?.name || 'The other party'} accepted the revised terms for "${bookTitle}"`
+    : describeStatusChange(status, bookTitle, actorParty?.name));
+
+  await Promise.all(recipients.map(user => notifyUser({
+    user,
+    type: 'exchange-status',
+    title,
+    body: note,
+    exchange: transaction._id,
+    book: transaction.book
+  })));
+
+  if (!book || resumed) return;
+
+  for (const recipient of parties.filter(party => recipients.some(id => id.equals(party._id)))) {
+    // Completion is shared by both parties; the other emails name the party who acted
+    const otherParty = status === 'completed'
+      ? parties.find(party => !party._id.equals(recipient._id))
+      : actorParty && !actorParty._id.equals(recipient._id) ? actorParty : undefined;
+    const emailType = STATUS_EMAILS[status as keyof typeof STATUS_EMAILS];
+
+    try {
+      if (status === 'expired' && input.inactiveDays) {
+        await sendNotificationEmail(recipient, 'statusChange', 'requestExpired', {
+          name: recipient.name,
+          bookTitle: book.title,
+          days: input.inactiveDays
+        });
+      } else if (emailType && otherParty) {
+        await sendNotificationEmail(recipient, 'statusChange', emailType, {
+          name: recipient.name,
+          bookTitle: book.title,
+          otherPartyName: otherParty.name,
+          exchangeLink: getExchangeLink(transaction._id)
+        });
+      }
+    } catch (emailErr) {
+      console.error('Exchange status email failed:', transaction._id, status, emailErr);
+    }
+  }
+};
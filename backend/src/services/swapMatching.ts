@@ -0,0 +1,80 @@
+export const MIN_SWAP_CYCLE_LENGTH = 2;
+export const MAX_SWAP_CYCLE_LENGTH = 4;
+
+export interface SwapListing {
+  bookId: string;
+  ownerId: string;
+}
+
+// One hand-off in a cycle: the giver lends their book to the receiver
+export interface SwapLeg {
+  giver: string;
+  receiver: string;
+  book: string;
+}
+
+// Identifies a cycle regardless of where it starts, so the same swap is not proposed twice
+export const getSwapCycleSignature = (legs: SwapLeg[]): string =>
+  legs.map(leg => `${leg.giver}:${leg.book}`).sort().join('|');
+
+/**
+ * Finds cycles in which every participant receives a book they want from the
+ * next one, e.g. A wants B's book, B wants C's book and C wants A's book.
+ * Shorter cycles win, and a book is never used in more than one cycle.
+ */
+export const findSwapCycles = (
+  listings: SwapListing[],
+  wants: Map<string, string[]>,
+  maxLength: number = MAX_SWAP_CYCLE_LENGTH
+): SwapLeg[][] => {
+  const ownerOf = new Map(listings.map(listing => [listing.bookId, listing.ownerId]));
+
+  // receiver -> giver -> books the receiver wants from that giver
+  const edges = new Map<string, Map<string, string[]>>();
+  wants.forEach((bookIds, receiver) => {
+    for (const bookId of bookIds) {
+      const giver = ownerOf.get(bookId);
+      if (!giver || giver === receiver) continue;
+
+      const givers = edges.get(receiver) || new Map<string, string[]>();
+      givers.set(giver, [...(givers.get(giver) || []), bookId]);
+      edges.set(receiver, givers);
+    }
+  });
+
+  // Each cycle is found once, from its smallest user id
+  const userCycles: string[][] = [];
+  const walk = (start: string, path: string[]) => {
+    const current = path[path.length - 1];
+    edges.get(current)?.forEach((_books, next) => {
+      if (next === start && path.length >= MIN_SWAP_CYCLE_LENGTH) {
+        userCycles.push([...path]);
+      } else if (next > start && !path.includes(next) && path.length < maxLength) {
+        walk(start, [...path, next]);
+      }
+    });
+  };
+  Array.from(edges.keys()).sort().forEach(start => walk(start, [start]));
+
+  userCycles.sort((a, b) => a.length - b.length);
+
+  const usedBooks = new Set<string>();
+  const cycles: SwapLeg[][] = [];
+  for (const users of userCycles) {
+    const legs: SwapLeg[] = [];
+    for (let i = 0; i < users.length; i++) {
+      const receiver = users[i];
+      const giver = users[(i + 1) % users.length];
+      const book = edges.get(receiver)?.get(giver)?.find(bookId => !usedBooks.has(bookId));
+      if (!book) break;
+      legs.push({ giver, receiver, book });
+    }
+
+    if (legs.length !== users.length) continue;
+
+    legs.forEach(leg => usedBooks.add(leg.book));
+    cycles.push(legs);
+  }
+
+  return cycles;
+};
@@ -0,0 +1,108 @@
+import { Types } from 'mongoose';
+import Transaction, { ITransaction, TransactionStatus } from '../models/Transaction';
+import SwapCycle from '../models/SwapCycle';
+import Book from '../models/Book';
+import { recordExchangeEvent } from './exchangeEvents';
+import { postMessage } from './messageService';
+import { notifyUser } from './notificationService';
+import { syncBookStatuses } from './requestQueue';
+import { announceStatusChange } from './statusChangeService';
+
+// Legs that have not changed hands yet and can still be called off
+const OPEN_LEG_STATUSES: TransactionStatus[] = ['accepted', 'modified'];
+
+type SwapLegExchange = Pick<ITransaction, '_id' | 'status' | 'dispute'>;
+
+// The other legs of a swap that are still waiting for their handover; frozen (disputed) legs are left alone
+export const getOpenSiblingLegs = <T extends SwapLegExchange>(legs: T[], closedLegId: Types.ObjectId): T[] =>
+  legs.filter(leg => !leg._id.equals(closedLegId) && !leg.dispute && OPEN_LEG_STATUSES.includes(leg.status));
+
+const findOpenSiblingLegs = async (transaction: Pick<ITransaction, '_id' | 'swapCycle'>) => {
+  if (!transaction.swapCycle) return [];
+  const legs = await Transaction.find({ swapCycle: transaction.swapCycle });
+  return getOpenSiblingLegs(legs, transaction._id);
+};
+
+const notifyParties = async (leg: ITransaction, title: string, body: string) => {
+  await Promise.all([leg.owner, leg.requester].map(user => notifyUser({
+    user,
+    type: 'exchange-status',
+    title,
+    body,
+    exchange: leg._id,
+    book: leg.book
+  })));
+};
+
+/**
+ * Every leg of a swap depends on the others: once one falls through, a
+ * participant would give a book without getting one back. The legs that have
+ * not been handed over yet are cancelled and the swap is marked cancelled.
+ * Resolves to the ids of the cancelled legs.
+ */
+export const cancelSwapSiblings = async (
+  transaction: Pick<ITransaction, '_id' | 'swapCycle'>,
+  actor?: Types.ObjectId
+): Promise<Types.ObjectId[]> => {
+  if (!transaction.swapCycle) return [];
+  const siblings = await findOpenSiblingLegs(transaction);
+
+  const reason = 'Another exchange in this swap fell through, so this one was cancelled';
+  for (const leg of siblings) {
+    const before = leg.status;
+    leg.status = 'cancelled';
+    leg.lastModifiedBy = actor || leg.owner;
+    await postMessage(leg._id, {
+      sender: leg.owner,
+      content: reason,
+      createdAt: new Date(),
+      read: false,
+      notified: false,
+      system: true
+    });
+    await leg.save();
+    await syncBookStatuses(leg, 'cancelled');
+
+    const book = await Book.findById(leg.book, 'title');
+    await announceStatusChange({
+      transaction: leg,
+      before,
+      actor,
+      note: reason,
+      // Neither party of this leg called it off, so both are told
+      recipients: [leg.owner, leg.requester],
+      title: `The swap for "${book?.title || 'a book'}" was cancelled`
+    });
+  }
+
+  await SwapCycle.updateOne({ _id: transaction.swapCycle, status: 'accepted' }, { status: 'cancelled' });
+  return siblings.map(leg => leg._id);
+};
+
+// A dispute on one leg puts the whole swap in doubt, so the other parties are warned before handing over
+export const flagSwapSiblings = async (transaction: Pick<ITransaction, '_id' | 'swapCycle'>): Promise<number> => {
+  const siblings = await findOpenSiblingLegs(transaction);
+
+  const warning = 'A problem was reported with another exchange in this swap. Consider holding off on the handover until it is resolved.';
+  for (const leg of siblings) {
+    await postMessage(leg._id, {
+      sender: leg.owner,
+      content: warning,
+      createdAt: new Date(),
+      read: false,
+      notified: false,
+      system: true
+    });
+    await recordExchangeEvent({
+      transaction: leg._id,
+      type: 'dispute',
+      after: { swapCycle: transaction.swapCycle, disputedLeg: transaction._id },
+      note: warning
+    });
+
+    const book = await Book.findById(leg.book, 'title');
+    await notifyParties(leg, `A problem was reported in the swap for "${book?.title || 'a book'}"`, warning);
+  }
+
+  return siblings.length;
+};
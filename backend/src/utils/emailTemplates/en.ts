@@ -0,0 +1,158 @@
+import { EmailCatalogue } from './types';
+import { countDigestMessages, escapeHtml, exchangeButton } from './helpers';
+
+export const en: EmailCatalogue = {
+  welcome: (data) => ({
+    subject: 'Welcome to Book Exchange Platform',
+    html: `
+      <h1>Welcome to Book Exchange Platform!</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>Thank you for registering with Book Exchange Platform. We're excited to have you on board!</p>
+      <p>You can now:</p>
+      <ul>
+        <li>List your books for exchange</li>
+        <li>Browse available books</li>
+        <li>Request exchanges</li>
+      </ul>
+      <p>Happy reading!</p>
+    `
+  }),
+
+  passwordReset: (data) => ({
+    subject: 'Password Reset Request',
+    html: `
+      <h1>Password Reset Request</h1>
+      <p>You have requested to reset your password.</p>
+      <p>Your OTP is: <strong>${data.otp}</strong></p>
+      <p>This OTP will expire in 1 hour.</p>
+      <p>If you didn't request this, please ignore this email.</p>
+    `
+  }),
+
+  exchangeRequest: (data) => ({
+    subject: 'New Exchange Request',
+    html: `
+      <h1>New Exchange Request</h1>
+      <p>You have received a new exchange request for your book "${escapeHtml(data.bookTitle)}" from ${escapeHtml(data.requesterName)}.</p>
+      <p>Please review the request and accept or decline it.</p>
+      ${exchangeButton(data.exchangeLink)}
+    `
+  }),
+
+  exchangeAccepted: (data) => ({
+    subject: `Your request for "${data.bookTitle}" was accepted`,
+    html: `
+      <h1>Request Accepted</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} accepted your exchange request for "${escapeHtml(data.bookTitle)}".</p>
+      <p>Use the exchange messages to arrange the handover.</p>
+      ${exchangeButton(data.exchangeLink)}
+    `
+  }),
+
+  exchangeRejected: (data) => ({
+    subject: `Your request for "${data.bookTitle}" was declined`,
+    html: `
+      <h1>Request Declined</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} declined your exchange request for "${escapeHtml(data.bookTitle)}".</p>
+      <p>There are plenty of other books waiting to be read. Keep browsing!</p>
+      ${exchangeButton(data.exchangeLink)}
+    `
+  }),
+
+  exchangeWithdrawn: (data) => ({
+    subject: `The exchange for "${data.bookTitle}" was withdrawn`,
+    html: `
+      <h1>Exchange Withdrawn</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} withdrew from the exchange for "${escapeHtml(data.bookTitle)}".</p>
+      <p>Any books reserved for this exchange are available again.</p>
+      ${exchangeButton(data.exchangeLink)}
+    `
+  }),
+
+  newMessage: (data) => ({
+    subject: `New message from ${data.senderName} about "${data.bookTitle}"`,
+    html: `
+      <h1>New Message</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.senderName)} sent you a message about "${escapeHtml(data.bookTitle)}":</p>
+      <blockquote>${escapeHtml(data.preview)}</blockquote>
+      ${exchangeButton(data.exchangeLink)}
+    `
+  }),
+
+  exchangeCompleted: (data) => ({
+    subject: 'Exchange Completed',
+    html: `
+      <h1>Exchange Completed</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>You and ${escapeHtml(data.otherPartyName)} have both confirmed the handover of "${escapeHtml(data.bookTitle)}". The exchange is now complete.</p>
+      <p>You can now leave a review of how the exchange went.</p>
+      ${exchangeButton(data.exchangeLink)}
+      <p>Thank you for using Book Exchange Platform!</p>
+    `
+  }),
+
+  loanDueSoon: (data) => ({
+    subject: `Reminder: "${data.bookTitle}" is due back soon`,
+    html: `
+      <h1>Return Reminder</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>The book "${escapeHtml(data.bookTitle)}" you borrowed from ${escapeHtml(data.ownerName)} is due back on <strong>${data.dueDate}</strong>.</p>
+      <p>Please arrange the return with ${escapeHtml(data.ownerName)} through your exchange messages.</p>
+    `
+  }),
+
+  loanOverdue: (data) => ({
+    subject: `Overdue: "${data.bookTitle}"`,
+    html: `
+      <h1>Book Overdue</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      ${data.isOwner
+        ? `<p>The book "${escapeHtml(data.bookTitle)}" you lent to ${escapeHtml(data.otherPartyName)} was due back on <strong>${data.dueDate}</strong> and has not been marked as returned.</p>
+      <p>Once you have it back, please confirm the return from the exchange page.</p>`
+        : `<p>The book "${escapeHtml(data.bookTitle)}" you borrowed from ${escapeHtml(data.otherPartyName)} was due back on <strong>${data.dueDate}</strong>.</p>
+      <p>Please return it as soon as possible.</p>`}
+    `
+  }),
+
+  requestExpired: (data) => ({
+    subject: `Exchange request for "${data.bookTitle}" has expired`,
+    html: `
+      <h1>Exchange Request Expired</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>The exchange request for "${escapeHtml(data.bookTitle)}" had no activity for ${data.days} days and has expired.</p>
+      <p>The book is available again. You can always send a new request from the book listing.</p>
+    `
+  }),
+
+  meetupReminder: (data) => ({
+    subject: `Reminder: meetup for "${data.bookTitle}" in an hour`,
+    html: `
+      <h1>Meetup Reminder</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>You are meeting ${escapeHtml(data.otherPartyName)} to exchange "${escapeHtml(data.bookTitle)}": ${escapeHtml(data.meetup)}.</p>
+      <p>Remember to confirm the handover in the app once the book has changed hands.</p>
+    `
+  }),
+
+  messageDigest: (data) => {
+    const total = countDigestMessages(data.exchanges);
+    return {
+      subject: `You have ${total} unread message${total === 1 ? '' : 's'}`,
+      html: `
+      <h1>Unread Messages</h1>
+      <p>Hi ${escapeHtml(data.name)},</p>
+      <p>These messages are waiting for you:</p>
+      ${data.exchanges.map(exchange => `
+        <h3>"${escapeHtml(exchange.bookTitle)}" with ${escapeHtml(exchange.senderName)}</h3>
+        <p>${exchange.count} unread message${exchange.count === 1 ? '' : 's'}, the latest:</p>
+        <blockquote>${escapeHtml(exchange.preview)}</blockquote>
+        ${exchangeButton(exchange.exchangeLink)}
+      `).join('')}
+    `
+    };
+  }
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { DigestExchange } from './types';
+
+// Message text is written by users, so it must not be able to inject markup
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const exchangeButton = (link: string, label = 'Open the exchange') => `<p><a href="${link}">${label}</a></p>`;
+
+export const countDigestMessages = (exchanges: DigestExchange[]) =>
+  exchanges.reduce((sum, exchange) => sum + exchange.count, 0);
+
+const decodeEntities = (text: string) => text
+  .replace(/&quot;/g, '"')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+// Plain text alternative for mail clients that do not show HTML; links keep their address
+export const htmlToText = (html: string): string => decodeEntities(html
+  .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2: $1')
+  .replace(/<li[^>]*>/gi, '- ')
+  .replace(/<(br\s*\/?|\/li)>/gi, '\n')
+  .replace(/<\/(p|h[1-6]|blockquote|ul|div)>/gi, '\n\n')
+  .replace(/<[^>]+>/g, ''))
+  .split('\n')
+  .map(line => line.trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
@@ -0,0 +1,157 @@
+import { EmailCatalogue } from './types';
+import { countDigestMessages, escapeHtml, exchangeButton } from './helpers';
+
+const openExchange = (link: string) => exchangeButton(link, 'आदान-प्रदान खोलें');
+
+export const hi: Partial<EmailCatalogue> = {
+  welcome: (data) => ({
+    subject: 'Book Exchange Platform में आपका स्वागत है',
+    html: `
+      <h1>Book Exchange Platform में आपका स्वागत है!</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>Book Exchange Platform पर पंजीकरण करने के लिए धन्यवाद। आपको हमारे साथ पाकर हमें खुशी है!</p>
+      <p>अब आप:</p>
+      <ul>
+        <li>अपनी किताबें आदान-प्रदान के लिए सूचीबद्ध कर सकते हैं</li>
+        <li>उपलब्ध किताबें देख सकते हैं</li>
+        <li>आदान-प्रदान का अनुरोध कर सकते हैं</li>
+      </ul>
+      <p>पढ़ने का आनंद लें!</p>
+    `
+  }),
+
+  passwordReset: (data) => ({
+    subject: 'पासवर्ड रीसेट अनुरोध',
+    html: `
+      <h1>पासवर्ड रीसेट अनुरोध</h1>
+      <p>आपने अपना पासवर्ड रीसेट करने का अनुरोध किया है।</p>
+      <p>आपका OTP है: <strong>${data.otp}</strong></p>
+      <p>यह OTP 1 घंटे में समाप्त हो जाएगा।</p>
+      <p>यदि आपने यह अनुरोध नहीं किया है, तो कृपया इस ईमेल को अनदेखा करें।</p>
+    `
+  }),
+
+  exchangeRequest: (data) => ({
+    subject: 'नया आदान-प्रदान अनुरोध',
+    html: `
+      <h1>नया आदान-प्रदान अनुरोध</h1>
+      <p>${escapeHtml(data.requesterName)} ने आपकी किताब "${escapeHtml(data.bookTitle)}" के लिए आदान-प्रदान का अनुरोध भेजा है।</p>
+      <p>कृपया अनुरोध देखें और उसे स्वीकार या अस्वीकार करें।</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeAccepted: (data) => ({
+    subject: `"${data.bookTitle}" के लिए आपका अनुरोध स्वीकार कर लिया गया`,
+    html: `
+      <h1>अनुरोध स्वीकार</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} ने "${escapeHtml(data.bookTitle)}" के लिए आपका आदान-प्रदान अनुरोध स्वीकार कर लिया है।</p>
+      <p>किताब सौंपने की व्यवस्था करने के लिए आदान-प्रदान संदेशों का उपयोग करें।</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeRejected: (data) => ({
+    subject: `"${data.bookTitle}" के लिए आपका अनुरोध अस्वीकार कर दिया गया`,
+    html: `
+      <h1>अनुरोध अस्वीकार</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} ने "${escapeHtml(data.bookTitle)}" के लिए आपका आदान-प्रदान अनुरोध अस्वीकार कर दिया है।</p>
+      <p>और भी बहुत सी किताबें पढ़े जाने का इंतज़ार कर रही हैं। खोजते रहिए!</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeWithdrawn: (data) => ({
+    subject: `"${data.bookTitle}" का आदान-प्रदान वापस ले लिया गया`,
+    html: `
+      <h1>आदान-प्रदान वापस लिया गया</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.otherPartyName)} "${escapeHtml(data.bookTitle)}" के आदान-प्रदान से पीछे हट गए हैं।</p>
+      <p>इस आदान-प्रदान के लिए आरक्षित किताबें फिर से उपलब्ध हैं।</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  newMessage: (data) => ({
+    subject: `"${data.bookTitle}" के बारे में ${data.senderName} का नया संदेश`,
+    html: `
+      <h1>नया संदेश</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.senderName)} ने "${escapeHtml(data.bookTitle)}" के बारे में आपको एक संदेश भेजा है:</p>
+      <blockquote>${escapeHtml(data.preview)}</blockquote>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeCompleted: (data) => ({
+    subject: 'आदान-प्रदान पूरा हुआ',
+    html: `
+      <h1>आदान-प्रदान पूरा हुआ</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>आपने और ${escapeHtml(data.otherPartyName)} ने "${escapeHtml(data.bookTitle)}" सौंपे जाने की पुष्टि कर दी है। आदान-प्रदान अब पूरा हो गया है।</p>
+      <p>अब आप इस आदान-प्रदान के बारे में समीक्षा लिख सकते हैं।</p>
+      ${openExchange(data.exchangeLink)}
+      <p>Book Exchange Platform का उपयोग करने के लिए धन्यवाद!</p>
+    `
+  }),
+
+  loanDueSoon: (data) => ({
+    subject: `अनुस्मारक: "${data.bookTitle}" जल्द ही लौटानी है`,
+    html: `
+      <h1>वापसी अनुस्मारक</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.ownerName)} से उधार ली गई किताब "${escapeHtml(data.bookTitle)}" <strong>${data.dueDate}</strong> को लौटानी है।</p>
+      <p>कृपया आदान-प्रदान संदेशों के ज़रिए ${escapeHtml(data.ownerName)} के साथ वापसी की व्यवस्था करें।</p>
+    `
+  }),
+
+  loanOverdue: (data) => ({
+    subject: `समय सीमा बीत गई: "${data.bookTitle}"`,
+    html: `
+      <h1>किताब लौटाने की तारीख निकल गई</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      ${data.isOwner
+        ? `<p>${escapeHtml(data.otherPartyName)} को उधार दी गई किताब "${escapeHtml(data.bookTitle)}" <strong>${data.dueDate}</strong> को लौटनी थी और अभी तक उसकी वापसी दर्ज नहीं हुई है।</p>
+      <p>किताब वापस मिलने पर कृपया आदान-प्रदान पेज से वापसी की पुष्टि करें।</p>`
+        : `<p>${escapeHtml(data.otherPartyName)} से उधार ली गई किताब "${escapeHtml(data.bookTitle)}" <strong>${data.dueDate}</strong> को लौटानी थी।</p>
+      <p>कृपया इसे जल्द से जल्द लौटा दें।</p>`}
+    `
+  }),
+
+  requestExpired: (data) => ({
+    subject: `"${data.bookTitle}" के लिए आदान-प्रदान अनुरोध की अवधि समाप्त हो गई`,
+    html: `
+      <h1>आदान-प्रदान अनुरोध समाप्त</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" के आदान-प्रदान अनुरोध पर ${data.days} दिनों तक कोई गतिविधि नहीं हुई, इसलिए इसकी अवधि समाप्त हो गई है।</p>
+      <p>किताब फिर से उपलब्ध है। आप किताब की लिस्टिंग से कभी भी नया अनुरोध भेज सकते हैं।</p>
+    `
+  }),
+
+  meetupReminder: (data) => ({
+    subject: `अनुस्मारक: "${data.bookTitle}" के लिए मुलाकात एक घंटे में`,
+    html: `
+      <h1>मुलाकात अनुस्मारक</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" के आदान-प्रदान के लिए आप ${escapeHtml(data.otherPartyName)} से मिल रहे हैं: ${escapeHtml(data.meetup)}।</p>
+      <p>किताब सौंपने के बाद ऐप में इसकी पुष्टि करना न भूलें।</p>
+    `
+  }),
+
+  messageDigest: (data) => ({
+    subject: `आपके ${countDigestMessages(data.exchanges)} संदेश अपठित हैं`,
+    html: `
+      <h1>अपठित संदेश</h1>
+      <p>नमस्ते ${escapeHtml(data.name)},</p>
+      <p>ये संदेश आपका इंतज़ार कर रहे हैं:</p>
+      ${data.exchanges.map(exchange => `
+        <h3>"${escapeHtml(exchange.bookTitle)}" – ${escapeHtml(exchange.senderName)}</h3>
+        <p>${exchange.count} अपठित संदेश, सबसे नया:</p>
+        <blockquote>${escapeHtml(exchange.preview)}</blockquote>
+        ${openExchange(exchange.exchangeLink)}
+      `).join('')}
+    `
+  })
+};
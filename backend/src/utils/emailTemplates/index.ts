@@ -0,0 +1,23 @@
+import { PreferredLanguage } from '../../models/User';
+import { EmailCatalogue, EmailData, EmailType, RenderedEmail } from './types';
+import { htmlToText } from './helpers';
+import { en } from './en';
+import { hi } from './hi';
+import { ta } from './ta';
+import { te } from './te';
+import { kn } from './kn';
+
+export * from './types';
+
+const catalogues: Record<PreferredLanguage, Partial<EmailCatalogue>> = { en, hi, ta, te, kn };
+
+// Renders in the recipient's language, falling back to English for missing languages or templates
+export const renderEmail = <T extends EmailType>(
+  type: T,
+  data: EmailData<T>,
+  language: PreferredLanguage = 'en'
+): RenderedEmail & { text: string } => {
+  const template = (catalogues[language]?.[type] ?? en[type]) as (data: EmailData<T>) => RenderedEmail;
+  const { subject, html } = template(data);
+  return { subject, html, text: htmlToText(html) };
+};
@@ -0,0 +1,157 @@
+import { EmailCatalogue } from './types';
+import { countDigestMessages, escapeHtml, exchangeButton } from './helpers';
+
+const openExchange = (link: string) => exchangeButton(link, 'ವಿನಿಮಯವನ್ನು ತೆರೆಯಿರಿ');
+
+export const kn: Partial<EmailCatalogue> = {
+  welcome: (data) => ({
+    subject: 'Book Exchange Platform ಗೆ ಸ್ವಾಗತ',
+    html: `
+      <h1>Book Exchange Platform ಗೆ ಸ್ವಾಗತ!</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>Book Exchange Platform ನಲ್ಲಿ ನೋಂದಾಯಿಸಿದ್ದಕ್ಕಾಗಿ ಧನ್ಯವಾದಗಳು. ನೀವು ನಮ್ಮೊಂದಿಗೆ ಸೇರಿರುವುದು ನಮಗೆ ಸಂತೋಷ ತಂದಿದೆ!</p>
+      <p>ಈಗ ನೀವು:</p>
+      <ul>
+        <li>ನಿಮ್ಮ ಪುಸ್ತಕಗಳನ್ನು ವಿನಿಮಯಕ್ಕಾಗಿ ಪಟ್ಟಿ ಮಾಡಬಹುದು</li>
+        <li>ಲಭ್ಯವಿರುವ ಪುಸ್ತಕಗಳನ್ನು ನೋಡಬಹುದು</li>
+        <li>ವಿನಿಮಯಕ್ಕಾಗಿ ವಿನಂತಿಸಬಹುದು</li>
+      </ul>
+      <p>ಸಂತೋಷದಿಂದ ಓದಿ!</p>
+    `
+  }),
+
+  passwordReset: (data) => ({
+    subject: 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸುವ ವಿನಂತಿ',
+    html: `
+      <h1>ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸುವ ವಿನಂತಿ</h1>
+      <p>ನಿಮ್ಮ ಪಾಸ್‌ವರ್ಡ್ ಅನ್ನು ಮರುಹೊಂದಿಸಲು ನೀವು ವಿನಂತಿಸಿದ್ದೀರಿ.</p>
+      <p>ನಿಮ್ಮ OTP: <strong>${data.otp}</strong></p>
+      <p>ಈ OTP ಯ ಅವಧಿ 1 ಗಂಟೆಯಲ್ಲಿ ಮುಗಿಯುತ್ತದೆ.</p>
+      <p>ನೀವು ಇದನ್ನು ವಿನಂತಿಸದಿದ್ದರೆ, ದಯವಿಟ್ಟು ಈ ಇಮೇಲ್ ಅನ್ನು ನಿರ್ಲಕ್ಷಿಸಿ.</p>
+    `
+  }),
+
+  exchangeRequest: (data) => ({
+    subject: 'ಹೊಸ ವಿನಿಮಯ ವಿನಂತಿ',
+    html: `
+      <h1>ಹೊಸ ವಿನಿಮಯ ವಿನಂತಿ</h1>
+      <p>ನಿಮ್ಮ ಪುಸ್ತಕ "${escapeHtml(data.bookTitle)}" ಗಾಗಿ ${escapeHtml(data.requesterName)} ಅವರಿಂದ ಹೊಸ ವಿನಿಮಯ ವಿನಂತಿ ಬಂದಿದೆ.</p>
+      <p>ದಯವಿಟ್ಟು ವಿನಂತಿಯನ್ನು ಪರಿಶೀಲಿಸಿ ಸ್ವೀಕರಿಸಿ ಅಥವಾ ತಿರಸ್ಕರಿಸಿ.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeAccepted: (data) => ({
+    subject: `"${data.bookTitle}" ಗಾಗಿ ನಿಮ್ಮ ವಿನಂತಿಯನ್ನು ಸ್ವೀಕರಿಸಲಾಗಿದೆ`,
+    html: `
+      <h1>ವಿನಂತಿ ಸ್ವೀಕರಿಸಲಾಗಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ಗಾಗಿ ನಿಮ್ಮ ವಿನಿಮಯ ವಿನಂತಿಯನ್ನು ${escapeHtml(data.otherPartyName)} ಸ್ವೀಕರಿಸಿದ್ದಾರೆ.</p>
+      <p>ಪುಸ್ತಕ ಹಸ್ತಾಂತರವನ್ನು ವ್ಯವಸ್ಥೆ ಮಾಡಲು ವಿನಿಮಯ ಸಂದೇಶಗಳನ್ನು ಬಳಸಿ.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeRejected: (data) => ({
+    subject: `"${data.bookTitle}" ಗಾಗಿ ನಿಮ್ಮ ವಿನಂತಿಯನ್ನು ತಿರಸ್ಕರಿಸಲಾಗಿದೆ`,
+    html: `
+      <h1>ವಿನಂತಿ ತಿರಸ್ಕರಿಸಲಾಗಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ಗಾಗಿ ನಿಮ್ಮ ವಿನಿಮಯ ವಿನಂತಿಯನ್ನು ${escapeHtml(data.otherPartyName)} ತಿರಸ್ಕರಿಸಿದ್ದಾರೆ.</p>
+      <p>ಓದಲು ಇನ್ನೂ ಅನೇಕ ಪುಸ್ತಕಗಳು ಕಾಯುತ್ತಿವೆ. ಹುಡುಕುತ್ತಲೇ ಇರಿ!</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeWithdrawn: (data) => ({
+    subject: `"${data.bookTitle}" ವಿನಿಮಯವನ್ನು ಹಿಂಪಡೆಯಲಾಗಿದೆ`,
+    html: `
+      <h1>ವಿನಿಮಯ ಹಿಂಪಡೆಯಲಾಗಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ವಿನಿಮಯದಿಂದ ${escapeHtml(data.otherPartyName)} ಹಿಂದೆ ಸರಿದಿದ್ದಾರೆ.</p>
+      <p>ಈ ವಿನಿಮಯಕ್ಕಾಗಿ ಕಾಯ್ದಿರಿಸಿದ್ದ ಪುಸ್ತಕಗಳು ಮತ್ತೆ ಲಭ್ಯವಿವೆ.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  newMessage: (data) => ({
+    subject: `"${data.bookTitle}" ಕುರಿತು ${data.senderName} ಅವರಿಂದ ಹೊಸ ಸಂದೇಶ`,
+    html: `
+      <h1>ಹೊಸ ಸಂದೇಶ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ಕುರಿತು ${escapeHtml(data.senderName)} ನಿಮಗೆ ಸಂದೇಶ ಕಳುಹಿಸಿದ್ದಾರೆ:</p>
+      <blockquote>${escapeHtml(data.preview)}</blockquote>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeCompleted: (data) => ({
+    subject: 'ವಿನಿಮಯ ಪೂರ್ಣಗೊಂಡಿದೆ',
+    html: `
+      <h1>ವಿನಿಮಯ ಪೂರ್ಣಗೊಂಡಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ಹಸ್ತಾಂತರವನ್ನು ನೀವು ಮತ್ತು ${escapeHtml(data.otherPartyName)} ಇಬ್ಬರೂ ದೃಢಪಡಿಸಿದ್ದೀರಿ. ವಿನಿಮಯ ಈಗ ಪೂರ್ಣಗೊಂಡಿದೆ.</p>
+      <p>ವಿನಿಮಯ ಹೇಗೆ ನಡೆಯಿತು ಎಂಬುದರ ಬಗ್ಗೆ ಈಗ ನೀವು ವಿಮರ್ಶೆ ಬರೆಯಬಹುದು.</p>
+      ${openExchange(data.exchangeLink)}
+      <p>Book Exchange Platform ಬಳಸಿದ್ದಕ್ಕಾಗಿ ಧನ್ಯವಾದಗಳು!</p>
+    `
+  }),
+
+  loanDueSoon: (data) => ({
+    subject: `ಜ್ಞಾಪನೆ: "${data.bookTitle}" ಅನ್ನು ಶೀಘ್ರದಲ್ಲೇ ಹಿಂದಿರುಗಿಸಬೇಕು`,
+    html: `
+      <h1>ಹಿಂದಿರುಗಿಸುವ ಜ್ಞಾಪನೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.ownerName)} ಅವರಿಂದ ನೀವು ಎರವಲು ಪಡೆದ "${escapeHtml(data.bookTitle)}" ಪುಸ್ತಕವನ್ನು <strong>${data.dueDate}</strong> ರಂದು ಹಿಂದಿರುಗಿಸಬೇಕು.</p>
+      <p>ದಯವಿಟ್ಟು ವಿನಿಮಯ ಸಂದೇಶಗಳ ಮೂಲಕ ${escapeHtml(data.ownerName)} ಅವರೊಂದಿಗೆ ಹಿಂದಿರುಗಿಸುವುದನ್ನು ವ್ಯವಸ್ಥೆ ಮಾಡಿ.</p>
+    `
+  }),
+
+  loanOverdue: (data) => ({
+    subject: `ಅವಧಿ ಮೀರಿದೆ: "${data.bookTitle}"`,
+    html: `
+      <h1>ಪುಸ್ತಕ ಹಿಂದಿರುಗಿಸುವ ಅವಧಿ ಮೀರಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      ${data.isOwner
+        ? `<p>${escapeHtml(data.otherPartyName)} ಅವರಿಗೆ ನೀವು ಎರವಲು ನೀಡಿದ "${escapeHtml(data.bookTitle)}" ಪುಸ್ತಕವು <strong>${data.dueDate}</strong> ರಂದು ಹಿಂತಿರುಗಬೇಕಿತ್ತು, ಆದರೆ ಇನ್ನೂ ಹಿಂದಿರುಗಿಸಲಾಗಿದೆ ಎಂದು ಗುರುತಿಸಲಾಗಿಲ್ಲ.</p>
+      <p>ಪುಸ್ತಕ ಮರಳಿ ಸಿಕ್ಕ ನಂತರ, ದಯವಿಟ್ಟು ವಿನಿಮಯ ಪುಟದಿಂದ ಅದನ್ನು ದೃಢಪಡಿಸಿ.</p>`
+        : `<p>${escapeHtml(data.otherPartyName)} ಅವರಿಂದ ನೀವು ಎರವಲು ಪಡೆದ "${escapeHtml(data.bookTitle)}" ಪುಸ್ತಕವನ್ನು <strong>${data.dueDate}</strong> ರಂದು ಹಿಂದಿರುಗಿಸಬೇಕಿತ್ತು.</p>
+      <p>ದಯವಿಟ್ಟು ಆದಷ್ಟು ಬೇಗ ಅದನ್ನು ಹಿಂದಿರುಗಿಸಿ.</p>`}
+    `
+  }),
+
+  requestExpired: (data) => ({
+    subject: `"${data.bookTitle}" ಗಾಗಿ ವಿನಿಮಯ ವಿನಂತಿಯ ಅವಧಿ ಮುಗಿದಿದೆ`,
+    html: `
+      <h1>ವಿನಿಮಯ ವಿನಂತಿಯ ಅವಧಿ ಮುಗಿದಿದೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ಗಾಗಿ ವಿನಿಮಯ ವಿನಂತಿಯಲ್ಲಿ ${data.days} ದಿನಗಳಿಂದ ಯಾವುದೇ ಚಟುವಟಿಕೆ ಇಲ್ಲದ ಕಾರಣ ಅದರ ಅವಧಿ ಮುಗಿದಿದೆ.</p>
+      <p>ಪುಸ್ತಕ ಮತ್ತೆ ಲಭ್ಯವಿದೆ. ಪುಸ್ತಕದ ಪಟ್ಟಿಯಿಂದ ನೀವು ಯಾವಾಗ ಬೇಕಾದರೂ ಹೊಸ ವಿನಂತಿಯನ್ನು ಕಳುಹಿಸಬಹುದು.</p>
+    `
+  }),
+
+  meetupReminder: (data) => ({
+    subject: `ಜ್ಞಾಪನೆ: "${data.bookTitle}" ಗಾಗಿ ಭೇಟಿ ಒಂದು ಗಂಟೆಯಲ್ಲಿ`,
+    html: `
+      <h1>ಭೇಟಿಯ ಜ್ಞಾಪನೆ</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ವಿನಿಮಯಕ್ಕಾಗಿ ನೀವು ${escapeHtml(data.otherPartyName)} ಅವರನ್ನು ಭೇಟಿಯಾಗುತ್ತಿದ್ದೀರಿ: ${escapeHtml(data.meetup)}.</p>
+      <p>ಪುಸ್ತಕ ಕೈ ಬದಲಾದ ನಂತರ ಆ್ಯಪ್‌ನಲ್ಲಿ ಹಸ್ತಾಂತರವನ್ನು ದೃಢಪಡಿಸಲು ಮರೆಯಬೇಡಿ.</p>
+    `
+  }),
+
+  messageDigest: (data) => ({
+    subject: `ನಿಮಗೆ ${countDigestMessages(data.exchanges)} ಓದದ ಸಂದೇಶಗಳಿವೆ`,
+    html: `
+      <h1>ಓದದ ಸಂದೇಶಗಳು</h1>
+      <p>ನಮಸ್ಕಾರ ${escapeHtml(data.name)},</p>
+      <p>ಈ ಸಂದೇಶಗಳು ನಿಮಗಾಗಿ ಕಾಯುತ್ತಿವೆ:</p>
+      ${data.exchanges.map(exchange => `
+        <h3>"${escapeHtml(exchange.bookTitle)}" – ${escapeHtml(exchange.senderName)}</h3>
+        <p>${exchange.count} ಓದದ ಸಂದೇಶಗಳು, ಇತ್ತೀಚಿನದು:</p>
+        <blockquote>${escapeHtml(exchange.preview)}</blockquote>
+        ${openExchange(exchange.exchangeLink)}
+      `).join('')}
+    `
+  })
+};
@@ -0,0 +1,157 @@
+import { EmailCatalogue } from './types';
+import { countDigestMessages, escapeHtml, exchangeButton } from './helpers';
+
+const openExchange = (link: string) => exchangeButton(link, 'பரிமாற்றத்தைத் திறக்கவும்');
+
+export const ta: Partial<EmailCatalogue> = {
+  welcome: (data) => ({
+    subject: 'Book Exchange Platform-க்கு வரவேற்கிறோம்',
+    html: `
+      <h1>Book Exchange Platform-க்கு வரவேற்கிறோம்!</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>Book Exchange Platform-இல் பதிவு செய்ததற்கு நன்றி. உங்களை வரவேற்பதில் மகிழ்ச்சி அடைகிறோம்!</p>
+      <p>இப்போது நீங்கள்:</p>
+      <ul>
+        <li>பரிமாற்றத்திற்காக உங்கள் புத்தகங்களைப் பட்டியலிடலாம்</li>
+        <li>கிடைக்கும் புத்தகங்களைப் பார்க்கலாம்</li>
+        <li>பரிமாற்றங்களைக் கோரலாம்</li>
+      </ul>
+      <p>மகிழ்ச்சியான வாசிப்பு!</p>
+    `
+  }),
+
+  passwordReset: (data) => ({
+    subject: 'கடவுச்சொல் மீட்டமைப்பு கோரிக்கை',
+    html: `
+      <h1>கடவுச்சொல் மீட்டமைப்பு கோரிக்கை</h1>
+      <p>உங்கள் கடவுச்சொல்லை மீட்டமைக்க நீங்கள் கோரியுள்ளீர்கள்.</p>
+      <p>உங்கள் OTP: <strong>${data.otp}</strong></p>
+      <p>இந்த OTP 1 மணி நேரத்தில் காலாவதியாகும்.</p>
+      <p>நீங்கள் இதைக் கோரவில்லை என்றால், இந்த மின்னஞ்சலைப் புறக்கணிக்கவும்.</p>
+    `
+  }),
+
+  exchangeRequest: (data) => ({
+    subject: 'புதிய பரிமாற்றக் கோரிக்கை',
+    html: `
+      <h1>புதிய பரிமாற்றக் கோரிக்கை</h1>
+      <p>உங்கள் புத்தகம் "${escapeHtml(data.bookTitle)}"-க்கு ${escapeHtml(data.requesterName)} அவர்களிடமிருந்து புதிய பரிமாற்றக் கோரிக்கை வந்துள்ளது.</p>
+      <p>கோரிக்கையைப் பார்த்து ஏற்கவும் அல்லது நிராகரிக்கவும்.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeAccepted: (data) => ({
+    subject: `"${data.bookTitle}"-க்கான உங்கள் கோரிக்கை ஏற்கப்பட்டது`,
+    html: `
+      <h1>கோரிக்கை ஏற்கப்பட்டது</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}"-க்கான உங்கள் பரிமாற்றக் கோரிக்கையை ${escapeHtml(data.otherPartyName)} ஏற்றுக்கொண்டார்.</p>
+      <p>புத்தகத்தை ஒப்படைப்பதை ஏற்பாடு செய்ய பரிமாற்றச் செய்திகளைப் பயன்படுத்தவும்.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeRejected: (data) => ({
+    subject: `"${data.bookTitle}"-க்கான உங்கள் கோரிக்கை நிராகரிக்கப்பட்டது`,
+    html: `
+      <h1>கோரிக்கை நிராகரிக்கப்பட்டது</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}"-க்கான உங்கள் பரிமாற்றக் கோரிக்கையை ${escapeHtml(data.otherPartyName)} நிராகரித்தார்.</p>
+      <p>படிக்கக் காத்திருக்கும் இன்னும் பல புத்தகங்கள் உள்ளன. தொடர்ந்து தேடுங்கள்!</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeWithdrawn: (data) => ({
+    subject: `"${data.bookTitle}"-க்கான பரிமாற்றம் திரும்பப் பெறப்பட்டது`,
+    html: `
+      <h1>பரிமாற்றம் திரும்பப் பெறப்பட்டது</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}"-க்கான பரிமாற்றத்திலிருந்து ${escapeHtml(data.otherPartyName)} விலகினார்.</p>
+      <p>இந்தப் பரிமாற்றத்திற்காக ஒதுக்கப்பட்ட புத்தகங்கள் மீண்டும் கிடைக்கின்றன.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  newMessage: (data) => ({
+    subject: `"${data.bookTitle}" பற்றி ${data.senderName} அனுப்பிய புதிய செய்தி`,
+    html: `
+      <h1>புதிய செய்தி</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" பற்றி ${escapeHtml(data.senderName)} உங்களுக்கு ஒரு செய்தி அனுப்பியுள்ளார்:</p>
+      <blockquote>${escapeHtml(data.preview)}</blockquote>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeCompleted: (data) => ({
+    subject: 'பரிமாற்றம் நிறைவடைந்தது',
+    html: `
+      <h1>பரிமாற்றம் நிறைவடைந்தது</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" ஒப்படைக்கப்பட்டதை நீங்களும் ${escapeHtml(data.otherPartyName)} அவர்களும் உறுதிப்படுத்தியுள்ளீர்கள். பரிமாற்றம் இப்போது நிறைவடைந்தது.</p>
+      <p>பரிமாற்றம் எப்படி நடந்தது என்பது பற்றி இப்போது நீங்கள் மதிப்பாய்வு எழுதலாம்.</p>
+      ${openExchange(data.exchangeLink)}
+      <p>Book Exchange Platform-ஐப் பயன்படுத்தியதற்கு நன்றி!</p>
+    `
+  }),
+
+  loanDueSoon: (data) => ({
+    subject: `நினைவூட்டல்: "${data.bookTitle}" விரைவில் திருப்பித் தர வேண்டும்`,
+    html: `
+      <h1>திருப்பித் தருவதற்கான நினைவூட்டல்</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.ownerName)} அவர்களிடமிருந்து நீங்கள் இரவல் வாங்கிய "${escapeHtml(data.bookTitle)}" புத்தகத்தை <strong>${data.dueDate}</strong> அன்று திருப்பித் தர வேண்டும்.</p>
+      <p>பரிமாற்றச் செய்திகள் மூலம் ${escapeHtml(data.ownerName)} அவர்களுடன் திருப்பித் தருவதை ஏற்பாடு செய்யவும்.</p>
+    `
+  }),
+
+  loanOverdue: (data) => ({
+    subject: `காலக்கெடு கடந்தது: "${data.bookTitle}"`,
+    html: `
+      <h1>புத்தகம் இன்னும் திருப்பித் தரப்படவில்லை</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      ${data.isOwner
+        ? `<p>${escapeHtml(data.otherPartyName)} அவர்களுக்கு நீங்கள் இரவல் கொடுத்த "${escapeHtml(data.bookTitle)}" புத்தகம் <strong>${data.dueDate}</strong> அன்று திரும்ப வந்திருக்க வேண்டும், ஆனால் இன்னும் திருப்பித் தரப்பட்டதாகக் குறிக்கப்படவில்லை.</p>
+      <p>புத்தகம் திரும்பக் கிடைத்ததும், பரிமாற்றப் பக்கத்தில் அதை உறுதிப்படுத்தவும்.</p>`
+        : `<p>${escapeHtml(data.otherPartyName)} அவர்களிடமிருந்து நீங்கள் இரவல் வாங்கிய "${escapeHtml(data.bookTitle)}" புத்தகத்தை <strong>${data.dueDate}</strong> அன்று திருப்பித் தந்திருக்க வேண்டும்.</p>
+      <p>தயவுசெய்து அதை விரைவில் திருப்பித் தரவும்.</p>`}
+    `
+  }),
+
+  requestExpired: (data) => ({
+    subject: `"${data.bookTitle}"-க்கான பரிமாற்றக் கோரிக்கை காலாவதியானது`,
+    html: `
+      <h1>பரிமாற்றக் கோரிக்கை காலாவதியானது</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}"-க்கான பரிமாற்றக் கோரிக்கையில் ${data.days} நாட்களாக எந்தச் செயல்பாடும் இல்லாததால் அது காலாவதியானது.</p>
+      <p>புத்தகம் மீண்டும் கிடைக்கிறது. புத்தகப் பட்டியலிலிருந்து எப்போது வேண்டுமானாலும் புதிய கோரிக்கையை அனுப்பலாம்.</p>
+    `
+  }),
+
+  meetupReminder: (data) => ({
+    subject: `நினைவூட்டல்: "${data.bookTitle}"-க்கான சந்திப்பு இன்னும் ஒரு மணி நேரத்தில்`,
+    html: `
+      <h1>சந்திப்பு நினைவூட்டல்</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}"-ஐப் பரிமாறிக்கொள்ள நீங்கள் ${escapeHtml(data.otherPartyName)} அவர்களைச் சந்திக்கிறீர்கள்: ${escapeHtml(data.meetup)}.</p>
+      <p>புத்தகம் கைமாறியதும் செயலியில் ஒப்படைப்பை உறுதிப்படுத்த மறக்காதீர்கள்.</p>
+    `
+  }),
+
+  messageDigest: (data) => ({
+    subject: `உங்களுக்கு ${countDigestMessages(data.exchanges)} படிக்கப்படாத செய்திகள் உள்ளன`,
+    html: `
+      <h1>படிக்கப்படாத செய்திகள்</h1>
+      <p>வணக்கம் ${escapeHtml(data.name)},</p>
+      <p>இந்தச் செய்திகள் உங்களுக்காகக் காத்திருக்கின்றன:</p>
+      ${data.exchanges.map(exchange => `
+        <h3>"${escapeHtml(exchange.bookTitle)}" – ${escapeHtml(exchange.senderName)}</h3>
+        <p>${exchange.count} படிக்கப்படாத செய்திகள், சமீபத்தியது:</p>
+        <blockquote>${escapeHtml(exchange.preview)}</blockquote>
+        ${openExchange(exchange.exchangeLink)}
+      `).join('')}
+    `
+  })
+};
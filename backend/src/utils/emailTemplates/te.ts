@@ -0,0 +1,157 @@
+import { EmailCatalogue } from './types';
+import { countDigestMessages, escapeHtml, exchangeButton } from './helpers';
+
+const openExchange = (link: string) => exchangeButton(link, 'మార్పిడిని తెరవండి');
+
+export const te: Partial<EmailCatalogue> = {
+  welcome: (data) => ({
+    subject: 'Book Exchange Platform కు స్వాగతం',
+    html: `
+      <h1>Book Exchange Platform కు స్వాగతం!</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>Book Exchange Platform లో నమోదు చేసుకున్నందుకు ధన్యవాదాలు. మీరు మాతో చేరినందుకు సంతోషంగా ఉంది!</p>
+      <p>ఇప్పుడు మీరు:</p>
+      <ul>
+        <li>మీ పుస్తకాలను మార్పిడి కోసం జాబితా చేయవచ్చు</li>
+        <li>అందుబాటులో ఉన్న పుస్తకాలను చూడవచ్చు</li>
+        <li>మార్పిడులను అభ్యర్థించవచ్చు</li>
+      </ul>
+      <p>సంతోషంగా చదవండి!</p>
+    `
+  }),
+
+  passwordReset: (data) => ({
+    subject: 'పాస్‌వర్డ్ రీసెట్ అభ్యర్థన',
+    html: `
+      <h1>పాస్‌వర్డ్ రీసెట్ అభ్యర్థన</h1>
+      <p>మీ పాస్‌వర్డ్‌ను రీసెట్ చేయమని మీరు అభ్యర్థించారు.</p>
+      <p>మీ OTP: <strong>${data.otp}</strong></p>
+      <p>ఈ OTP గడువు 1 గంటలో ముగుస్తుంది.</p>
+      <p>మీరు దీన్ని అభ్యర్థించకపోతే, దయచేసి ఈ ఇమెయిల్‌ను పట్టించుకోకండి.</p>
+    `
+  }),
+
+  exchangeRequest: (data) => ({
+    subject: 'కొత్త మార్పిడి అభ్యర్థన',
+    html: `
+      <h1>కొత్త మార్పిడి అభ్యర్థన</h1>
+      <p>మీ పుస్తకం "${escapeHtml(data.bookTitle)}" కోసం ${escapeHtml(data.requesterName)} నుండి కొత్త మార్పిడి అభ్యర్థన వచ్చింది.</p>
+      <p>దయచేసి అభ్యర్థనను పరిశీలించి అంగీకరించండి లేదా తిరస్కరించండి.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeAccepted: (data) => ({
+    subject: `"${data.bookTitle}" కోసం మీ అభ్యర్థన అంగీకరించబడింది`,
+    html: `
+      <h1>అభ్యర్థన అంగీకరించబడింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" కోసం మీ మార్పిడి అభ్యర్థనను ${escapeHtml(data.otherPartyName)} అంగీకరించారు.</p>
+      <p>పుస్తకం అప్పగింతను ఏర్పాటు చేయడానికి మార్పిడి సందేశాలను ఉపయోగించండి.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeRejected: (data) => ({
+    subject: `"${data.bookTitle}" కోసం మీ అభ్యర్థన తిరస్కరించబడింది`,
+    html: `
+      <h1>అభ్యర్థన తిరస్కరించబడింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" కోసం మీ మార్పిడి అభ్యర్థనను ${escapeHtml(data.otherPartyName)} తిరస్కరించారు.</p>
+      <p>చదవడానికి ఇంకా ఎన్నో పుస్తకాలు ఎదురుచూస్తున్నాయి. వెతుకుతూ ఉండండి!</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeWithdrawn: (data) => ({
+    subject: `"${data.bookTitle}" మార్పిడి ఉపసంహరించబడింది`,
+    html: `
+      <h1>మార్పిడి ఉపసంహరించబడింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" మార్పిడి నుండి ${escapeHtml(data.otherPartyName)} వైదొలిగారు.</p>
+      <p>ఈ మార్పిడి కోసం కేటాయించిన పుస్తకాలు మళ్లీ అందుబాటులో ఉన్నాయి.</p>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  newMessage: (data) => ({
+    subject: `"${data.bookTitle}" గురించి ${data.senderName} నుండి కొత్త సందేశం`,
+    html: `
+      <h1>కొత్త సందేశం</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" గురించి ${escapeHtml(data.senderName)} మీకు ఒక సందేశం పంపారు:</p>
+      <blockquote>${escapeHtml(data.preview)}</blockquote>
+      ${openExchange(data.exchangeLink)}
+    `
+  }),
+
+  exchangeCompleted: (data) => ({
+    subject: 'మార్పిడి పూర్తయింది',
+    html: `
+      <h1>మార్పిడి పూర్తయింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" అప్పగింతను మీరు మరియు ${escapeHtml(data.otherPartyName)} ఇద్దరూ ధృవీకరించారు. మార్పిడి ఇప్పుడు పూర్తయింది.</p>
+      <p>మార్పిడి ఎలా జరిగిందో ఇప్పుడు మీరు సమీక్ష రాయవచ్చు.</p>
+      ${openExchange(data.exchangeLink)}
+      <p>Book Exchange Platform ను ఉపయోగించినందుకు ధన్యవాదాలు!</p>
+    `
+  }),
+
+  loanDueSoon: (data) => ({
+    subject: `రిమైండర్: "${data.bookTitle}" త్వరలో తిరిగి ఇవ్వాలి`,
+    html: `
+      <h1>తిరిగి ఇవ్వడానికి రిమైండర్</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>${escapeHtml(data.ownerName)} నుండి మీరు తీసుకున్న "${escapeHtml(data.bookTitle)}" పుస్తకాన్ని <strong>${data.dueDate}</strong> నాటికి తిరిగి ఇవ్వాలి.</p>
+      <p>దయచేసి మార్పిడి సందేశాల ద్వారా ${escapeHtml(data.ownerName)} తో తిరిగి ఇవ్వడాన్ని ఏర్పాటు చేసుకోండి.</p>
+    `
+  }),
+
+  loanOverdue: (data) => ({
+    subject: `గడువు దాటింది: "${data.bookTitle}"`,
+    html: `
+      <h1>పుస్తకం గడువు దాటింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      ${data.isOwner
+        ? `<p>${escapeHtml(data.otherPartyName)} కు మీరు ఇచ్చిన "${escapeHtml(data.bookTitle)}" పుస్తకం <strong>${data.dueDate}</strong> నాటికి తిరిగి రావాల్సి ఉంది, కానీ ఇంకా తిరిగి వచ్చినట్లు నమోదు కాలేదు.</p>
+      <p>పుస్తకం తిరిగి వచ్చాక, దయచేసి మార్పిడి పేజీ నుండి దాన్ని ధృవీకరించండి.</p>`
+        : `<p>${escapeHtml(data.otherPartyName)} నుండి మీరు తీసుకున్న "${escapeHtml(data.bookTitle)}" పుస్తకాన్ని <strong>${data.dueDate}</strong> నాటికి తిరిగి ఇవ్వాల్సి ఉంది.</p>
+      <p>దయచేసి వీలైనంత త్వరగా తిరిగి ఇవ్వండి.</p>`}
+    `
+  }),
+
+  requestExpired: (data) => ({
+    subject: `"${data.bookTitle}" కోసం మార్పిడి అభ్యర్థన గడువు ముగిసింది`,
+    html: `
+      <h1>మార్పిడి అభ్యర్థన గడువు ముగిసింది</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" కోసం మార్పిడి అభ్యర్థనపై ${data.days} రోజులుగా ఎలాంటి కార్యకలాపం లేనందున దాని గడువు ముగిసింది.</p>
+      <p>పుస్తకం మళ్లీ అందుబాటులో ఉంది. పుస్తకం జాబితా నుండి మీరు ఎప్పుడైనా కొత్త అభ్యర్థన పంపవచ్చు.</p>
+    `
+  }),
+
+  meetupReminder: (data) => ({
+    subject: `రిమైండర్: "${data.bookTitle}" కోసం సమావేశం ఒక గంటలో`,
+    html: `
+      <h1>సమావేశ రిమైండర్</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>"${escapeHtml(data.bookTitle)}" మార్పిడి కోసం మీరు ${escapeHtml(data.otherPartyName)} ను కలుస్తున్నారు: ${escapeHtml(data.meetup)}.</p>
+      <p>పుస్తకం చేతులు మారిన తర్వాత యాప్‌లో అప్పగింతను ధృవీకరించడం మర్చిపోకండి.</p>
+    `
+  }),
+
+  messageDigest: (data) => ({
+    subject: `మీకు ${countDigestMessages(data.exchanges)} చదవని సందేశాలు ఉన్నాయి`,
+    html: `
+      <h1>చదవని సందేశాలు</h1>
+      <p>నమస్తే ${escapeHtml(data.name)},</p>
+      <p>ఈ సందేశాలు మీ కోసం ఎదురుచూస్తున్నాయి:</p>
+      ${data.exchanges.map(exchange => `
+        <h3>"${escapeHtml(exchange.bookTitle)}" – ${escapeHtml(exchange.senderName)}</h3>
+        <p>${exchange.count} చదవని సందేశాలు, తాజాది:</p>
+        <blockquote>${escapeHtml(exchange.preview)}</blockquote>
+        ${openExchange(exchange.exchangeLink)}
+      `).join('')}
+    `
+  })
+};
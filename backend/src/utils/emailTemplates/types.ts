@@ -0,0 +1,95 @@
+// Sent to one party about something the other party did; otherPartyName is who acted
+interface ExchangeUpdateData {
+  name: string;
+  bookTitle: string;
+  otherPartyName: string;
+  exchangeLink: string;
+}
+
+// One exchange's unread messages in the daily digest
+export interface DigestExchange {
+  bookTitle: string;
+  senderName: string;
+  count: number;
+  preview: string;
+  exchangeLink: string;
+}
+
+export interface EmailTemplates {
+  welcome: {
+    subject: string;
+    html: string;
+    data: { name: string };
+  };
+  passwordReset: {
+    subject: string;
+    html: string;
+    data: { otp: string };
+  };
+  exchangeRequest: {
+    subject: string;
+    html: string;
+    data: { bookTitle: string; requesterName: string; exchangeLink: string };
+  };
+  exchangeAccepted: {
+    subject: string;
+    html: string;
+    data: ExchangeUpdateData;
+  };
+  exchangeRejected: {
+    subject: string;
+    html: string;
+    data: ExchangeUpdateData;
+  };
+  exchangeWithdrawn: {
+    subject: string;
+    html: string;
+    data: ExchangeUpdateData;
+  };
+  newMessage: {
+    subject: string;
+    html: string;
+    data: { name: string; senderName: string; bookTitle: string; preview: string; exchangeLink: string };
+  };
+  exchangeCompleted: {
+    subject: string;
+    html: string;
+    data: ExchangeUpdateData;
+  };
+  loanDueSoon: {
+    subject: string;
+    html: string;
+    data: { name: string; bookTitle: string; ownerName: string; dueDate: string };
+  };
+  loanOverdue: {
+    subject: string;
+    html: string;
+    data: { name: string; bookTitle: string; otherPartyName: string; dueDate: string; isOwner: boolean };
+  };
+  requestExpired: {
+    subject: string;
+    html: string;
+    data: { name: string; bookTitle: string; days: number };
+  };
+  meetupReminder: {
+    subject: string;
+    html: string;
+    data: { name: string; bookTitle: string; otherPartyName: string; meetup: string };
+  };
+  messageDigest: {
+    subject: string;
+    html: string;
+    data: { name: string; exchanges: DigestExchange[] };
+  };
+}
+
+export type EmailType = keyof EmailTemplates;
+
+export type EmailData<T extends EmailType> = EmailTemplates[T]['data'];
+
+export type RenderedEmail = Pick<EmailTemplates[EmailType], 'subject' | 'html'>;
+
+// One language's templates; languages may leave some out and fall back to English
+export type EmailCatalogue = {
+  [K in EmailType]: (data: EmailData<K>) => RenderedEmail;
+};
@@ -14,57 +14,88 @@ import PrivateRoute from './components/routing/PrivateRoute';
 
 import { AuthProvider } from './context/AuthContext';
 import { LoadingProvider } from './context/LoadingContext';
+import { RealtimeProvider } from './context/RealtimeContext';
 import SecurityQuestions from './components/auth/SecurityQuestions';
 import ForgotPassword from './components/auth/ForgotPassword';
 import ExchangeList from './components/exchange/ExchangeList';
+import AdminDisputes from './components/admin/AdminDisputes';
+import AdminEmails from './components/admin/AdminEmails';
+import SwapOpportunities from './components/swaps/SwapOpportunities';
+import DevOutbox from './components/dev/DevOutbox';
 
 function App() {
   return (
     <AuthProvider>
-      <LoadingProvider>
-        <SnackbarProvider maxSnack={3}>
-          <Router>
-            <ThemeProvider theme={theme}>
-              <CssBaseline />
-              <Navbar />
-              <Routes>
-                {/* Public Routes */}
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
-                <Route path="/forgot-password" element={<ForgotPassword />} />
-                <Route path="/reset-password/security" element={<SecurityQuestions />} />
-                
-                {/* Private Routes */}
-                <Route path="/" element={
-                  <PrivateRoute>
-                    <BookList />
-                  </PrivateRoute>
-                } />
-                <Route path="/books" element={
-                  <PrivateRoute>
-                    <BookList />
-                  </PrivateRoute>
-                } />
-                <Route path="/add-book" element={
-                  <PrivateRoute>
-                    <AddBook />
-                  </PrivateRoute>
-                } />
-                  <Route path="/exchanges" element={
-                  <PrivateRoute>
-                    <ExchangeList />
-                  </PrivateRoute>
-                } />
-                <Route path="/profile" element={
-                  <PrivateRoute>
-                    <UserProfile />
-                  </PrivateRoute>
-                } />
-              </Routes>
-            </ThemeProvider>
-          </Router>
-        </SnackbarProvider>
-      </LoadingProvider>
+      <RealtimeProvider>
+        <LoadingProvider>
+          <SnackbarProvider maxSnack={3}>
+            <Router>
+              <ThemeProvider theme={theme}>
+                <CssBaseline />
+                <Navbar />
+                <Routes>
+                  {/* Public Routes */}
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password/security" element={<SecurityQuestions />} />
+                  
+                  {/* Private Routes */}
+                  <Route path="/" element={
+                    <PrivateRoute>
+                      <BookList />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/books" element={
+                    <PrivateRoute>
+                      <BookList />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/add-book" element={
+                    <PrivateRoute>
+                      <AddBook />
+                    </PrivateRoute>
+                  } />
+                    <Route path="/exchanges" element={
+                    <PrivateRoute>
+                      <ExchangeList />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/profile" element={
+                    <PrivateRoute>
+                      <UserProfile />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/swaps" element={
+                    <PrivateRoute>
+                      <SwapOpportunities />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/admin/disputes" element={
+                    <PrivateRoute>
+                      <AdminDisputes />
+                    </PrivateRoute>
+                  } />
+                  <Route path="/admin/emails" element={
+                    <PrivateRoute>
+                      <AdminEmails />
+                    </PrivateRoute>
+                  } />
+
+                  {/* Development Routes */}
+                  {process.env.NODE_ENV !== 'production' && (
+                    <Route path="/dev/outbox" element={
+                      <PrivateRoute>
+                        <DevOutbox />
+                      </PrivateRoute>
+                    } />
+                  )}
+                </Routes>
+              </ThemeProvider>
+            </Router>
+          </SnackbarProvider>
+        </LoadingProvider>
+      </RealtimeProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tab,
+  Tabs,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useSnackbar } from 'notistack';
+import { useAuth } from '../../context/AuthContext';
+import { disputeAPI } from '../../services/api';
+import { Dispute, DisputeOutcome } from '../../types/models';
+import { DISPUTE_OUTCOME_LABELS } from '../constants/disputes';
+import DisputeTimeline from '../exchange/DisputeTimeline';
+
+interface ResolveDisputeDialogProps {
+  dispute: Dispute | null;
+  onClose: () => void;
+  onResolved: (dispute: Dispute) => void;
+}
+
+const ResolveDisputeDialog = ({ dispute, onClose, onResolved }: ResolveDisputeDialogProps) => {
+  const [outcome, setOutcome] = useState<DisputeOutcome>('upheld');
+  const [note, setNote] = useState('');
+  const [penalty, setPenalty] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOutcome('upheld');
+    setNote('');
+    setPenalty(0);
+    setError(null);
+  }, [dispute]);
+
+  if (!dispute) return null;
+
+  const penalizedName = outcome === 'upheld'
+    ? dispute.respondent.name
+    : outcome === 'dismissed' ? dispute.reporter.name : null;
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      onResolved(await disputeAPI.resolveDispute(dispute.id, outcome, note.trim(), penalizedName ? penalty : 0));
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to resolve dispute');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Resolve Dispute</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel>Outcome</InputLabel>
+            <Select
+              label="Outcome"
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as DisputeOutcome)}
+            >
+              {(Object.keys(DISPUTE_OUTCOME_LABELS) as DisputeOutcome[]).map(value => (
+                <MenuItem key={value} value={value}>{DISPUTE_OUTCOME_LABELS[value]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {penalizedName && (
+            <TextField
+              fullWidth
+              type="number"
+              label={`Reputation penalty for ${penalizedName}`}
+              value={penalty}
+              onChange={(e) => setPenalty(Number(e.target.value))}
+              inputProps={{ min: 0, max: 5, step: 0.1 }}
+              helperText="Subtracted from their review score (0 to 5)"
+            />
+          )}
+
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Resolution Note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {submitting ? <CircularProgress size={24} /> : 'Resolve'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const AdminDisputes = () => {
+  const { user } = useAuth();
+  const { enqueueSnackbar } = useSnackbar();
+  const [status, setStatus] = useState<'open' | 'resolved'>('open');
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState<Dispute | null>(null);
+  const isAdmin = user?.role === 'admin';
+
+  const fetchDisputes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setDisputes(await disputeAPI.listDisputes(status));
+    } catch (error) {
+      enqueueSnackbar('Failed to fetch disputes', { variant: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, enqueueSnackbar]);
+
+  useEffect(() => {
+    if (isAdmin) fetchDisputes();
+  }, [isAdmin, fetchDisputes]);
+
+  if (!isAdmin) {
+    return <Navigate to="/" />;
+  }
+
+  const handleComment = async (dispute: Dispute, note: string) => {
+    try {
+      const updated = await disputeAPI.addComment(dispute.id, note);
+      setDisputes(prev => prev.map(d => d.id === updated.id ? { ...updated, transaction: d.transaction } : d));
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to add comment', { variant: 'error' });
+    }
+  };
+
+  const handleResolved = (resolved: Dispute) => {
+    setDisputes(prev => prev.filter(d => d.id !== resolved.id));
+    enqueueSnackbar('Dispute resolved', { variant: 'success' });
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Disputes
+      </Typography>
+
+      <Tabs value={status} onChange={(_event, value) => setStatus(value)} sx={{ mb: 3 }}>
+        <Tab label="Open" value="open" />
+        <Tab label="Resolved" value="resolved" />
+      </Tabs>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : disputes.length === 0 ? (
+        <Typography color="text.secondary" align="center">
+          No {status} disputes
+        </Typography>
+      ) : (
+        disputes.map(dispute => (
+          <Paper key={dispute.id} sx={{ p: 3, mb: 2 }}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {typeof dispute.transaction === 'object' && `"${dispute.transaction.book.title}" · `}
+              {dispute.reporter.name} reported {dispute.respondent.name} · exchange was {dispute.frozenStatus}
+            </Typography>
+            <DisputeTimeline
+              dispute={dispute}
+              onComment={(note) => handleComment(dispute, note)}
+            />
+            {dispute.status === 'open' && (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                <Button variant="contained" onClick={() => setResolving(dispute)}>
+                  Resolve
+                </Button>
+              </Box>
+            )}
+          </Paper>
+        ))
+      )}
+
+      <ResolveDisputeDialog
+        dispute={resolving}
+        onClose={() => setResolving(null)}
+        onResolved={handleResolved}
+      />
+    </Container>
+  );
+};
+
+export default AdminDisputes;
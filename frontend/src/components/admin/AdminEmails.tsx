@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Paper,
+  Stack,
+  Typography
+} from '@mui/material';
+import { useSnackbar } from 'notistack';
+import { useAuth } from '../../context/AuthContext';
+import { emailAPI } from '../../services/api';
+import { QueuedEmail, QueuedEmailStatus } from '../../types/models';
+
+const QUEUE_STATUSES: QueuedEmailStatus[] = ['pending', 'sending', 'sent', 'failed'];
+
+const AdminEmails = () => {
+  const { user } = useAuth();
+  const { enqueueSnackbar } = useSnackbar();
+  const [emails, setEmails] = useState<QueuedEmail[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<QueuedEmailStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [resending, setResending] = useState<string | null>(null);
+  const isAdmin = user?.role === 'admin';
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      setLoading(true);
+      const failed = await emailAPI.getFailedEmails();
+      setEmails(failed.emails);
+      setCounts(failed.counts);
+    } catch (error) {
+      enqueueSnackbar('Failed to fetch failed emails', { variant: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [enqueueSnackbar]);
+
+  useEffect(() => {
+    if (isAdmin) fetchEmails();
+  }, [isAdmin, fetchEmails]);
+
+  if (!isAdmin) {
+    return <Navigate to="/" />;
+  }
+
+  const handleResend = async (email: QueuedEmail) => {
+    try {
+      setResending(email.id);
+      await emailAPI.resend(email.id);
+      setEmails(prev => prev.filter(e => e.id !== email.id));
+      setCounts(prev => ({
+        ...prev,
+        failed: Math.max((prev.failed || 0) - 1, 0),
+        pending: (prev.pending || 0) + 1
+      }));
+      enqueueSnackbar('Email queued for another attempt', { variant: 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to resend email', { variant: 'error' });
+    } finally {
+      setResending(null);
+    }
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">
+          Failed Emails
+        </Typography>
+        <Button onClick={fetchEmails} disabled={loading}>
+          Refresh
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 3 }}>
+        {QUEUE_STATUSES.map(status => (
+          <Chip
+            key={status}
+            label={`${status}: ${counts[status] || 0}`}
+            color={status === 'failed' && counts.failed ? 'error' : 'default'}
+            variant="outlined"
+            size="small"
+          />
+        ))}
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : emails.length === 0 ? (
+        <Typography color="text.secondary" align="center">
+          No failed emails
+        </Typography>
+      ) : (
+        <Stack spacing={2}>
+          {emails.map(email => (
+            <Paper key={email.id} sx={{ p: 3 }}>
+              <Typography variant="subtitle1">{email.subject}</Typography>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {email.type} to {email.to} · {email.attempts} attempts · last tried {new Date(email.updatedAt).toLocaleString()}
+              </Typography>
+              {email.lastError && (
+                <Typography variant="body2" color="error">
+                  {email.lastError}
+                </Typography>
+              )}
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                <Button
+                  variant="contained"
+                  onClick={() => handleResend(email)}
+                  disabled={resending === email.id}
+                >
+                  {resending === email.id ? <CircularProgress size={24} /> : 'Resend'}
+                </Button>
+              </Box>
+            </Paper>
+          ))}
+        </Stack>
+      )}
+    </Container>
+  );
+};
+
+export default AdminEmails;
@@ -31,6 +31,7 @@ interface ApiLoginResponse {
       genres: string[];
     };
     reputation?: number;
+    role?: 'user' | 'admin';
     createdAt?: string;
   };
 }
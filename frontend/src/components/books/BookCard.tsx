@@ -9,11 +9,16 @@ import {
   IconButton,
   Menu,
   MenuItem,
+  Rating,
 } from '@mui/material';
 import {
   MoreVert as MoreVertIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
+  AddShoppingCart as AddCartIcon,
+  RemoveShoppingCart as RemoveCartIcon,
+  Favorite as FavoriteIcon,
+  FavoriteBorder as FavoriteBorderIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../../context/AuthContext';
 import { Book } from '../../types/models';
@@ -24,6 +29,10 @@ interface BookCardProps {
   onEdit?: (book: Book) => void;
   onDelete?: (bookId: string) => void;
   showActions?: boolean;
+  inCart?: boolean;
+  onToggleCart?: (book: Book) => void;
+  wanted?: boolean;
+  onToggleWanted?: (book: Book) => void;
 }
 
 const getStatusColor = (status: string) => {
@@ -46,7 +55,7 @@ const getConditionColor = (condition: string) => {
   }
 };
 
-const BookCard = ({ book, onEdit, onDelete, showActions }: BookCardProps) => {
+const BookCard = ({ book, onEdit, onDelete, showActions, inCart, onToggleCart, wanted, onToggleWanted }: BookCardProps) => {
   const { user } = useAuth();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [exchangeDialogOpen, setExchangeDialogOpen] = useState(false);
@@ -116,9 +125,22 @@ const BookCard = ({ book, onEdit, onDelete, showActions }: BookCardProps) => {
           </Box>
         )}
 
-        <Typography variant="h6" gutterBottom>
-          {book.title}
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
+          <Typography variant="h6" gutterBottom>
+            {book.title}
+          </Typography>
+          {!isOwner && onToggleWanted && (
+            <IconButton
+              size="small"
+              color={wanted ? 'error' : 'default'}
+              aria-label={wanted ? 'Remove from wishlist' : 'Add to wishlist'}
+              title={wanted ? 'Remove from wishlist' : 'I want this book (used to find swaps)'}
+              onClick={() => onToggleWanted(book)}
+            >
+              {wanted ? <FavoriteIcon /> : <FavoriteBorderIcon />}
+            </IconButton>
+          )}
+        </Box>
         
         <Typography color="text.secondary" gutterBottom>
           by {book.author}
@@ -156,17 +178,31 @@ const BookCard = ({ book, onEdit, onDelete, showActions }: BookCardProps) => {
           />
         </Box>
 
-        {!isOwner && book.status === 'available' && (
+        {!isOwner && (book.status === 'available' || book.canQueue) && (
           <>
             <Button
-              variant="contained"
+              variant={book.status === 'available' ? 'contained' : 'outlined'}
               fullWidth
               sx={{ mt: 2 }}
               onClick={() => setExchangeDialogOpen(true)}
             >
-              Request Exchange
+              {book.status === 'available' ? 'Request Exchange' : 'Join Waitlist'}
             </Button>
 
+            {onToggleCart && book.status === 'available' && (
+              <Button
+                variant={inCart ? 'contained' : 'text'}
+                color={inCart ? 'secondary' : 'primary'}
+                fullWidth
+                size="small"
+                sx={{ mt: 1 }}
+                startIcon={inCart ? <RemoveCartIcon /> : <AddCartIcon />}
+                onClick={() => onToggleCart(book)}
+              >
+                {inCart ? 'Remove from Request' : 'Add to Request'}
+              </Button>
+            )}
+
             <ExchangeRequestDialog 
               open={exchangeDialogOpen}
               onClose={() => setExchangeDialogOpen(false)}
@@ -175,10 +211,24 @@ const BookCard = ({ book, onEdit, onDelete, showActions }: BookCardProps) => {
           </>
         )}
 
-        {!isOwner && book.status === 'available' && book.owner && (
-          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
-            Owner: {book.owner.name}
-          </Typography>
+        {!isOwner && book.status !== 'exchanged' && book.owner && (
+          <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Owner: {book.owner.name}
+            </Typography>
+            {book.owner.reputation ? (
+              <>
+                <Rating value={book.owner.reputation} precision={0.1} size="small" readOnly />
+                <Typography variant="caption" color="text.secondary">
+                  {book.owner.reputation.toFixed(1)}
+                </Typography>
+              </>
+            ) : (
+              <Typography variant="caption" color="text.secondary">
+                No reviews yet
+              </Typography>
+            )}
+          </Box>
         )}
       </CardContent>
     </Card>
@@ -9,16 +9,19 @@ import {
   Pagination,
   MenuItem,
   TextField,
-  Stack
+  Stack,
+  Paper,
+  Button
 } from '@mui/material';
-import { Add as AddIcon } from '@mui/icons-material';
+import { Add as AddIcon, ShoppingCart as CartIcon } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useSnackbar } from 'notistack';
 
 import BookCard from './BookCard';
 import SearchFilters from './SearchFilters';
 import LoadingSpinner from '../common/LoadingSpinner';
-import { bookAPI } from '../../services/api';
+import ExchangeRequestDialog from '../exchange/ExchangeRequestDialog';
+import { bookAPI, userAPI } from '../../services/api';
 import { Book, BookLocation, BookCondition, BookStatus } from '../../types/models';
 import { useAuth } from '../../context/AuthContext';
 
@@ -48,6 +51,10 @@ const BookList = () => {
     location: (user?.location || 'All') as BookLocation | 'All',
     sortBy: 'recommended'
   });
+  // Books from one owner collected for a single bundle request
+  const [cart, setCart] = useState<Book[]>([]);
+  const [cartDialogOpen, setCartDialogOpen] = useState(false);
+  const [wishlist, setWishlist] = useState<string[]>([]);
 
 
   const fetchBooks = useCallback(async () => {
@@ -93,6 +100,20 @@ const BookList = () => {
     fetchBooks();
   }, [fetchBooks]);
 
+  useEffect(() => {
+    userAPI.getWishlist()
+      .then(setWishlist)
+      .catch(err => console.error('Error fetching wishlist:', err));
+  }, []);
+
+  const handleToggleWanted = async (book: Book) => {
+    try {
+      setWishlist(await userAPI.setWanted(book.id, !wishlist.includes(book.id)));
+    } catch (err: any) {
+      enqueueSnackbar(err.message || 'Failed to update wishlist', { variant: 'error' });
+    }
+  };
+
   const handlePageChange = (_: React.ChangeEvent<unknown>, value: number) => {
     setPage(value);
     window.scrollTo(0, 0);
@@ -107,6 +128,23 @@ const BookList = () => {
     setPage(1);
   };
 
+  const handleToggleCart = (book: Book) => {
+    if (cart.some(cartBook => cartBook.id === book.id)) {
+      setCart(prev => prev.filter(cartBook => cartBook.id !== book.id));
+      return;
+    }
+
+    if (cart.length > 0 && cart[0].owner.id !== book.owner.id) {
+      enqueueSnackbar(
+        `A request can only include books from one owner. Send or clear your request to ${cart[0].owner.name} first.`,
+        { variant: 'warning' }
+      );
+      return;
+    }
+
+    setCart(prev => [...prev, book]);
+  };
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="60vh">
@@ -153,6 +191,33 @@ const BookList = () => {
           </Alert>
         )}
 
+        {cart.length > 0 && (
+          <Paper
+            variant="outlined"
+            sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}
+          >
+            <CartIcon color="primary" />
+            <Box sx={{ flexGrow: 1 }}>
+              <Typography variant="subtitle1">
+                {cart.length} {cart.length === 1 ? 'book' : 'books'} from {cart[0].owner.name}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {cart.map(cartBook => cartBook.title).join(', ')}
+              </Typography>
+            </Box>
+            <Button onClick={() => setCart([])}>
+              Clear
+            </Button>
+            <Button
+              variant="contained"
+              disabled={cart.length < 2}
+              onClick={() => setCartDialogOpen(true)}
+            >
+              Request {cart.length} Books
+            </Button>
+          </Paper>
+        )}
+
         <Grid container spacing={3}>
           {books.length === 0 ? (
             <Grid item xs={12}>
@@ -168,6 +233,10 @@ const BookList = () => {
                 <BookCard
                   book={book}
                   showActions={book.owner.id === user?.id}
+                  inCart={cart.some(cartBook => cartBook.id === book.id)}
+                  onToggleCart={handleToggleCart}
+                  wanted={wishlist.includes(book.id)}
+                  onToggleWanted={handleToggleWanted}
                 />
               </Grid>
             ))
@@ -187,6 +256,19 @@ const BookList = () => {
         )}
       </Stack>
 
+      {cart.length > 1 && (
+        <ExchangeRequestDialog
+          open={cartDialogOpen}
+          onClose={() => setCartDialogOpen(false)}
+          book={cart[0]}
+          bundle={cart}
+          onRequested={() => {
+            setCart([]);
+            fetchBooks();
+          }}
+        />
+      )}
+
       <Fab
         color="primary"
         aria-label="add book"
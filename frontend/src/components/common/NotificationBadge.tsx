@@ -1,46 +1,151 @@
 import { useState, useEffect } from 'react';
-import { Badge, IconButton } from '@mui/material';
+import {
+  Badge,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Popover,
+  Typography
+} from '@mui/material';
 import { Notifications as NotificationsIcon } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { exchangeAPI } from '../../services/api';
+import { useSnackbar } from 'notistack';
 import { useAuth } from '../../context/AuthContext';
+import { useRealtime } from '../../context/RealtimeContext';
+import { notificationAPI } from '../../services/api';
+import { AppNotification } from '../../types/models';
+
+// Exchanges open straight in the exchange list; book-only notifications go to the catalogue
+const getNotificationLink = (notification: AppNotification) => {
+  if (notification.exchange) return `/exchanges?exchange=${notification.exchange}`;
+  if (notification.book) return '/books';
+  return null;
+};
 
 const NotificationBadge = () => {
-  const [unreadCount, setUnreadCount] = useState(0);
   const navigate = useNavigate();
+  const { enqueueSnackbar } = useSnackbar();
   const { isAuthenticated } = useAuth();
+  const { unreadNotifications, setUnreadNotifications, subscribe } = useRealtime();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
 
+  // Keep the open panel current as notifications arrive
   useEffect(() => {
-    if (!isAuthenticated) return;
+    return subscribe(event => {
+      if (event.type !== 'notification') return;
+      setNotifications(prev => [event.notification, ...prev.filter(n => n.id !== event.notification.id)]);
+    });
+  }, [subscribe]);
 
-    const fetchUnreadCount = async () => {
-      try {
-        const count = await exchangeAPI.getUnreadCount();
-        setUnreadCount(count);
-      } catch (error) {
-        console.error('Failed to fetch unread count:', error);
-      }
-    };
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+
+    try {
+      setLoading(true);
+      const { notifications: latest, unreadCount } = await notificationAPI.getNotifications();
+      setNotifications(latest);
+      setUnreadNotifications(unreadCount);
+    } catch (error) {
+      enqueueSnackbar('Failed to fetch notifications', { variant: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    fetchUnreadCount();
-    const interval = setInterval(fetchUnreadCount, 30000); // Poll every 30 seconds
+  const handleSelect = async (notification: AppNotification) => {
+    setAnchorEl(null);
 
-    return () => clearInterval(interval);
-  }, [isAuthenticated]);
+    const link = getNotificationLink(notification);
+    if (link) navigate(link);
 
-  const handleClick = () => {
-    navigate('/profile', { state: { activeTab: 1 } }); // Navigate to profile
+    if (notification.read) return;
+    try {
+      setUnreadNotifications(await notificationAPI.markRead(notification.id));
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      setUnreadNotifications(await notificationAPI.markAllRead());
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to mark notifications as read', { variant: 'error' });
+    }
   };
 
   if (!isAuthenticated) return null;
 
   return (
-    <IconButton color="inherit" onClick={handleClick}>
-      <Badge badgeContent={unreadCount} color="error">
-        <NotificationsIcon />
-      </Badge>
-    </IconButton>
+    <>
+      <IconButton color="inherit" onClick={handleOpen}>
+        <Badge badgeContent={unreadNotifications} color="error">
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ width: 360, maxHeight: 480, display: 'flex', flexDirection: 'column' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', px: 2, py: 1 }}>
+            <Typography variant="subtitle1">Notifications</Typography>
+            <Button size="small" onClick={handleMarkAllRead} disabled={unreadNotifications === 0}>
+              Mark all read
+            </Button>
+          </Box>
+          <Divider />
+
+          {loading && notifications.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : notifications.length === 0 ? (
+            <Typography color="text.secondary" align="center" sx={{ p: 3 }}>
+              You're all caught up
+            </Typography>
+          ) : (
+            <List dense sx={{ overflowY: 'auto' }}>
+              {notifications.map(notification => (
+                <ListItemButton
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  sx={{ bgcolor: notification.read ? 'transparent' : 'action.hover' }}
+                >
+                  <ListItemText
+                    primary={notification.count > 1 ? `${notification.title} (${notification.count})` : notification.title}
+                    secondary={
+                      <>
+                        {notification.body && (
+                          <Typography component="span" variant="body2" display="block" noWrap>
+                            {notification.body}
+                          </Typography>
+                        )}
+                        {new Date(notification.updatedAt).toLocaleString()}
+                      </>
+                    }
+                    primaryTypographyProps={{ fontWeight: notification.read ? 'normal' : 'bold' }}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Box>
+      </Popover>
+    </>
   );
 };
 
-export default NotificationBadge;
\ No newline at end of file
+export default NotificationBadge;
@@ -0,0 +1,15 @@
+import { DisputeOutcome, DisputeReason } from '../../types/models';
+
+export const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  'not-returned': 'Book not returned',
+  'damaged': 'Book arrived damaged',
+  'not-as-described': 'Book not as described',
+  'no-show': 'Other party did not show up',
+  'other': 'Other problem'
+};
+
+export const DISPUTE_OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  upheld: 'Upheld — the reported party was at fault',
+  dismissed: 'Dismissed — the report was unfounded',
+  settled: 'Settled — no fault assigned'
+};
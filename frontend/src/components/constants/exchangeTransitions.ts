@@ -0,0 +1,40 @@
+import { Exchange, ExchangeStatus } from '../../types/models';
+
+export type ExchangeRole = 'owner' | 'requester';
+
+export interface ExchangeAction {
+  status: ExchangeStatus;
+  label: string;
+  title: string;
+  action: string;
+  color: 'success' | 'error' | 'primary';
+  variant: 'contained' | 'outlined';
+}
+
+const ACTIONS: Partial<Record<ExchangeStatus, Omit<ExchangeAction, 'status'>>> = {
+  accepted: { label: 'Approve', title: 'Accept Request', action: 'Accept', color: 'success', variant: 'contained' },
+  rejected: { label: 'Reject', title: 'Reject Request', action: 'Reject', color: 'error', variant: 'outlined' },
+  cancelled: { label: 'Withdraw Request', title: 'Withdraw Request', action: 'Withdraw', color: 'error', variant: 'outlined' }
+};
+
+// Buttons for the status moves the backend allows the current user to make
+export const getExchangeActions = (exchange: Exchange): ExchangeAction[] =>
+  exchange.allowedStatuses
+    .filter(status => ACTIONS[status])
+    .map(status => ({ status, ...ACTIONS[status]! }));
+
+export type HandoverState = 'none' | 'awaiting-me' | 'awaiting-other' | 'awaiting-both';
+
+export const getHandoverState = (exchange: Exchange, role: ExchangeRole): HandoverState => {
+  if (exchange.status !== 'accepted') return 'none';
+
+  const mine = role === 'owner' ? exchange.handover?.ownerConfirmedAt : exchange.handover?.requesterConfirmedAt;
+  const theirs = role === 'owner' ? exchange.handover?.requesterConfirmedAt : exchange.handover?.ownerConfirmedAt;
+
+  if (!mine && !theirs) return 'awaiting-both';
+  return mine ? 'awaiting-other' : 'awaiting-me';
+};
+
+// Nobody having confirmed yet still leaves the handover waiting on you
+export const isAwaitingMyConfirmation = (state: HandoverState): boolean =>
+  state === 'awaiting-me' || state === 'awaiting-both';
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Typography
+} from '@mui/material';
+import { useSnackbar } from 'notistack';
+import { devAPI } from '../../services/api';
+import { OutboxEmail } from '../../types/models';
+
+// Emails the development backend captured instead of sending
+const DevOutbox = () => {
+  const { enqueueSnackbar } = useSnackbar();
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [transport, setTransport] = useState<string | null>(null);
+  const [selected, setSelected] = useState<OutboxEmail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showText, setShowText] = useState(false);
+
+  const fetchOutbox = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const outbox = await devAPI.getOutbox();
+      setEmails(outbox.emails);
+      setTransport(outbox.transport);
+      setSelected(current => outbox.emails.find(email => email.id === current?.id) || outbox.emails[0] || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the outbox');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOutbox();
+  }, [fetchOutbox]);
+
+  const handleClear = async () => {
+    try {
+      await devAPI.clearOutbox();
+      setEmails([]);
+      setSelected(null);
+    } catch (err: any) {
+      enqueueSnackbar(err.message || 'Failed to clear the outbox', { variant: 'error' });
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">
+          Email Outbox
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button onClick={fetchOutbox} disabled={loading}>
+            Refresh
+          </Button>
+          <Button color="error" onClick={handleClear} disabled={emails.length === 0}>
+            Clear
+          </Button>
+        </Box>
+      </Box>
+
+      {transport && (
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Captured by the {transport} transport
+        </Typography>
+      )}
+
+      {error ? (
+        <Alert severity="warning">{error}</Alert>
+      ) : loading && emails.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : emails.length === 0 ? (
+        <Typography color="text.secondary" align="center">
+          No emails captured yet
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+          <Paper sx={{ width: 320, maxHeight: '70vh', overflowY: 'auto', flexShrink: 0 }}>
+            <List dense>
+              {emails.map(email => (
+                <ListItemButton
+                  key={email.id}
+                  selected={email.id === selected?.id}
+                  onClick={() => setSelected(email)}
+                >
+                  <ListItemText
+                    primary={email.subject}
+                    secondary={`${email.to} · ${new Date(email.sentAt).toLocaleString()}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          </Paper>
+
+          {selected && (
+            <Paper sx={{ flexGrow: 1, p: 2 }}>
+              <Typography variant="h6">{selected.subject}</Typography>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                From {selected.from || 'the default sender'} to {selected.to}
+              </Typography>
+              {selected.text && (
+                <Button size="small" onClick={() => setShowText(prev => !prev)} sx={{ mb: 1 }}>
+                  {showText ? 'Show HTML' : 'Show plain text'}
+                </Button>
+              )}
+              {showText && selected.text ? (
+                <Box
+                  component="pre"
+                  sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', height: '60vh', overflow: 'auto', m: 0 }}
+                >
+                  {selected.text}
+                </Box>
+              ) : (
+                // Rendered in a sandbox since the HTML includes text users wrote
+                <Box
+                  component="iframe"
+                  title={selected.subject}
+                  sandbox=""
+                  srcDoc={selected.html}
+                  sx={{ width: '100%', height: '60vh', border: 'none' }}
+                />
+              )}
+            </Paper>
+          )}
+        </Box>
+      )}
+    </Container>
+  );
+};
+
+export default DevOutbox;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Dispute } from '../../types/models';
+import { disputeAPI } from '../../services/api';
+import { DISPUTE_OUTCOME_LABELS, DISPUTE_REASON_LABELS } from '../constants/disputes';
+
+interface DisputeTimelineProps {
+  dispute: Dispute;
+  onComment?: (note: string) => Promise<void>;
+}
+
+const EVENT_LABELS: Record<Dispute['events'][number]['type'], string> = {
+  opened: 'reported the problem',
+  comment: 'commented',
+  resolved: 'resolved the dispute'
+};
+
+const EvidenceThumbnail = ({ disputeId, photoIndex }: { disputeId: string; photoIndex: number }) => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    let objectUrl: string | undefined;
+    disputeAPI.getEvidenceUrl(disputeId, photoIndex)
+      .then(created => {
+        objectUrl = created;
+        setUrl(created);
+      })
+      .catch(error => console.error('Failed to load evidence photo:', error));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [disputeId, photoIndex]);
+
+  if (!url) {
+    return (
+      <Box sx={{ width: 80, height: 80, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress size={20} />
+      </Box>
+    );
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <Box
+        component="img"
+        src={url}
+        alt="Evidence"
+        sx={{ width: 80, height: 80, objectFit: 'cover', borderRadius: 1 }}
+      />
+    </a>
+  );
+};
+
+const DisputeTimeline = ({ dispute, onComment }: DisputeTimelineProps) => {
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleComment = async () => {
+    if (!onComment || !note.trim()) return;
+
+    try {
+      setSending(true);
+      await onComment(note.trim());
+      setNote('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle1">{DISPUTE_REASON_LABELS[dispute.reason]}</Typography>
+        <Chip
+          label={dispute.status === 'open' ? 'Open' : 'Resolved'}
+          color={dispute.status === 'open' ? 'warning' : 'success'}
+          size="small"
+        />
+      </Box>
+
+      {dispute.evidencePhotos.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {dispute.evidencePhotos.map((photo, index) => (
+            <EvidenceThumbnail key={photo} disputeId={dispute.id} photoIndex={index} />
+          ))}
+        </Box>
+      )}
+
+      {dispute.events.map((event, index) => (
+        <Box key={index} sx={{ borderLeft: 2, borderColor: 'divider', pl: 2, pb: 1.5 }}>
+          <Typography variant="caption" color="text.secondary">
+            {event.actor.name} {EVENT_LABELS[event.type]} · {new Date(event.createdAt).toLocaleString()}
+          </Typography>
+          {event.note && <Typography variant="body2">{event.note}</Typography>}
+        </Box>
+      ))}
+
+      {dispute.resolution && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          Outcome: {DISPUTE_OUTCOME_LABELS[dispute.resolution.outcome]}
+        </Typography>
+      )}
+
+      {dispute.status === 'open' && onComment && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder="Add details or respond..."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={sending}
+          />
+          <Button variant="outlined" onClick={handleComment} disabled={sending || !note.trim()}>
+            Add
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default DisputeTimeline;
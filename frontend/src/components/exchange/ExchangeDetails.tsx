@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import {
   Box,
   Card,
@@ -15,13 +15,55 @@ import {
   Divider,
   Alert,
   CircularProgress,
-  Paper
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  Rating,
+  Checkbox,
+  IconButton,
+  Tooltip
 } from '@mui/material';
-import { Send as SendIcon } from '@mui/icons-material';
-import { Exchange, ExchangeStatus } from '../../types/models';
-import { exchangeAPI } from '../../services/api';
+import {
+  Done as DoneIcon,
+  DoneAll as DoneAllIcon,
+  PhotoCamera as PhotoCameraIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import {
+  BundleBookStatus,
+  Dispute,
+  DisputeReason,
+  Exchange,
+  ExchangeMessage,
+  ExchangeMessageAttachment,
+  ExchangeStatus,
+  ExchangeTerms,
+  ExchangeTermsRevision,
+  MeetupSlot,
+  Review
+} from '../../types/models';
+import { disputeAPI, exchangeAPI, reviewAPI } from '../../services/api';
 import { useAuth } from '../../context/AuthContext';
+import { POLL_INTERVAL_MS, useRealtime } from '../../context/RealtimeContext';
 import { useSnackbar } from 'notistack';
+import {
+  ExchangeRole,
+  getExchangeActions,
+  getHandoverState
+} from '../constants/exchangeTransitions';
+import { ProposeTermsDialog } from './dialogs/ProposeTermsDialog';
+import { ProposeMeetupDialog } from './dialogs/ProposeMeetupDialog';
+import { DispatchShipmentDialog } from './dialogs/DispatchShipmentDialog';
+import ShipmentTimeline from './ShipmentTimeline';
+import { ReviewDialog } from './dialogs/ReviewDialog';
+import { ReportProblemDialog } from './dialogs/ReportProblemDialog';
+import DisputeTimeline from './DisputeTimeline';
 
 interface ExchangeDetailsProps {
   exchange: Exchange;
@@ -96,15 +138,104 @@ const ActionDialog = ({ open, onClose, onSubmit, title, action }: ActionDialogPr
   );
 };
 
-const MessageList = ({ messages, currentUserId }: { 
-  messages: Exchange['messages']; 
+// How often a typing user pings the other party, and how long the indicator stays up without a new ping
+const TYPING_SIGNAL_INTERVAL_MS = 3000;
+const TYPING_INDICATOR_MS = 5000;
+
+const MAX_MESSAGE_ATTACHMENTS = 4;
+
+const MessageAttachmentThumbnail = ({ exchangeId, messageId, attachment }: {
+  exchangeId: string;
+  messageId: string;
+  attachment: ExchangeMessageAttachment;
+}) => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    let objectUrl: string | undefined;
+    exchangeAPI.getAttachmentUrl(exchangeId, messageId, attachment.id)
+      .then(created => {
+        objectUrl = created;
+        setUrl(created);
+      })
+      .catch(error => console.error('Failed to load attachment:', error));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [exchangeId, messageId, attachment.id]);
+
+  if (!url) {
+    return (
+      <Box sx={{ width: 80, height: 80, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress size={20} />
+      </Box>
+    );
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <Box
+        component="img"
+        src={url}
+        alt={attachment.originalName || 'Attachment'}
+        sx={{ width: 80, height: 80, objectFit: 'cover', borderRadius: 1 }}
+      />
+    </a>
+  );
+};
+
+const MessageList = ({ exchangeId, messages, currentUserId, hasOlder, loadingOlder, onLoadOlder }: {
+  exchangeId: string;
+  messages: ExchangeMessage[];
   currentUserId: string;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightBeforeLoad = useRef(0);
+  const firstId = messages[0]?.id;
+  const lastId = messages[messages.length - 1]?.id;
+
+  // Keep the reader's place when older messages are added above
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && heightBeforeLoad.current) {
+      container.scrollTop += container.scrollHeight - heightBeforeLoad.current;
+      heightBeforeLoad.current = 0;
+    }
+  }, [firstId]);
+
+  // Follow the conversation as new messages arrive
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [lastId]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container || container.scrollTop > 40 || !hasOlder || loadingOlder) return;
+    heightBeforeLoad.current = container.scrollHeight;
+    onLoadOlder();
+  };
+
   return (
-    <Box sx={{ maxHeight: '300px', overflowY: 'auto', p: 1 }}>
-      {messages.map((message, index) => (
+    <Box ref={containerRef} onScroll={handleScroll} sx={{ maxHeight: '300px', overflowY: 'auto', p: 1 }}>
+      {loadingOlder && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mb: 1 }}>
+          <CircularProgress size={20} />
+        </Box>
+      )}
+      {messages.map(message => message.system ? (
+        <Box key={message.id} sx={{ display: 'flex', justifyContent: 'center', mb: 1 }}>
+          <Typography variant="caption" color="text.secondary" align="center">
+            {message.content} · {new Date(message.createdAt).toLocaleString()}
+          </Typography>
+        </Box>
+      ) : (
         <Box
-          key={index}
+          key={message.id}
           sx={{
             display: 'flex',
             justifyContent: message.sender.id === currentUserId ? 'flex-end' : 'flex-start',
@@ -123,10 +254,29 @@ const MessageList = ({ messages, currentUserId }: {
             <Typography variant="caption" display="block" color={message.sender.id === currentUserId ? 'inherit' : 'text.secondary'}>
               {message.sender.name}
             </Typography>
-            <Typography variant="body2">{message.content}</Typography>
-            <Typography variant="caption" display="block" color={message.sender.id === currentUserId ? 'inherit' : 'text.secondary'}>
-              {new Date(message.createdAt).toLocaleString()}
-            </Typography>
+            {message.content && <Typography variant="body2">{message.content}</Typography>}
+            {message.attachments.length > 0 && (
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', my: 0.5 }}>
+                {message.attachments.map(attachment => (
+                  <MessageAttachmentThumbnail
+                    key={attachment.id}
+                    exchangeId={exchangeId}
+                    messageId={message.id}
+                    attachment={attachment}
+                  />
+                ))}
+              </Box>
+            )}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Typography variant="caption" color={message.sender.id === currentUserId ? 'inherit' : 'text.secondary'}>
+                {new Date(message.createdAt).toLocaleString()}
+              </Typography>
+              {message.sender.id === currentUserId && (
+                <Tooltip title={message.readAt ? `Seen ${new Date(message.readAt).toLocaleString()}` : message.read ? 'Seen' : 'Sent'}>
+                  {message.read ? <DoneAllIcon sx={{ fontSize: 14 }} /> : <DoneIcon sx={{ fontSize: 14 }} />}
+                </Tooltip>
+              )}
+            </Box>
           </Paper>
         </Box>
       ))}
@@ -134,6 +284,48 @@ const MessageList = ({ messages, currentUserId }: {
   );
 };
 
+const TERMS_FIELDS: { key: keyof ExchangeTerms; label: string }[] = [
+  { key: 'deliveryMethod', label: 'Delivery Method' },
+  { key: 'duration', label: 'Duration (days)' },
+  { key: 'location', label: 'Location' },
+  { key: 'additionalNotes', label: 'Notes' }
+];
+
+const TermsDiff = ({ current, revision }: {
+  current: ExchangeTerms;
+  revision: ExchangeTermsRevision;
+}) => {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell />
+          <TableCell>Current</TableCell>
+          <TableCell>Proposed (v{revision.version})</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {TERMS_FIELDS.map(({ key, label }) => {
+          const before = current[key] ?? '-';
+          const after = revision.terms[key] ?? '-';
+          const changed = String(before) !== String(after);
+          return (
+            <TableRow key={key} sx={changed ? { bgcolor: 'warning.light' } : undefined}>
+              <TableCell>{label}</TableCell>
+              <TableCell sx={changed ? { textDecoration: 'line-through' } : undefined}>
+                {before}
+              </TableCell>
+              <TableCell sx={changed ? { fontWeight: 'bold' } : undefined}>
+                {after}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
 const getStatusColor = (status: ExchangeStatus): "success" | "error" | "warning" | "info" | "default" => {
   switch (status) {
     case 'accepted': return 'success';
@@ -146,18 +338,109 @@ const getStatusColor = (status: ExchangeStatus): "success" | "error" | "warning"
   }
 };
 
+const getBundleStatusColor = (status: BundleBookStatus): "success" | "error" | "default" => {
+  switch (status) {
+    case 'accepted': return 'success';
+    case 'declined': return 'error';
+    default: return 'default';
+  }
+};
+
 const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps) => {
   const { user } = useAuth();
   const { enqueueSnackbar } = useSnackbar();
+  const { connected, subscribe } = useRealtime();
   const [newMessage, setNewMessage] = useState('');
+  const [messagePhotos, setMessagePhotos] = useState<File[]>([]);
   const [sending, setSending] = useState(false);
-  const messagesEndRef = useRef<null | HTMLDivElement>(null);
+  const [messages, setMessages] = useState<ExchangeMessage[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const lastMessageIdRef = useRef<string>();
+  const [otherPartyTyping, setOtherPartyTyping] = useState(false);
+  const lastTypingSentRef = useRef(0);
   const [dialogConfig, setDialogConfig] = useState<{
     open: boolean;
     title: string;
     action: string;
     status: ExchangeStatus;
   }>({ open: false, title: '', action: '', status: 'pending' });
+  const [proposeOpen, setProposeOpen] = useState(false);
+  const [acceptingTerms, setAcceptingTerms] = useState(false);
+  const role: ExchangeRole = user?.id === exchange.owner.id ? 'owner' : 'requester';
+  // An open dispute freezes the exchange until an admin resolves it
+  const isFrozen = !!exchange.dispute;
+  const actions = isFrozen ? [] : getExchangeActions(exchange);
+  const canProposeTerms = !isFrozen && exchange.allowedStatuses.includes('modified');
+  const revisions = exchange.termsRevisions || [];
+  const latestRevision = revisions[revisions.length - 1];
+  const pendingRevision = exchange.status === 'modified' && latestRevision && !latestRevision.acceptedAt
+    ? latestRevision
+    : undefined;
+  const awaitingMyAcceptance = !isFrozen && !!pendingRevision && pendingRevision.proposedBy.id !== user?.id;
+  const handoverState = isFrozen ? 'none' : getHandoverState(exchange, role);
+  const [confirmingHandover, setConfirmingHandover] = useState(false);
+  const [confirmingReturn, setConfirmingReturn] = useState(false);
+  const offeredBooks = exchange.offeredBooks || [];
+  const canChooseOffer = role === 'owner' && offeredBooks.length > 0 && actions.some(a => a.status === 'accepted');
+  const [selectedOfferId, setSelectedOfferId] = useState<string>('');
+  const bundle = exchange.bundle || [];
+  const canChooseBundleBooks = role === 'owner' && bundle.length > 0 && actions.some(a => a.status === 'accepted');
+  const [selectedBundleIds, setSelectedBundleIds] = useState<string[]>(() => bundle.map(item => item.book.id));
+  const loan = exchange.loan;
+  const isOnLoan = exchange.status === 'completed' && !!loan?.dueDate && !loan?.returnedAt;
+  const isOverdue = isOnLoan && new Date(loan!.dueDate!).getTime() < Date.now();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewEditWindowDays, setReviewEditWindowDays] = useState(0);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const myReview = reviews.find(review => review.reviewer.id === user?.id);
+  const otherParty = role === 'owner' ? exchange.requester : exchange.owner;
+  const meetup = exchange.meetup;
+  const canScheduleMeetup = !isFrozen && exchange.status === 'accepted' && exchange.terms.deliveryMethod === 'in-person';
+  const meetupProposedByMe = meetup?.proposedBy === user?.id;
+  const [meetupOpen, setMeetupOpen] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState('');
+  const [confirmingMeetup, setConfirmingMeetup] = useState(false);
+  const shipment = exchange.shipment;
+  const isShipped = ['courier', 'mail'].includes(exchange.terms.deliveryMethod) &&
+    (exchange.status === 'accepted' || !!shipment?.status);
+  const canUpdateShipment = !isFrozen && exchange.status === 'accepted';
+  const [dispatchOpen, setDispatchOpen] = useState(false);
+  const [updatingShipment, setUpdatingShipment] = useState(false);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  const openDispute = disputes.find(dispute => dispute.status === 'open');
+  const canReportProblem = !isFrozen && ['accepted', 'completed'].includes(exchange.status);
+  const canEditReview = !!myReview &&
+    Date.now() - new Date(myReview.createdAt).getTime() < reviewEditWindowDays * 24 * 60 * 60 * 1000;
+
+  useEffect(() => {
+    if (exchange.status !== 'completed') return;
+
+    const fetchReviews = async () => {
+      try {
+        const { reviews, editWindowDays } = await reviewAPI.getExchangeReviews(exchange.id);
+        setReviews(reviews);
+        setReviewEditWindowDays(editWindowDays);
+      } catch (error) {
+        console.error('Failed to fetch reviews:', error);
+      }
+    };
+
+    fetchReviews();
+  }, [exchange.id, exchange.status]);
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      try {
+        setDisputes(await disputeAPI.getExchangeDisputes(exchange.id));
+      } catch (error) {
+        console.error('Failed to fetch disputes:', error);
+      }
+    };
+
+    fetchDisputes();
+  }, [exchange.id, exchange.dispute]);
 
   const handleStatusUpdate = async (message: string) => {
     try {
@@ -167,7 +450,9 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
         exchange.id,
         dialogConfig.status,
         undefined,
-        message || undefined
+        message || undefined,
+        dialogConfig.status === 'accepted' ? selectedOfferId || undefined : undefined,
+        dialogConfig.status === 'accepted' && canChooseBundleBooks ? selectedBundleIds : undefined
       );
       
       onUpdate(updatedExchange);
@@ -181,6 +466,123 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
     }
   };
 
+  const handleProposeTerms = async (terms: ExchangeTerms, message: string) => {
+    const updatedExchange = await exchangeAPI.proposeTerms(exchange.id, terms, message || undefined);
+    onUpdate(updatedExchange);
+    enqueueSnackbar('New terms proposed', { variant: 'success' });
+  };
+
+  const handleAcceptTerms = async () => {
+    if (!pendingRevision) return;
+
+    try {
+      setAcceptingTerms(true);
+      const updatedExchange = await exchangeAPI.acceptTerms(exchange.id, pendingRevision.version);
+      onUpdate(updatedExchange);
+      enqueueSnackbar('Revised terms accepted', { variant: 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to accept revised terms', { variant: 'error' });
+    } finally {
+      setAcceptingTerms(false);
+    }
+  };
+
+  const handleConfirmHandover = async () => {
+    try {
+      setConfirmingHandover(true);
+      const updatedExchange = await exchangeAPI.confirmHandover(exchange.id);
+      onUpdate(updatedExchange);
+      enqueueSnackbar(
+        updatedExchange.status === 'completed' ? 'Exchange completed' : 'Handover confirmed',
+        { variant: 'success' }
+      );
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to confirm handover', { variant: 'error' });
+    } finally {
+      setConfirmingHandover(false);
+    }
+  };
+
+  const handleConfirmReturn = async () => {
+    try {
+      setConfirmingReturn(true);
+      const updatedExchange = await exchangeAPI.confirmReturn(exchange.id);
+      onUpdate(updatedExchange);
+      enqueueSnackbar('Return confirmed', { variant: 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to confirm return', { variant: 'error' });
+    } finally {
+      setConfirmingReturn(false);
+    }
+  };
+
+  const handleSubmitReview = async (rating: number, comment: string) => {
+    const review = myReview
+      ? await reviewAPI.updateReview(myReview.id, rating, comment || undefined)
+      : await reviewAPI.createReview(exchange.id, rating, comment || undefined);
+    setReviews(prev => [...prev.filter(r => r.id !== review.id), review]);
+    enqueueSnackbar(myReview ? 'Review updated' : 'Review submitted', { variant: 'success' });
+  };
+
+  const handleProposeMeetup = async (slots: MeetupSlot[]) => {
+    const updatedExchange = await exchangeAPI.proposeMeetup(exchange.id, slots);
+    onUpdate(updatedExchange);
+    enqueueSnackbar(meetup?.confirmed ? 'Reschedule proposed' : 'Meeting times proposed', { variant: 'success' });
+  };
+
+  const handleConfirmMeetup = async () => {
+    try {
+      setConfirmingMeetup(true);
+      const updatedExchange = await exchangeAPI.confirmMeetup(exchange.id, selectedSlotId);
+      onUpdate(updatedExchange);
+      setSelectedSlotId('');
+      enqueueSnackbar('Meetup confirmed', { variant: 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to confirm meetup', { variant: 'error' });
+    } finally {
+      setConfirmingMeetup(false);
+    }
+  };
+
+  const handleDispatchShipment = async (details: { carrier: string; trackingNumber: string; dispatchedAt: string }) => {
+    const updatedExchange = await exchangeAPI.dispatchShipment(exchange.id, details);
+    onUpdate(updatedExchange);
+    enqueueSnackbar('Dispatch recorded', { variant: 'success' });
+  };
+
+  const handleShipmentUpdate = async (update: 'in-transit' | 'delivered') => {
+    try {
+      setUpdatingShipment(true);
+      const updatedExchange = update === 'delivered'
+        ? await exchangeAPI.confirmDelivery(exchange.id)
+        : await exchangeAPI.markShipmentInTransit(exchange.id);
+      onUpdate(updatedExchange);
+      enqueueSnackbar(update === 'delivered' ? 'Delivery confirmed' : 'Shipment marked in transit', { variant: 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to update shipment', { variant: 'error' });
+    } finally {
+      setUpdatingShipment(false);
+    }
+  };
+
+  const handleReportProblem = async (reason: DisputeReason, description: string, photos: File[]) => {
+    const dispute = await disputeAPI.openDispute(exchange.id, reason, description, photos);
+    setDisputes(prev => [dispute, ...prev]);
+    onUpdate({ ...exchange, dispute: dispute.id });
+    enqueueSnackbar('Problem reported. An admin will review it.', { variant: 'success' });
+  };
+
+  const handleDisputeComment = async (note: string) => {
+    if (!openDispute) return;
+
+    try {
+      const updated = await disputeAPI.addComment(openDispute.id, note);
+      setDisputes(prev => prev.map(dispute => dispute.id === updated.id ? updated : dispute));
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to add comment', { variant: 'error' });
+    }
+  };
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const MessageInput = ({ onSend, disabled }: { onSend: (message: string) => Promise<void>, disabled?: boolean }) => {
     const [message, setMessage] = useState('');
@@ -232,27 +634,169 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
     );
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  useEffect(() => {
+    lastMessageIdRef.current = undefined;
+    setMessages([]);
+  }, [exchange.id]);
+
+  useEffect(() => {
+    lastMessageIdRef.current = messages[messages.length - 1]?.id;
+  }, [messages]);
+
+  const appendMessages = (newMessages: ExchangeMessage[]) => {
+    setMessages(prev => [...prev, ...newMessages.filter(m => !prev.some(p => p.id === m.id))]);
+  };
+
+  const markLocallyRead = (messageIds: string[], readAt: string) => {
+    setMessages(prev => prev.map(m => messageIds.includes(m.id) ? { ...m, read: true, readAt } : m));
   };
 
+  // Load the latest page, then only what is newer than the last message shown
+  const fetchMessages = useCallback(async () => {
+    try {
+      const after = lastMessageIdRef.current;
+      const page = await exchangeAPI.getMessages(exchange.id, after ? { after } : {});
+      if (after) {
+        appendMessages(page.messages);
+      } else {
+        setMessages(page.messages);
+        setHasOlderMessages(page.hasMore);
+      }
+    } catch (error) {
+      console.error('Failed to fetch messages:', error);
+    }
+  }, [exchange.id]);
+
+  // Actions post system messages, so look for new ones whenever the exchange changes
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages, exchange.updatedAt]);
+
   useEffect(() => {
-    scrollToBottom();
-  }, [exchange.messages]);
+    return subscribe(async (event) => {
+      if (!('exchangeId' in event) || event.exchangeId !== exchange.id) return;
+
+      if (event.type === 'message') {
+        appendMessages([event.message]);
+        return;
+      }
+      if (event.type === 'messages-read') {
+        markLocallyRead(event.messageIds, event.readAt);
+        return;
+      }
+      if (event.type === 'typing') return;
+
+      try {
+        onUpdate(await exchangeAPI.getExchangeDetails(exchange.id));
+      } catch (error) {
+        console.error('Failed to refresh exchange:', error);
+      }
+    });
+  }, [subscribe, exchange.id, onUpdate]);
+
+  useEffect(() => {
+    let typingTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribe(event => {
+      if (!('exchangeId' in event) || event.exchangeId !== exchange.id) return;
+
+      if (event.type === 'typing') {
+        setOtherPartyTyping(true);
+        clearTimeout(typingTimer);
+        typingTimer = setTimeout(() => setOtherPartyTyping(false), TYPING_INDICATOR_MS);
+      } else if (event.type === 'message' && event.message.sender.id !== user?.id) {
+        clearTimeout(typingTimer);
+        setOtherPartyTyping(false);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      clearTimeout(typingTimer);
+    };
+  }, [subscribe, exchange.id, user?.id]);
+
+  // Mark the other party's messages as seen once they are on screen
+  const lastUnreadId = [...messages].reverse().find(m => !m.read && m.sender.id !== user?.id)?.id;
+  useEffect(() => {
+    if (!lastUnreadId) return;
+
+    const markRead = async () => {
+      try {
+        const { messageIds, readAt } = await exchangeAPI.markMessagesRead(exchange.id, lastUnreadId);
+        markLocallyRead(messageIds, readAt);
+      } catch (error) {
+        console.error('Failed to mark messages read:', error);
+      }
+    };
+
+    markRead();
+  }, [exchange.id, lastUnreadId]);
+
+  // Poll for new messages while the event stream is down
+  useEffect(() => {
+    if (connected) return;
+
+    const interval = setInterval(fetchMessages, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connected, fetchMessages]);
+
+  const handleLoadOlderMessages = async () => {
+    if (messages.length === 0) return;
+
+    try {
+      setLoadingOlderMessages(true);
+      const page = await exchangeAPI.getMessages(exchange.id, { before: messages[0].id });
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasOlderMessages(page.hasMore);
+    } catch (error) {
+      enqueueSnackbar('Failed to load older messages', { variant: 'error' });
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
 
   const handleAction = (status: ExchangeStatus, title: string, action: string) => {
     console.log('Handling action:', { status, title, action });
+    if (status === 'accepted' && canChooseOffer && !selectedOfferId) {
+      enqueueSnackbar('Choose which offered book you want in return', { variant: 'warning' });
+      return;
+    }
+    if (status === 'accepted' && canChooseBundleBooks && selectedBundleIds.length === 0) {
+      enqueueSnackbar('Choose at least one book to accept', { variant: 'warning' });
+      return;
+    }
     setDialogConfig({ open: true, title, action, status });
   };
 
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+
+    const now = Date.now();
+    if (connected && value.trim() && now - lastTypingSentRef.current > TYPING_SIGNAL_INTERVAL_MS) {
+      lastTypingSentRef.current = now;
+      exchangeAPI.sendTyping(exchange.id);
+    }
+  };
+
+  const handleMessagePhotosChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...messagePhotos, ...Array.from(event.target.files || [])];
+    event.target.value = '';
+    if (files.length > MAX_MESSAGE_ATTACHMENTS) {
+      enqueueSnackbar(`You can attach up to ${MAX_MESSAGE_ATTACHMENTS} photos`, { variant: 'warning' });
+      return;
+    }
+    setMessagePhotos(files);
+  };
+
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || !exchange?.id) return;
+    if ((!newMessage.trim() && messagePhotos.length === 0) || !exchange?.id) return;
 
     try {
       setSending(true);
-      const response = await exchangeAPI.sendMessage(exchange.id, newMessage.trim());
+      const sent = await exchangeAPI.sendMessage(exchange.id, newMessage.trim(), messagePhotos);
       setNewMessage('');
-      onUpdate(response);
+      setMessagePhotos([]);
+      appendMessages([sent]);
       enqueueSnackbar('Message sent successfully', { variant: 'success' });
     } catch (error: any) {
       console.error('Send message error:', error);
@@ -277,16 +821,99 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
           />
         </Box>
 
+        {openDispute && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            A problem has been reported on this exchange. Its status is frozen until an admin resolves the dispute.
+            <Box sx={{ mt: 2 }}>
+              <DisputeTimeline dispute={openDispute} onComment={handleDisputeComment} />
+            </Box>
+          </Alert>
+        )}
+
         <Grid container spacing={3}>
           <Grid item xs={12} md={6}>
-            <Typography variant="h6" gutterBottom>Book Details</Typography>
-            <Typography variant="subtitle1">{exchange.book.title}</Typography>
-            <Typography color="text.secondary" gutterBottom>
-              by {exchange.book.author}
-            </Typography>
-            <Typography variant="body2" gutterBottom>
-              Condition: {exchange.book.condition}
-            </Typography>
+            {bundle.length > 0 ? (
+              <>
+                <Typography variant="h6" gutterBottom>Books ({bundle.length})</Typography>
+                {canChooseBundleBooks && (
+                  <Typography variant="body2" color="text.secondary">
+                    Untick any books you do not want to lend
+                  </Typography>
+                )}
+                {bundle.map(item => canChooseBundleBooks ? (
+                  <FormControlLabel
+                    key={item.book.id}
+                    sx={{ display: 'flex' }}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={selectedBundleIds.includes(item.book.id)}
+                        onChange={() => setSelectedBundleIds(prev =>
+                          prev.includes(item.book.id)
+                            ? prev.filter(id => id !== item.book.id)
+                            : [...prev, item.book.id]
+                        )}
+                      />
+                    }
+                    label={`${item.book.title} by ${item.book.author} (${item.book.condition})`}
+                  />
+                ) : (
+                  <Box key={item.book.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                    <Typography variant="body2">
+                      {item.book.title} by {item.book.author} ({item.book.condition})
+                    </Typography>
+                    <Chip label={item.status} color={getBundleStatusColor(item.status)} size="small" />
+                  </Box>
+                ))}
+              </>
+            ) : (
+              <>
+                <Typography variant="h6" gutterBottom>Book Details</Typography>
+                <Typography variant="subtitle1">{exchange.book.title}</Typography>
+                <Typography color="text.secondary" gutterBottom>
+                  by {exchange.book.author}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Condition: {exchange.book.condition}
+                </Typography>
+              </>
+            )}
+
+            {exchange.acceptedOfferBook ? (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2">In return</Typography>
+                <Typography variant="body2">
+                  {exchange.acceptedOfferBook.title} by {exchange.acceptedOfferBook.author}
+                </Typography>
+              </Box>
+            ) : offeredBooks.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2">
+                  {canChooseOffer ? 'Choose a book to accept in return' : 'Offered in return'}
+                </Typography>
+                {canChooseOffer ? (
+                  <RadioGroup
+                    value={selectedOfferId}
+                    onChange={(e) => setSelectedOfferId(e.target.value)}
+                  >
+                    {offeredBooks.map(offered => (
+                      <FormControlLabel
+                        key={offered.id}
+                        value={offered.id}
+                        control={<Radio size="small" />}
+                        label={`${offered.title} by ${offered.author} (${offered.condition})`}
+                      />
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  offeredBooks.map(offered => (
+                    <Typography key={offered.id} variant="body2">
+                      {offered.title} by {offered.author} ({offered.condition})
+                    </Typography>
+                  ))
+                )}
+              </Box>
+            )}
           </Grid>
 
           <Grid item xs={12} md={6}>
@@ -297,6 +924,17 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
             <Typography variant="body2">
               Duration: {exchange.terms.duration} days
             </Typography>
+            {loan?.dueDate && (
+              <Typography variant="body2" color={isOverdue ? 'error' : 'inherit'}>
+                Due: {new Date(loan.dueDate).toLocaleDateString()}
+                {isOverdue && ' (overdue)'}
+              </Typography>
+            )}
+            {loan?.returnedAt && (
+              <Typography variant="body2">
+                Returned: {new Date(loan.returnedAt).toLocaleDateString()}
+              </Typography>
+            )}
             {exchange.terms.location && (
               <Typography variant="body2">
                 Location: {exchange.terms.location}
@@ -310,81 +948,301 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
           </Grid>
         </Grid>
 
-        <Divider sx={{ my: 3 }} />
+        {pendingRevision && (
+          <Box sx={{ mt: 3 }}>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {awaitingMyAcceptance
+                ? `${pendingRevision.proposedBy.name} proposed new terms. Accept them to continue the exchange.`
+                : 'Waiting for the other party to accept your proposed terms.'}
+            </Alert>
+            <TermsDiff current={exchange.terms} revision={pendingRevision} />
+            {awaitingMyAcceptance && (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                <Button
+                  variant="contained"
+                  color="success"
+                  onClick={handleAcceptTerms}
+                  disabled={acceptingTerms}
+                >
+                  {acceptingTerms ? <CircularProgress size={24} /> : 'Accept New Terms'}
+                </Button>
+              </Box>
+            )}
+          </Box>
+        )}
 
-        <Typography variant="h6" gutterBottom>Messages</Typography>
-        <Box sx={{ mb: 3 }}>
-          <MessageList messages={exchange.messages} currentUserId={user?.id || ''} />
-          
-          <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
-            <TextField
-              fullWidth
-              size="small"
-              placeholder="Type a message..."
-              value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              onKeyPress={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSendMessage();
-                }
-              }}
-              disabled={sending}
-            />
-            <Button
-              variant="contained"
-              color="primary"
-              onClick={handleSendMessage}
-              disabled={!newMessage.trim() || sending}
-              startIcon={<SendIcon />}
-            >
-              Send
+        {canProposeTerms && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+            <Button variant="outlined" onClick={() => setProposeOpen(true)}>
+              {pendingRevision ? 'Counter-Propose Terms' : 'Propose New Terms'}
             </Button>
           </Box>
-        </Box>
+        )}
 
-        {exchange.status === 'pending' && (
-          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
-            {user?.id === exchange.owner.id ? (
-              <>
+        <Divider sx={{ my: 3 }} />
+
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          <Grid item xs={12} md={isShipped ? 8 : 12}>
+            <Typography variant="h6" gutterBottom>Messages</Typography>
+            <Box>
+              <MessageList
+                exchangeId={exchange.id}
+                messages={messages}
+                currentUserId={user?.id || ''}
+                hasOlder={hasOlderMessages}
+                loadingOlder={loadingOlderMessages}
+                onLoadOlder={handleLoadOlderMessages}
+              />
+              {otherPartyTyping && (
+                <Typography variant="caption" color="text.secondary" sx={{ px: 1 }}>
+                  {otherParty.name} is typing...
+                </Typography>
+              )}
+          
+              <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  placeholder="Type a message..."
+                  value={newMessage}
+                  onChange={(e) => handleMessageChange(e.target.value)}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSendMessage();
+                    }
+                  }}
+                  disabled={sending}
+                />
+                <IconButton component="label" disabled={sending} title="Attach photos">
+                  <PhotoCameraIcon />
+                  <input
+                    hidden
+                    multiple
+                    type="file"
+                    accept="image/jpeg,image/png,image/gif"
+                    onChange={handleMessagePhotosChange}
+                  />
+                </IconButton>
                 <Button
                   variant="contained"
-                  color="success"
-                  onClick={() => handleAction('accepted', 'Accept Request', 'Accept')}
+                  color="primary"
+                  onClick={handleSendMessage}
+                  disabled={(!newMessage.trim() && messagePhotos.length === 0) || sending}
+                  startIcon={<SendIcon />}
                 >
-                  Approve
+                  Send
                 </Button>
+              </Box>
+              {messagePhotos.length > 0 && (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                  {messagePhotos.map((photo, index) => (
+                    <Chip
+                      key={`${photo.name}-${index}`}
+                      label={photo.name}
+                      size="small"
+                      onDelete={() => setMessagePhotos(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  ))}
+                </Box>
+              )}
+            </Box>
+          </Grid>
+
+          {isShipped && (
+            <Grid item xs={12} md={4}>
+              <Typography variant="h6" gutterBottom>Shipment</Typography>
+              <ShipmentTimeline shipment={shipment} />
+              {canUpdateShipment && (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 2 }}>
+                  {role === 'owner' && !shipment?.status && (
+                    <Button variant="contained" onClick={() => setDispatchOpen(true)}>
+                      Record Dispatch
+                    </Button>
+                  )}
+                  {role === 'owner' && shipment?.status === 'dispatched' && (
+                    <Button
+                      variant="outlined"
+                      onClick={() => handleShipmentUpdate('in-transit')}
+                      disabled={updatingShipment}
+                    >
+                      Mark In Transit
+                    </Button>
+                  )}
+                  {role === 'requester' && shipment?.status && shipment.status !== 'delivered' && (
+                    <Button
+                      variant="contained"
+                      color="success"
+                      onClick={() => handleShipmentUpdate('delivered')}
+                      disabled={updatingShipment}
+                    >
+                      {updatingShipment ? <CircularProgress size={24} /> : 'Confirm Delivery'}
+                    </Button>
+                  )}
+                </Box>
+              )}
+            </Grid>
+          )}
+        </Grid>
+
+        {canScheduleMeetup && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Meetup
+            </Typography>
+            {meetup?.confirmed ? (
+              <Alert severity="success">
+                Meeting on {new Date(meetup.confirmed.startsAt).toLocaleString()} at {meetup.confirmed.place}
+                {meetup.rescheduleCount > 0 && ` (rescheduled ${meetup.rescheduleCount}×)`}
+              </Alert>
+            ) : meetup?.slots.length ? (
+              meetupProposedByMe ? (
+                <Alert severity="info">
+                  Waiting for the other party to pick one of your proposed times.
+                </Alert>
+              ) : (
+                <>
+                  <Typography variant="body2" color="text.secondary">
+                    Pick the time and place that works for you:
+                  </Typography>
+                  <RadioGroup value={selectedSlotId} onChange={(e) => setSelectedSlotId(e.target.value)}>
+                    {meetup.slots.map(slot => (
+                      <FormControlLabel
+                        key={slot._id}
+                        value={slot._id}
+                        control={<Radio size="small" />}
+                        label={`${new Date(slot.startsAt).toLocaleString()} at ${slot.place}`}
+                      />
+                    ))}
+                  </RadioGroup>
+                </>
+              )
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                No meeting time has been arranged yet.
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end', mt: 2 }}>
+              <Button variant="outlined" onClick={() => setMeetupOpen(true)}>
+                {meetup?.confirmed ? 'Reschedule' : meetup?.slots.length ? 'Suggest Other Times' : 'Propose Meeting Times'}
+              </Button>
+              {!meetup?.confirmed && !!meetup?.slots.length && !meetupProposedByMe && (
                 <Button
-                  variant="outlined"
-                  color="error"
-                  onClick={() => handleAction('rejected', 'Reject Request', 'Reject')}
+                  variant="contained"
+                  onClick={handleConfirmMeetup}
+                  disabled={!selectedSlotId || confirmingMeetup}
                 >
-                  Reject
+                  {confirmingMeetup ? <CircularProgress size={24} /> : 'Confirm Meetup'}
                 </Button>
-              </>
-            ) : (
-              <Button
-                variant="outlined"
-                color="error"
-                onClick={() => handleAction('cancelled', 'Withdraw Request', 'Withdraw')}
-              >
-                Withdraw Request
-              </Button>
+              )}
+            </Box>
+          </Box>
+        )}
+
+        {handoverState !== 'none' && (
+          <Box sx={{ mb: 2 }}>
+            <Alert severity={handoverState === 'awaiting-me' ? 'warning' : 'info'}>
+              {handoverState === 'awaiting-me' && 'The other party has confirmed the handover. Please confirm once you have completed your side.'}
+              {handoverState === 'awaiting-other' && 'You have confirmed the handover. Waiting for the other party to confirm.'}
+              {handoverState === 'awaiting-both' && 'Once the book has changed hands, both parties confirm the handover to complete the exchange.'}
+            </Alert>
+            {handoverState !== 'awaiting-other' && (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                <Button
+                  variant="contained"
+                  color="success"
+                  onClick={handleConfirmHandover}
+                  disabled={confirmingHandover}
+                >
+                  {confirmingHandover ? <CircularProgress size={24} /> : 'Confirm Handover'}
+                </Button>
+              </Box>
             )}
           </Box>
         )}
 
-        {exchange.status === 'accepted' && (
-          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+        {isOnLoan && role === 'owner' && !isFrozen && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
             <Button
               variant="contained"
-              color="success"
-              onClick={() => handleAction('completed', 'Complete Exchange', 'Complete')}
+              onClick={handleConfirmReturn}
+              disabled={confirmingReturn}
             >
-              Mark as Completed
+              {confirmingReturn ? <CircularProgress size={24} /> : 'Confirm Book Returned'}
             </Button>
           </Box>
         )}
+
+        {exchange.status === 'completed' && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Reviews
+            </Typography>
+            {reviews.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No reviews yet
+              </Typography>
+            )}
+            {reviews.map(review => (
+              <Box key={review.id} sx={{ mb: 1 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="subtitle2">
+                    {review.reviewer.id === user?.id ? 'You' : review.reviewer.name}
+                  </Typography>
+                  <Rating value={review.rating} size="small" readOnly />
+                </Box>
+                {review.comment && (
+                  <Typography variant="body2" color="text.secondary">
+                    {review.comment}
+                  </Typography>
+                )}
+              </Box>
+            ))}
+            {(!myReview || canEditReview) && (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                <Button variant="outlined" onClick={() => setReviewOpen(true)}>
+                  {myReview ? 'Edit Your Review' : 'Leave a Review'}
+                </Button>
+              </Box>
+            )}
+          </Box>
+        )}
+
+        {disputes.some(dispute => dispute.status === 'resolved') && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Resolved Disputes
+            </Typography>
+            {disputes.filter(dispute => dispute.status === 'resolved').map(dispute => (
+              <Box key={dispute.id} sx={{ mb: 2 }}>
+                <DisputeTimeline dispute={dispute} />
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {canReportProblem && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+            <Button color="error" onClick={() => setReportOpen(true)}>
+              Report a Problem
+            </Button>
+          </Box>
+        )}
+
+        {actions.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+            {actions.map(({ status, label, title, action, color, variant }) => (
+              <Button
+                key={status}
+                variant={variant}
+                color={color}
+                onClick={() => handleAction(status, title, action)}
+              >
+                {label}
+              </Button>
+            ))}
+          </Box>
+        )}
       </CardContent>
 
       <ActionDialog
@@ -394,6 +1252,41 @@ const ExchangeDetails = ({ exchange, onUpdate, onClose }: ExchangeDetailsProps)
         title={dialogConfig.title}
         action={dialogConfig.action}
       />
+
+      <ProposeTermsDialog
+        open={proposeOpen}
+        onClose={() => setProposeOpen(false)}
+        onSubmit={handleProposeTerms}
+        currentTerms={pendingRevision ? pendingRevision.terms : exchange.terms}
+      />
+
+      <ReviewDialog
+        open={reviewOpen}
+        onClose={() => setReviewOpen(false)}
+        onSubmit={handleSubmitReview}
+        revieweeName={otherParty.name}
+        existingReview={myReview}
+      />
+
+      <ProposeMeetupDialog
+        open={meetupOpen}
+        onClose={() => setMeetupOpen(false)}
+        onSubmit={handleProposeMeetup}
+        defaultPlace={exchange.terms.location}
+        isReschedule={!!meetup?.confirmed}
+      />
+
+      <DispatchShipmentDialog
+        open={dispatchOpen}
+        onClose={() => setDispatchOpen(false)}
+        onSubmit={handleDispatchShipment}
+      />
+
+      <ReportProblemDialog
+        open={reportOpen}
+        onClose={() => setReportOpen(false)}
+        onSubmit={handleReportProblem}
+      />
     </Card>
   );
 };
@@ -13,10 +13,12 @@ import {
   Tab
 } from '@mui/material';
 import { useSnackbar } from 'notistack';
+import { useSearchParams } from 'react-router-dom';
 import { Exchange, ExchangeStatus } from '../../types/models';
 import { exchangeAPI } from '../../services/api';
 import { useAuth } from '../../context/AuthContext';
 import ExchangeDetails from './ExchangeDetails';
+import { getHandoverState, isAwaitingMyConfirmation } from '../constants/exchangeTransitions';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -75,11 +77,18 @@ const ExchangeCard = ({
   }
 
   const isOwner = user?.id === exchange.owner.id;
+  const handoverState = getHandoverState(exchange, isOwner ? 'owner' : 'requester');
 
   const handleAction = async (actionType: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (isSubmitting) return;
 
+    // Swap offers need the owner to pick a book, which happens in the details view
+    if (actionType === 'accept' && exchange.offeredBooks?.length) {
+      onClick();
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       await onAction(actionType);
@@ -104,6 +113,7 @@ const ExchangeCard = ({
           <Grid item xs={12} sm={8}>
             <Typography variant="h6" gutterBottom>
               {exchange.book.title}
+              {exchange.bundle && exchange.bundle.length > 1 && ` + ${exchange.bundle.length - 1} more`}
             </Typography>
             <Typography color="text.secondary" gutterBottom>
               by {exchange.book.author}
@@ -121,6 +131,23 @@ const ExchangeCard = ({
               size="small"
               sx={{ mb: 1 }}
             />
+            {isAwaitingMyConfirmation(handoverState) && (
+              <Chip
+                label="Awaiting your confirmation"
+                color="warning"
+                variant="outlined"
+                size="small"
+                sx={{ mb: 1, ml: 1 }}
+              />
+            )}
+            {handoverState === 'awaiting-other' && (
+              <Chip
+                label="Awaiting other party"
+                variant="outlined"
+                size="small"
+                sx={{ mb: 1, ml: 1 }}
+              />
+            )}
             <Typography variant="caption" display="block">
               {new Date(exchange.createdAt).toLocaleDateString()}
             </Typography>
@@ -194,6 +221,8 @@ const ExchangeList = () => {
   const [selectedExchange, setSelectedExchange] = useState<Exchange | null>(null);
   const { enqueueSnackbar } = useSnackbar();
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedExchangeId = searchParams.get('exchange');
 
   const fetchExchanges = useCallback(async () => {
     try {
@@ -221,6 +250,18 @@ const ExchangeList = () => {
     fetchExchanges();
   }, [fetchExchanges]);
 
+  // Open the exchange a notification or email linked to
+  useEffect(() => {
+    if (!linkedExchangeId || exchanges.length === 0) return;
+
+    const linked = exchanges.find(exchange => exchange.id === linkedExchangeId);
+    if (linked) {
+      setSelectedExchange(linked);
+      setTabValue(linked.owner.id === user?.id ? 0 : 1);
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedExchangeId, exchanges, user?.id, setSearchParams]);
+
   const handleAction = async (exchangeId: string, action: string) => {
     try {
       let status: ExchangeStatus;
@@ -263,6 +304,9 @@ const ExchangeList = () => {
 
   const receivedExchanges = exchanges.filter(e => e.owner.id === user.id);
   const sentExchanges = exchanges.filter(e => e.requester.id === user.id);
+  const awaitingConfirmation = exchanges.filter(e =>
+    isAwaitingMyConfirmation(getHandoverState(e, e.owner.id === user.id ? 'owner' : 'requester'))
+  );
 
   return (
     <Box>
@@ -271,6 +315,14 @@ const ExchangeList = () => {
         <Tab label={`Sent (${sentExchanges.length})`} />
       </Tabs>
 
+      {awaitingConfirmation.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {awaitingConfirmation.length === 1
+            ? `"${awaitingConfirmation[0].book.title}" is awaiting your handover confirmation`
+            : `${awaitingConfirmation.length} exchanges are awaiting your handover confirmation`}
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mt: 2 }}>
           {error}
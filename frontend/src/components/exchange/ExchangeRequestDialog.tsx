@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -13,11 +13,15 @@ import {
   Select,
   MenuItem,
   CircularProgress,
-  Alert
+  Alert,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  FormLabel
 } from '@mui/material';
 import { useSnackbar } from 'notistack';
 import { Book, BookLocation, DeliveryMethod, ExchangeTerms } from '../../types/models';
-import { exchangeAPI } from '../../services/api';
+import { bookAPI, exchangeAPI } from '../../services/api';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
 
@@ -25,6 +29,9 @@ interface ExchangeRequestDialogProps {
   open: boolean;
   onClose: () => void;
   book: Book;
+  // Books from the same owner to request together, including book
+  bundle?: Book[];
+  onRequested?: () => void;
 }
 
 
@@ -56,11 +63,35 @@ const validationSchema = Yup.object({
     .max(1000, 'Message cannot exceed 1000 characters')
 });
 
-const ExchangeRequestDialog = ({ open, onClose, book }: ExchangeRequestDialogProps) => {
+const ExchangeRequestDialog = ({ open, onClose, book, bundle = [], onRequested }: ExchangeRequestDialogProps) => {
   const { enqueueSnackbar } = useSnackbar();
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [myBooks, setMyBooks] = useState<Book[]>([]);
+  const [offeredBookIds, setOfferedBookIds] = useState<string[]>([]);
+  const isBundle = bundle.length > 1;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchMyBooks = async () => {
+      try {
+        const response = await bookAPI.getUserBooks();
+        setMyBooks(response.books.filter(myBook => myBook.status === 'available'));
+      } catch (err) {
+        console.error('Failed to fetch your books:', err);
+      }
+    };
+
+    fetchMyBooks();
+  }, [open]);
+
+  const toggleOfferedBook = (bookId: string) => {
+    setOfferedBookIds(prev =>
+      prev.includes(bookId) ? prev.filter(id => id !== bookId) : [...prev, bookId]
+    );
+  };
 
   const formik = useFormik({
     initialValues: {
@@ -83,8 +114,20 @@ const ExchangeRequestDialog = ({ open, onClose, book }: ExchangeRequestDialogPro
           additionalNotes: values.additionalNotes
         };
 
-        await exchangeAPI.createRequest(book.id, terms, values.message);
-        enqueueSnackbar('Exchange request sent successfully', { variant: 'success' });
+        const exchange = await exchangeAPI.createRequest(
+          book.id,
+          terms,
+          values.message,
+          offeredBookIds,
+          bundle.map(bundleBook => bundleBook.id)
+        );
+        enqueueSnackbar(
+          exchange.status === 'queued'
+            ? 'You have joined the waitlist for this book'
+            : 'Exchange request sent successfully',
+          { variant: 'success' }
+        );
+        onRequested?.();
         onClose();
       } catch (error: any) {
         console.error('Create request error:', error);
@@ -100,12 +143,17 @@ const ExchangeRequestDialog = ({ open, onClose, book }: ExchangeRequestDialogPro
   const handleClose = () => {
     formik.resetForm();
     setError(null);
+    setOfferedBookIds([]);
     onClose();
   };
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
-      <DialogTitle>Request Book Exchange</DialogTitle>
+      <DialogTitle>
+        {isBundle
+          ? `Request ${bundle.length} Books`
+          : book.status === 'pending' ? 'Join Waitlist' : 'Request Book Exchange'}
+      </DialogTitle>
       <form onSubmit={formik.handleSubmit}>
         <DialogContent>
           {error && (
@@ -115,14 +163,37 @@ const ExchangeRequestDialog = ({ open, onClose, book }: ExchangeRequestDialogPro
           )}
 
           <Box sx={{ mb: 3 }}>
-            <Typography variant="subtitle1">Book Details</Typography>
-            <Typography variant="h6">{book.title}</Typography>
-            <Typography variant="body2" color="text.secondary">
-              by {book.author}
-            </Typography>
+            <Typography variant="subtitle1">{isBundle ? 'Books' : 'Book Details'}</Typography>
+            {isBundle ? (
+              bundle.map(bundleBook => (
+                <Typography key={bundleBook.id} variant="body1">
+                  {bundleBook.title}{' '}
+                  <Typography component="span" variant="body2" color="text.secondary">
+                    by {bundleBook.author}
+                  </Typography>
+                </Typography>
+              ))
+            ) : (
+              <>
+                <Typography variant="h6">{book.title}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  by {book.author}
+                </Typography>
+              </>
+            )}
             <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
               Owner: {book.owner.name}
             </Typography>
+            {isBundle && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                The owner can accept all of these books or only some of them. You will share one conversation for the whole request.
+              </Alert>
+            )}
+            {!isBundle && book.status === 'pending' && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                This book already has an open request. Unless the owner has accepted it, yours will be queued and considered if that one falls through.
+              </Alert>
+            )}
           </Box>
 
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
@@ -182,6 +253,26 @@ const ExchangeRequestDialog = ({ open, onClose, book }: ExchangeRequestDialogPro
               placeholder="Introduce yourself and explain why you're interested in this book..."
             />
 
+            {myBooks.length > 0 && (
+              <FormControl component="fieldset">
+                <FormLabel component="legend">Offer your books in return (optional)</FormLabel>
+                <FormGroup>
+                  {myBooks.map(myBook => (
+                    <FormControlLabel
+                      key={myBook.id}
+                      control={
+                        <Checkbox
+                          checked={offeredBookIds.includes(myBook.id)}
+                          onChange={() => toggleOfferedBook(myBook.id)}
+                        />
+                      }
+                      label={`${myBook.title} by ${myBook.author} (${myBook.condition})`}
+                    />
+                  ))}
+                </FormGroup>
+              </FormControl>
+            )}
+
             <TextField
               fullWidth
               multiline
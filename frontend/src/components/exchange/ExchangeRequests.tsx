@@ -66,6 +66,7 @@ const ExchangeCard = ({ exchange, onClick }: { exchange: Exchange; onClick: () =
           <Grid item xs={12} sm={8}>
             <Typography variant="h6" gutterBottom>
               {exchange.book.title}
+              {exchange.bundle && exchange.bundle.length > 1 && ` + ${exchange.bundle.length - 1} more`}
             </Typography>
             <Typography color="text.secondary" gutterBottom>
               by {exchange.book.author}
@@ -0,0 +1,54 @@
+import { Box, Step, StepContent, StepLabel, Stepper, Typography } from '@mui/material';
+import { ExchangeShipment, ShipmentStatus } from '../../types/models';
+
+const SHIPMENT_STEPS: { status: ShipmentStatus; label: string }[] = [
+  { status: 'dispatched', label: 'Dispatched' },
+  { status: 'in-transit', label: 'In transit' },
+  { status: 'delivered', label: 'Delivered' }
+];
+
+interface ShipmentTimelineProps {
+  shipment?: ExchangeShipment;
+}
+
+const ShipmentTimeline = ({ shipment }: ShipmentTimelineProps) => {
+  if (!shipment?.status) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        The book has not been dispatched yet.
+      </Typography>
+    );
+  }
+
+  const activeStep = SHIPMENT_STEPS.findIndex(step => step.status === shipment.status);
+
+  return (
+    <Box>
+      <Typography variant="body2" gutterBottom>
+        {shipment.carrier} · {shipment.trackingNumber}
+      </Typography>
+      <Stepper activeStep={activeStep + 1} orientation="vertical">
+        {SHIPMENT_STEPS.map(step => {
+          const event = shipment.events.find(e => e.status === step.status);
+          const date = step.status === 'dispatched' ? shipment.dispatchedAt : event?.createdAt;
+
+          return (
+            <Step key={step.status} completed={!!event} expanded={!!event}>
+              <StepLabel>{step.label}</StepLabel>
+              <StepContent>
+                {date && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {new Date(date).toLocaleDateString()}
+                  </Typography>
+                )}
+                {event?.note && <Typography variant="body2">{event.note}</Typography>}
+              </StepContent>
+            </Step>
+          );
+        })}
+      </Stepper>
+    </Box>
+  );
+};
+
+export default ShipmentTimeline;
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  TextField
+} from "@mui/material";
+
+interface DispatchShipmentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (shipment: { carrier: string; trackingNumber: string; dispatchedAt: string }) => Promise<void>;
+}
+
+const today = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+export const DispatchShipmentDialog = ({ open, onClose, onSubmit }: DispatchShipmentDialogProps) => {
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [dispatchedOn, setDispatchedOn] = useState(today());
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setCarrier('');
+      setTrackingNumber('');
+      setDispatchedOn(today());
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit({
+        carrier: carrier.trim(),
+        trackingNumber: trackingNumber.trim(),
+        // Local midnight of the chosen day, so today never counts as a future date
+        dispatchedAt: new Date(`${dispatchedOn}T00:00`).toISOString()
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to record shipment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Record Dispatch</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+          <TextField
+            fullWidth
+            label="Carrier"
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value)}
+            placeholder="e.g. India Post, Blue Dart"
+            inputProps={{ maxLength: 100 }}
+          />
+          <TextField
+            fullWidth
+            label="Tracking Number"
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            inputProps={{ maxLength: 100 }}
+          />
+          <TextField
+            fullWidth
+            type="date"
+            label="Dispatch Date"
+            value={dispatchedOn}
+            onChange={(e) => setDispatchedOn(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ max: today() }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || !carrier.trim() || !trackingNumber.trim() || !dispatchedOn}
+        >
+          {submitting ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  TextField
+} from "@mui/material";
+import { Add as AddIcon, Delete as DeleteIcon } from "@mui/icons-material";
+import { MeetupSlot } from "../../../types/models";
+
+const MAX_MEETUP_SLOTS = 5;
+
+interface ProposeMeetupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (slots: MeetupSlot[]) => Promise<void>;
+  defaultPlace?: string;
+  isReschedule: boolean;
+}
+
+interface SlotInput {
+  startsAt: string;
+  place: string;
+}
+
+export const ProposeMeetupDialog = ({ open, onClose, onSubmit, defaultPlace, isReschedule }: ProposeMeetupDialogProps) => {
+  const [slots, setSlots] = useState<SlotInput[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSlots([{ startsAt: '', place: defaultPlace || '' }]);
+      setError(null);
+    }
+  }, [open, defaultPlace]);
+
+  const updateSlot = (index: number, field: keyof SlotInput, value: string) => {
+    setSlots(prev => prev.map((slot, i) => i === index ? { ...slot, [field]: value } : slot));
+  };
+
+  const isValid = slots.length > 0 && slots.every(slot =>
+    slot.startsAt && new Date(slot.startsAt).getTime() > Date.now() && slot.place.trim()
+  );
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(slots.map(slot => ({
+        // datetime-local values are in the browser's time zone
+        startsAt: new Date(slot.startsAt).toISOString(),
+        place: slot.place.trim()
+      })));
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to propose meeting times');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isReschedule ? 'Reschedule Meetup' : 'Propose Meeting Times'}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {slots.map((slot, index) => (
+            <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                type="datetime-local"
+                label="Time"
+                value={slot.startsAt}
+                onChange={(e) => updateSlot(index, 'startsAt', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Place"
+                value={slot.place}
+                onChange={(e) => updateSlot(index, 'place', e.target.value)}
+                inputProps={{ maxLength: 200 }}
+                sx={{ flex: 1 }}
+              />
+              <IconButton
+                onClick={() => setSlots(prev => prev.filter((_, i) => i !== index))}
+                disabled={slots.length === 1}
+              >
+                <DeleteIcon />
+              </IconButton>
+            </Box>
+          ))}
+          {slots.length < MAX_MEETUP_SLOTS && (
+            <Box>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={() => setSlots(prev => [...prev, { startsAt: '', place: defaultPlace || '' }])}
+              >
+                Add Another Option
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting || !isValid}>
+          {submitting ? <CircularProgress size={24} /> : 'Send Options'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
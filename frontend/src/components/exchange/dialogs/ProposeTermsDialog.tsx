@@ -0,0 +1,167 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField
+} from "@mui/material";
+import { useFormik } from "formik";
+import * as Yup from "yup";
+import { BookLocation, DeliveryMethod, ExchangeTerms } from "../../../types/models";
+
+interface ProposeTermsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (terms: ExchangeTerms, message: string) => Promise<void>;
+  currentTerms: ExchangeTerms;
+}
+
+const validationSchema = Yup.object({
+  deliveryMethod: Yup.string()
+    .required('Delivery method is required')
+    .oneOf(['in-person', 'courier', 'mail'] as DeliveryMethod[]),
+  duration: Yup.number()
+    .required('Duration is required')
+    .min(1, 'Duration must be at least 1 day')
+    .max(90, 'Duration cannot exceed 90 days'),
+  location: Yup.string()
+    .when('deliveryMethod', {
+      is: 'in-person',
+      then: (schema) => schema.required('Location is required for in-person delivery'),
+      otherwise: (schema) => schema.optional()
+    }),
+  additionalNotes: Yup.string()
+    .max(500, 'Notes cannot exceed 500 characters'),
+  message: Yup.string()
+    .max(1000, 'Message cannot exceed 1000 characters')
+});
+
+export const ProposeTermsDialog = ({ open, onClose, onSubmit, currentTerms }: ProposeTermsDialogProps) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const formik = useFormik({
+    initialValues: {
+      deliveryMethod: currentTerms.deliveryMethod,
+      duration: currentTerms.duration,
+      location: currentTerms.location || '',
+      additionalNotes: currentTerms.additionalNotes || '',
+      message: ''
+    },
+    enableReinitialize: true,
+    validationSchema,
+    onSubmit: async (values) => {
+      try {
+        setError(null);
+        await onSubmit({
+          deliveryMethod: values.deliveryMethod,
+          duration: values.duration,
+          location: (values.location || undefined) as BookLocation | undefined,
+          additionalNotes: values.additionalNotes || undefined
+        }, values.message);
+        formik.resetForm();
+        onClose();
+      } catch (err: any) {
+        setError(err.message || 'Failed to propose new terms');
+      }
+    }
+  });
+
+  const handleClose = () => {
+    formik.resetForm();
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Propose New Terms</DialogTitle>
+      <form onSubmit={formik.handleSubmit}>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+            <FormControl fullWidth>
+              <InputLabel>Delivery Method</InputLabel>
+              <Select
+                name="deliveryMethod"
+                label="Delivery Method"
+                value={formik.values.deliveryMethod}
+                onChange={formik.handleChange}
+              >
+                <MenuItem value="in-person">In Person</MenuItem>
+                <MenuItem value="courier">Courier</MenuItem>
+                <MenuItem value="mail">Mail</MenuItem>
+              </Select>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              name="duration"
+              label="Duration (days)"
+              type="number"
+              value={formik.values.duration}
+              onChange={formik.handleChange}
+              error={formik.touched.duration && Boolean(formik.errors.duration)}
+              helperText={formik.touched.duration && formik.errors.duration}
+            />
+
+            {formik.values.deliveryMethod === 'in-person' && (
+              <TextField
+                fullWidth
+                name="location"
+                label="Meeting Location"
+                value={formik.values.location}
+                onChange={formik.handleChange}
+                error={formik.touched.location && Boolean(formik.errors.location)}
+                helperText={formik.touched.location && formik.errors.location}
+              />
+            )}
+
+            <TextField
+              fullWidth
+              multiline
+              rows={2}
+              name="additionalNotes"
+              label="Additional Notes (Optional)"
+              value={formik.values.additionalNotes}
+              onChange={formik.handleChange}
+              error={formik.touched.additionalNotes && Boolean(formik.errors.additionalNotes)}
+              helperText={formik.touched.additionalNotes && formik.errors.additionalNotes}
+            />
+
+            <TextField
+              fullWidth
+              multiline
+              rows={3}
+              name="message"
+              label="Message (Optional)"
+              value={formik.values.message}
+              onChange={formik.handleChange}
+              placeholder="Explain why you are proposing these changes..."
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={formik.isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={formik.isSubmitting || !formik.isValid}
+          >
+            {formik.isSubmitting ? <CircularProgress size={24} /> : 'Send Proposal'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
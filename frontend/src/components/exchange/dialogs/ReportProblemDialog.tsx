@@ -0,0 +1,135 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from "@mui/material";
+import { PhotoCamera as PhotoCameraIcon } from "@mui/icons-material";
+import { DisputeReason } from "../../../types/models";
+import { DISPUTE_REASON_LABELS } from "../../constants/disputes";
+
+const MAX_EVIDENCE_PHOTOS = 5;
+
+interface ReportProblemDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (reason: DisputeReason, description: string, photos: File[]) => Promise<void>;
+}
+
+export const ReportProblemDialog = ({ open, onClose, onSubmit }: ReportProblemDialogProps) => {
+  const [reason, setReason] = useState<DisputeReason>('not-returned');
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setReason('not-returned');
+    setDescription('');
+    setPhotos([]);
+    setError(null);
+    onClose();
+  };
+
+  const handlePhotosChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length > MAX_EVIDENCE_PHOTOS) {
+      setError(`You can attach up to ${MAX_EVIDENCE_PHOTOS} photos`);
+      return;
+    }
+    setError(null);
+    setPhotos(files);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(reason, description.trim(), photos);
+      handleClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to report problem');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Report a Problem</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Reporting a problem freezes this exchange until an admin has reviewed it.
+        </Alert>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel>What went wrong?</InputLabel>
+            <Select
+              label="What went wrong?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as DisputeReason)}
+            >
+              {(Object.keys(DISPUTE_REASON_LABELS) as DisputeReason[]).map(value => (
+                <MenuItem key={value} value={value}>{DISPUTE_REASON_LABELS[value]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label="Describe the problem"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            inputProps={{ maxLength: 2000 }}
+            placeholder="Include dates, what was agreed and what happened..."
+          />
+
+          <Box>
+            <Button component="label" variant="outlined" startIcon={<PhotoCameraIcon />}>
+              Attach Photos
+              <input
+                hidden
+                multiple
+                type="file"
+                accept="image/jpeg,image/png,image/gif"
+                onChange={handlePhotosChange}
+              />
+            </Button>
+            {photos.length > 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {photos.map(photo => photo.name).join(', ')}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleSubmit}
+          disabled={submitting || !description.trim()}
+        >
+          {submitting ? <CircularProgress size={24} /> : 'Report Problem'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Rating,
+  TextField,
+  Typography
+} from "@mui/material";
+import { Review } from "../../../types/models";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (rating: number, comment: string) => Promise<void>;
+  revieweeName: string;
+  existingReview?: Review;
+}
+
+export const ReviewDialog = ({ open, onClose, onSubmit, revieweeName, existingReview }: ReviewDialogProps) => {
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setRating(existingReview?.rating ?? null);
+      setComment(existingReview?.comment || '');
+      setError(null);
+    }
+  }, [open, existingReview]);
+
+  const handleSubmit = async () => {
+    if (!rating) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(rating, comment.trim());
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{existingReview ? 'Edit Your Review' : `Review ${revieweeName}`}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Box>
+            <Typography component="legend" variant="body2" color="text.secondary">
+              How was your exchange with {revieweeName}?
+            </Typography>
+            <Rating
+              value={rating}
+              onChange={(_event, value) => setRating(value)}
+              size="large"
+            />
+          </Box>
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Review (Optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+            helperText={`${comment.length}/500`}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || !rating}
+        >
+          {submitting ? <CircularProgress size={24} /> : existingReview ? 'Update Review' : 'Submit Review'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
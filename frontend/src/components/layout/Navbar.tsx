@@ -62,6 +62,12 @@ const Navbar = () => {
               >
                 Browse Books
               </Button>
+              <Button 
+                color="inherit" 
+                onClick={() => navigate('/swaps')}
+              >
+                Swaps
+              </Button>
               <NotificationBadge />
               <Box sx={{ display: 'flex', alignItems: 'center' }}>
                 <IconButton
@@ -95,6 +101,16 @@ const Navbar = () => {
                   }}
                 >
                   <MenuItem onClick={handleProfile}>My Profile</MenuItem>
+                  {user?.role === 'admin' && (
+                    <MenuItem onClick={() => { handleMenuClose(); navigate('/admin/disputes'); }}>
+                      Disputes
+                    </MenuItem>
+                  )}
+                  {user?.role === 'admin' && (
+                    <MenuItem onClick={() => { handleMenuClose(); navigate('/admin/emails'); }}>
+                      Failed Emails
+                    </MenuItem>
+                  )}
                   <MenuItem onClick={handleLogout}>Logout</MenuItem>
                 </Menu>
               </Box>
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Typography
+} from '@mui/material';
+import { exchangeAPI } from '../../services/api';
+import { DueLoan } from '../../types/models';
+
+const DueLoans = () => {
+  const [loans, setLoans] = useState<DueLoan[]>([]);
+
+  useEffect(() => {
+    const fetchDueLoans = async () => {
+      try {
+        setLoans(await exchangeAPI.getDueLoans());
+      } catch (error) {
+        console.error('Failed to fetch due loans:', error);
+      }
+    };
+
+    fetchDueLoans();
+  }, []);
+
+  if (loans.length === 0) return null;
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Due Soon & Overdue
+      </Typography>
+      <List disablePadding>
+        {loans.map(loan => (
+          <ListItem key={loan.id} disableGutters divider>
+            <ListItemText
+              primary={loan.book.title}
+              secondary={loan.role === 'borrower'
+                ? `Borrowed from ${loan.owner.name} · due ${new Date(loan.dueDate).toLocaleDateString()}`
+                : `Lent to ${loan.requester.name} · due ${new Date(loan.dueDate).toLocaleDateString()}`}
+            />
+            <Box sx={{ ml: 2 }}>
+              <Chip
+                label={loan.state === 'overdue' ? 'Overdue' : 'Due soon'}
+                color={loan.state === 'overdue' ? 'error' : 'warning'}
+                size="small"
+              />
+            </Box>
+          </ListItem>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+export default DueLoans;
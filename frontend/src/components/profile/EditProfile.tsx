@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
+  Checkbox,
   Dialog,
   DialogTitle,
   DialogContent,
@@ -10,11 +11,25 @@ import {
   Grid,
   CircularProgress,
   Typography,
-  MenuItem
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { BookLocation, User } from '../../types/models';
+import {
+  BookLocation,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreferences,
+  PreferredLanguage,
+  User
+} from '../../types/models';
 import { useSnackbar } from 'notistack';
 import { userAPI } from '../../services/api';
 import { INDIAN_CITIES } from '../books/BookList';
@@ -42,6 +57,125 @@ const genres = [
   'Self-Help'
 ];
 
+const NOTIFICATION_EVENTS: { event: NotificationEvent; label: string; channels: NotificationChannel[] }[] = [
+  { event: 'newRequest', label: 'New requests', channels: ['email', 'inApp', 'push'] },
+  { event: 'statusChange', label: 'Exchange updates', channels: ['email', 'inApp', 'push'] },
+  { event: 'message', label: 'Messages', channels: ['email', 'inApp', 'push'] },
+  { event: 'reminder', label: 'Reminders', channels: ['email', 'inApp', 'push'] },
+  // The digest only exists as an email
+  { event: 'digest', label: 'Unread message digest', channels: ['email'] }
+];
+
+const NOTIFICATION_CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'inApp', label: 'In-app' },
+  { channel: 'push', label: 'Push' }
+];
+
+// Each language is shown in its own script so it can be found without reading English
+const EMAIL_LANGUAGES: { language: PreferredLanguage; label: string }[] = [
+  { language: 'en', label: 'English' },
+  { language: 'hi', label: 'हिन्दी' },
+  { language: 'ta', label: 'தமிழ்' },
+  { language: 'te', label: 'తెలుగు' },
+  { language: 'kn', label: 'ಕನ್ನಡ' }
+];
+
+const NotificationSettings = ({ value, onChange, disabled }: {
+  value: NotificationPreferences;
+  onChange: (value: NotificationPreferences) => void;
+  disabled: boolean;
+}) => {
+  const handleChannelChange = (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    // Push is shown by the browser, which has to allow it first
+    if (channel === 'push' && enabled && 'Notification' in window && window.Notification.permission === 'default') {
+      window.Notification.requestPermission();
+    }
+    onChange({ ...value, [event]: { ...value[event], [channel]: enabled } });
+  };
+
+  const handleQuietHoursChange = (field: 'enabled' | 'start' | 'end', setting: boolean | string) => {
+    onChange({ ...value, quietHours: { ...value.quietHours, [field]: setting } });
+  };
+
+  return (
+    <>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+              <TableCell key={channel} align="center">{label}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {NOTIFICATION_EVENTS.map(({ event, label, channels }) => (
+            <TableRow key={event}>
+              <TableCell>{label}</TableCell>
+              {NOTIFICATION_CHANNELS.map(({ channel }) => (
+                <TableCell key={channel} align="center" padding="checkbox">
+                  {channels.includes(channel) && (
+                    <Checkbox
+                      checked={value[event][channel]}
+                      onChange={(e) => handleChannelChange(event, channel, e.target.checked)}
+                      disabled={disabled}
+                      inputProps={{ 'aria-label': `${label} by ${channel}` }}
+                    />
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <FormControlLabel
+        sx={{ mt: 2 }}
+        control={
+          <Switch
+            checked={value.quietHours.enabled}
+            onChange={(e) => handleQuietHoursChange('enabled', e.target.checked)}
+            disabled={disabled}
+          />
+        }
+        label="Quiet hours"
+      />
+      {value.quietHours.enabled && (
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={6}>
+            <TextField
+              fullWidth
+              type="time"
+              label="From"
+              value={value.quietHours.start}
+              onChange={(e) => handleQuietHoursChange('start', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              disabled={disabled}
+            />
+          </Grid>
+          <Grid item xs={6}>
+            <TextField
+              fullWidth
+              type="time"
+              label="Until"
+              value={value.quietHours.end}
+              onChange={(e) => handleQuietHoursChange('end', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              disabled={disabled}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="body2" color="text.secondary">
+              No email or push notifications during these hours (India time). Reminders are sent once they end.
+            </Typography>
+          </Grid>
+        </Grid>
+      )}
+    </>
+  );
+};
+
 const validationSchema = Yup.object({
   name: Yup.string()
     .required('Name is required')
@@ -63,6 +197,24 @@ const EditProfile = ({ open, onClose, currentUser }: EditProfileProps) => {
   const { enqueueSnackbar } = useSnackbar();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+  const [notificationPreferencesError, setNotificationPreferencesError] = useState(false);
+  const [preferredLanguage, setPreferredLanguage] = useState<PreferredLanguage | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setNotificationPreferencesError(false);
+    Promise.all([userAPI.getNotificationPreferences(), userAPI.getPreferredLanguage()])
+      .then(([preferences, language]) => {
+        setNotificationPreferences(preferences);
+        setPreferredLanguage(language);
+      })
+      .catch(err => {
+        console.error('Failed to load notification preferences:', err);
+        setNotificationPreferencesError(true);
+      });
+  }, [open]);
 
   const formik = useFormik({
     initialValues: {
@@ -92,6 +244,14 @@ const EditProfile = ({ open, onClose, currentUser }: EditProfileProps) => {
 
         await updateUser(updateData);
 
+        if (notificationPreferences) {
+          await userAPI.updateNotificationPreferences(notificationPreferences);
+        }
+
+        if (preferredLanguage) {
+          await userAPI.updatePreferredLanguage(preferredLanguage);
+        }
+
         if (values.newPassword && values.currentPassword) {
           await userAPI.updatePassword({
             currentPassword: values.currentPassword,
@@ -117,6 +277,8 @@ const EditProfile = ({ open, onClose, currentUser }: EditProfileProps) => {
   const handleClose = () => {
     formik.resetForm();
     setError(null);
+    setNotificationPreferences(null);
+    setPreferredLanguage(null);
     onClose();
   };
 
@@ -208,6 +370,41 @@ const EditProfile = ({ open, onClose, currentUser }: EditProfileProps) => {
               </TextField>
             </Grid>
 
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>Notifications</Typography>
+              {notificationPreferences && preferredLanguage ? (
+                <>
+                  <NotificationSettings
+                    value={notificationPreferences}
+                    onChange={setNotificationPreferences}
+                    disabled={isSubmitting}
+                  />
+                  <TextField
+                    fullWidth
+                    select
+                    id="preferredLanguage"
+                    label="Email language"
+                    value={preferredLanguage}
+                    onChange={(e) => setPreferredLanguage(e.target.value as PreferredLanguage)}
+                    disabled={isSubmitting}
+                    sx={{ mt: 2 }}
+                  >
+                    {EMAIL_LANGUAGES.map(({ language, label }) => (
+                      <MenuItem key={language} value={language}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </>
+              ) : notificationPreferencesError ? (
+                <Typography variant="body2" color="text.secondary">
+                  Notification settings could not be loaded
+                </Typography>
+              ) : (
+                <CircularProgress size={24} />
+              )}
+            </Grid>
+
             <Grid item xs={12}>
               <Typography variant="h6" gutterBottom>Change Password (Optional)</Typography>
               <TextField
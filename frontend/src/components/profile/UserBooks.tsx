@@ -95,6 +95,14 @@ const UserBookCard = ({ book, onEdit, onDelete }: {
                    book.status === 'pending' ? 'warning' : 'error'} 
             size="small" 
           />
+          {!!book.queueSize && (
+            <Chip
+              label={`${book.queueSize} waiting`}
+              color="info"
+              variant="outlined"
+              size="small"
+            />
+          )}
         </Box>
       </CardContent>
     </Card>
@@ -13,6 +13,7 @@ import {
   Chip,
   IconButton,
   CircularProgress,
+  Rating,
 } from '@mui/material';
 import {
   Person as PersonIcon,
@@ -28,6 +29,8 @@ import UserBooks from './UserBooks';
 import ExchangeRequests from '../exchange/ExchangeRequests';
 import EditProfile from './EditProfile';
 import DeleteAccountDialog from './DeleteAccountDialog';
+import DueLoans from './DueLoans';
+import UserReviews from './UserReviews';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { User } from '../../types/models';
 
@@ -228,6 +231,12 @@ const UserProfile = () => {
                     Completed
                   </Typography>
                 </Grid>
+                <Grid item xs={12} textAlign="center">
+                  <Rating value={stats.reputation} precision={0.1} readOnly />
+                  <Typography variant="body2" color="text.secondary">
+                    {stats.reputation ? `Reputation ${stats.reputation.toFixed(1)} / 5` : 'No reviews yet'}
+                  </Typography>
+                </Grid>
               </Grid>
             </Box>
 
@@ -268,10 +277,12 @@ const UserProfile = () => {
         </Grid>
 
         <Grid item xs={12} md={8}>
+          <DueLoans />
           <Paper sx={{ width: '100%' }}>
             <Tabs value={tabValue} onChange={handleTabChange}>
               <Tab label="My Books" />
               <Tab label="Exchange Requests" />
+              <Tab label="Reviews" />
             </Tabs>
 
             <TabPanel value={tabValue} index={0}>
@@ -280,6 +291,9 @@ const UserProfile = () => {
             <TabPanel value={tabValue} index={1}>
               <ExchangeRequests />
             </TabPanel>
+            <TabPanel value={tabValue} index={2}>
+              <UserReviews userId={user.id} />
+            </TabPanel>
           </Paper>
         </Grid>
       </Grid>
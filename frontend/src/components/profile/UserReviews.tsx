@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  List,
+  ListItem,
+  ListItemText,
+  Rating,
+  Typography
+} from '@mui/material';
+import { reviewAPI } from '../../services/api';
+import { Review } from '../../types/models';
+
+interface UserReviewsProps {
+  userId: string;
+}
+
+const UserReviews = ({ userId }: UserReviewsProps) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        setReviews(await reviewAPI.getUserReviews(userId));
+      } catch (error) {
+        console.error('Failed to fetch reviews:', error);
+      }
+    };
+
+    fetchReviews();
+  }, [userId]);
+
+  if (reviews.length === 0) {
+    return (
+      <Typography color="text.secondary" align="center">
+        No reviews yet
+      </Typography>
+    );
+  }
+
+  return (
+    <List disablePadding>
+      {reviews.map(review => (
+        <ListItem key={review.id} disableGutters divider alignItems="flex-start">
+          <ListItemText
+            primary={
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="subtitle2">{review.reviewer.name}</Typography>
+                <Rating value={review.rating} size="small" readOnly />
+              </Box>
+            }
+            secondary={
+              <>
+                {review.comment && (
+                  <Typography component="span" variant="body2" display="block">
+                    {review.comment}
+                  </Typography>
+                )}
+                {new Date(review.createdAt).toLocaleDateString()}
+              </>
+            }
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+export default UserReviews;
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Paper,
+  Stack,
+  Typography
+} from '@mui/material';
+import { useSnackbar } from 'notistack';
+import { useAuth } from '../../context/AuthContext';
+import { swapAPI } from '../../services/api';
+import { SwapCycle, SwapCycleStatus, SwapResponse } from '../../types/models';
+
+const getCycleStatusColor = (status: SwapCycleStatus): "success" | "error" | "info" | "default" => {
+  switch (status) {
+    case 'proposed': return 'info';
+    case 'accepted': return 'success';
+    case 'declined': return 'error';
+    default: return 'default';
+  }
+};
+
+const getResponseColor = (response: SwapResponse): "success" | "error" | "default" => {
+  switch (response) {
+    case 'accepted': return 'success';
+    case 'declined': return 'error';
+    default: return 'default';
+  }
+};
+
+const SwapCard = ({ swap, onRespond }: {
+  swap: SwapCycle;
+  onRespond: (swap: SwapCycle, accept: boolean) => Promise<void>;
+}) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [responding, setResponding] = useState(false);
+  const myParticipation = swap.participants.find(participant => participant.user.id === user?.id);
+  const iGive = swap.legs.find(leg => leg.giver.id === user?.id);
+  const iReceive = swap.legs.find(leg => leg.receiver.id === user?.id);
+  const canRespond = swap.status === 'proposed' && myParticipation?.response === 'pending';
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      setResponding(true);
+      await onRespond(swap, accept);
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">
+          {swap.legs.length}-way swap in {swap.city}
+        </Typography>
+        <Chip label={swap.status} color={getCycleStatusColor(swap.status)} size="small" />
+      </Box>
+
+      {iReceive && (
+        <Typography variant="body1">
+          You receive <strong>{iReceive.book.title}</strong> by {iReceive.book.author} from {iReceive.giver.name}
+        </Typography>
+      )}
+      {iGive && (
+        <Typography variant="body1" gutterBottom>
+          You give <strong>{iGive.book.title}</strong> to {iGive.receiver.name}
+        </Typography>
+      )}
+
+      {swap.legs.length > 2 && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="subtitle2">Rest of the swap</Typography>
+          {swap.legs
+            .filter(leg => leg !== iGive && leg !== iReceive)
+            .map(leg => (
+              <Typography key={leg.book.id} variant="body2" color="text.secondary">
+                {leg.giver.name} gives {leg.book.title} to {leg.receiver.name}
+              </Typography>
+            ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 2 }}>
+        {swap.participants.map(participant => (
+          <Chip
+            key={participant.user.id}
+            label={`${participant.user.id === user?.id ? 'You' : participant.user.name}: ${participant.response}`}
+            color={getResponseColor(participant.response)}
+            variant="outlined"
+            size="small"
+          />
+        ))}
+      </Box>
+
+      {canRespond && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+          <Button color="error" onClick={() => handleRespond(false)} disabled={responding}>
+            Decline
+          </Button>
+          <Button variant="contained" onClick={() => handleRespond(true)} disabled={responding}>
+            {responding ? <CircularProgress size={24} /> : 'Accept Swap'}
+          </Button>
+        </Box>
+      )}
+      {swap.status === 'proposed' && myParticipation?.response === 'accepted' && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Waiting for everyone else to accept.
+        </Typography>
+      )}
+      {swap.status === 'accepted' && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+          <Button onClick={() => navigate('/exchanges')}>
+            View Exchanges
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+const SwapOpportunities = () => {
+  const { enqueueSnackbar } = useSnackbar();
+  const [swaps, setSwaps] = useState<SwapCycle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSwaps = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSwaps(await swapAPI.getMySwaps());
+    } catch (error) {
+      enqueueSnackbar('Failed to fetch swap opportunities', { variant: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [enqueueSnackbar]);
+
+  useEffect(() => {
+    fetchSwaps();
+  }, [fetchSwaps]);
+
+  const handleRespond = async (swap: SwapCycle, accept: boolean) => {
+    try {
+      const { swap: updated, message } = await swapAPI.respond(swap.id, accept);
+      setSwaps(prev => prev.map(s => s.id === updated.id ? updated : s));
+      enqueueSnackbar(message, { variant: updated.status === 'cancelled' ? 'warning' : 'success' });
+    } catch (error: any) {
+      enqueueSnackbar(error.message || 'Failed to respond to swap', { variant: 'error' });
+    }
+  };
+
+  const open = swaps.filter(swap => swap.status === 'proposed');
+  const past = swaps.filter(swap => swap.status !== 'proposed');
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Swap Opportunities
+      </Typography>
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Mark books you want while browsing. We look for swaps in your city where everyone gets a book they want,
+        and a swap only goes ahead once every participant accepts.
+      </Alert>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : swaps.length === 0 ? (
+        <Typography color="text.secondary" align="center">
+          No swap opportunities yet
+        </Typography>
+      ) : (
+        <Stack spacing={2}>
+          {open.map(swap => (
+            <SwapCard key={swap.id} swap={swap} onRespond={handleRespond} />
+          ))}
+          {past.length > 0 && (
+            <Typography variant="h6" sx={{ pt: 2 }}>
+              Past Proposals
+            </Typography>
+          )}
+          {past.map(swap => (
+            <SwapCard key={swap.id} swap={swap} onRespond={handleRespond} />
+          ))}
+        </Stack>
+      )}
+    </Container>
+  );
+};
+
+export default SwapOpportunities;
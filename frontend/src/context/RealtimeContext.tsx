@@ -0,0 +1,112 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { RealtimeEvent } from '../types/models';
+import { exchangeAPI, notificationAPI, realtimeAPI } from '../services/api';
+import { useAuth } from './AuthContext';
+
+export const POLL_INTERVAL_MS = 30000;
+const RECONNECT_DELAY_MS = 30000;
+
+// Push notifications are shown by the browser while a tab is open, and only when the app is in the background
+const showPushNotification = (title: string, body?: string) => {
+  if (!('Notification' in window) || window.Notification.permission !== 'granted' || !document.hidden) return;
+  new window.Notification(title, { body });
+};
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface RealtimeContextType {
+  // False while the event stream is down; consumers poll instead
+  connected: boolean;
+  unreadCount: number;
+  unreadNotifications: number;
+  setUnreadNotifications: (count: number) => void;
+  subscribe: (listener: RealtimeListener) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType>({
+  connected: false,
+  unreadCount: 0,
+  unreadNotifications: 0,
+  setUnreadNotifications: () => {},
+  subscribe: () => () => {},
+});
+
+export const useRealtime = () => useContext(RealtimeContext);
+
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const { token, isAuthenticated } = useAuth();
+  const [connected, setConnected] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const listeners = useRef(new Set<RealtimeListener>());
+
+  const subscribe = useCallback((listener: RealtimeListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) return;
+
+    const source = new EventSource(realtimeAPI.getStreamUrl(token));
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    source.onopen = () => setConnected(true);
+    source.onmessage = (message) => {
+      const event = realtimeAPI.parseEvent(message.data);
+      if (!event) return;
+
+      if (event.type === 'push') showPushNotification(event.title, event.body);
+      if (event.type === 'unread-count') setUnreadCount(event.unreadCount);
+      if (event.type === 'notification' || event.type === 'notification-count') {
+        setUnreadNotifications(event.unreadNotifications);
+      }
+      listeners.current.forEach(listener => listener(event));
+    };
+    source.onerror = () => {
+      setConnected(false);
+      // The browser retries a dropped stream by itself but gives up on a rejected one
+      if (source.readyState === EventSource.CLOSED) {
+        reconnectTimer = setTimeout(() => setReconnectAttempt(attempt => attempt + 1), RECONNECT_DELAY_MS);
+      }
+    };
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source.close();
+      setConnected(false);
+    };
+  }, [isAuthenticated, token, reconnectAttempt]);
+
+  // Fall back to polling the unread counts while the stream is down
+  useEffect(() => {
+    if (!isAuthenticated || connected) return;
+
+    const fetchUnreadCount = async () => {
+      try {
+        const [messages, notifications] = await Promise.all([
+          exchangeAPI.getUnreadCount(),
+          notificationAPI.getUnreadCount()
+        ]);
+        setUnreadCount(messages);
+        setUnreadNotifications(notifications);
+      } catch (error) {
+        console.error('Failed to fetch unread count:', error);
+      }
+    };
+
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, connected]);
+
+  return (
+    <RealtimeContext.Provider value={{ connected, unreadCount, unreadNotifications, setUnreadNotifications, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
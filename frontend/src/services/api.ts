@@ -1,5 +1,28 @@
 import axios from 'axios';
-import { BookCondition, BookStatus, BookLocation, Exchange, ExchangeStatus, ExchangeTerms } from '../types/models';
+import {
+  AppNotification,
+  BookCondition,
+  BookStatus,
+  BookLocation,
+  Dispute,
+  DisputeOutcome,
+  DisputeReason,
+  DueLoan,
+  Exchange,
+  ExchangeMessage,
+  ExchangeMessagePage,
+  ExchangeStatus,
+  ExchangeTerms,
+  MeetupSlot,
+  NotificationPreferences,
+  OutboxEmail,
+  PreferredLanguage,
+  QueuedEmail,
+  QueuedEmailStatus,
+  RealtimeEvent,
+  Review,
+  SwapCycle
+} from '../types/models';
 
 const BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5001/api';
 
@@ -34,6 +57,7 @@ interface User {
     genres: string[];
   };
   reputation?: number;
+  role?: 'user' | 'admin';
   createdAt?: string;
 }
 
@@ -49,6 +73,7 @@ interface Book {
   condition: string;
   status: string;
   owner: User;
+  queueSize?: number;
 }
 
 const api = axios.create({
@@ -155,6 +180,7 @@ export const authAPI = {
         location: (response.data.user.location || '') as BookLocation,
         bio: response.data.user.bio || '',
         reputation: response.data.user.reputation || 0,
+        role: response.data.user.role || 'user',
         profileImage: response.data.user.profileImage,
         createdAt: response.data.user.createdAt
       };
@@ -229,6 +255,7 @@ export const bookAPI = {
               genres: book.owner.preferences?.genres || []
             }
           },
+          queueSize: book.queueSize || 0,
           createdAt: book.createdAt
         }))
       };
@@ -418,18 +445,120 @@ export const userAPI = {
       reputation: response.data.data.reputation || 0
     };
   },
+
+  getNotificationPreferences: async (): Promise<NotificationPreferences> => {
+    try {
+      const response = await api.get<{ notificationPreferences: NotificationPreferences }>('/users/preferences');
+      return response.data.notificationPreferences;
+    } catch (error: any) {
+      console.error('Get notification preferences error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  updateNotificationPreferences: async (
+    notificationPreferences: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> => {
+    try {
+      const response = await api.patch<{ notificationPreferences: NotificationPreferences }>(
+        '/users/preferences',
+        { notificationPreferences }
+      );
+      return response.data.notificationPreferences;
+    } catch (error: any) {
+      console.error('Update notification preferences error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  getPreferredLanguage: async (): Promise<PreferredLanguage> => {
+    try {
+      const response = await api.get<{ preferredLanguage: PreferredLanguage }>('/users/preferences');
+      return response.data.preferredLanguage;
+    } catch (error: any) {
+      console.error('Get preferred language error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  updatePreferredLanguage: async (preferredLanguage: PreferredLanguage): Promise<PreferredLanguage> => {
+    try {
+      const response = await api.patch<{ preferredLanguage: PreferredLanguage }>(
+        '/users/preferences',
+        { preferredLanguage }
+      );
+      return response.data.preferredLanguage;
+    } catch (error: any) {
+      console.error('Update preferred language error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  getWishlist: async (): Promise<string[]> => {
+    try {
+      const response = await api.get<ApiResponse<string[]>>('/users/wishlist');
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Get wishlist error:', error);
+      throw error;
+    }
+  },
+
+  setWanted: async (bookId: string, wanted: boolean): Promise<string[]> => {
+    try {
+      const response = wanted
+        ? await api.post<ApiResponse<string[]>>(`/users/wishlist/${bookId}`)
+        : await api.delete<ApiResponse<string[]>>(`/users/wishlist/${bookId}`);
+      return response.data.data || [];
+    } catch (error: any) {
+      console.error('Update wishlist error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
 };
 
 
+const transformMessage = (message: any): ExchangeMessage => ({
+  ...message,
+  id: message.id || message._id,
+  attachments: (message.attachments || []).map((attachment: any) => ({
+    ...attachment,
+    id: attachment.id || attachment._id
+  }))
+});
+
 export const exchangeAPI = {
-  createRequest: async (bookId: string, terms: ExchangeTerms, message?: string): Promise<Exchange> => {
+  createRequest: async (
+    bookId: string,
+    terms: ExchangeTerms,
+    message?: string,
+    offeredBookIds: string[] = [],
+    bundleBookIds: string[] = []
+  ): Promise<Exchange> => {
     try {
-      console.log('Creating exchange request:', { bookId, terms, message });
+      console.log('Creating exchange request:', { bookId, terms, message, offeredBookIds, bundleBookIds });
       
       const response = await api.post<ApiResponse<Exchange>>('/transactions/request', {
         bookId,
+        bookIds: bundleBookIds.length > 1 ? bundleBookIds : undefined,
         terms,
-        message
+        message,
+        offeredBookIds
       });
 
       if (!response.data?.data) {
@@ -449,10 +578,12 @@ export const exchangeAPI = {
     requestId: string,
     status: ExchangeStatus,
     terms?: Partial<ExchangeTerms>,
-    message?: string
+    message?: string,
+    offeredBookId?: string,
+    acceptedBookIds?: string[]
   ): Promise<Exchange> => {
     try {
-      console.log('Updating request status:', { requestId, status, terms, message });
+      console.log('Updating request status:', { requestId, status, terms, message, offeredBookId, acceptedBookIds });
       
       if (!requestId) {
         throw new Error('Request ID is required');
@@ -463,7 +594,9 @@ export const exchangeAPI = {
         {
           status,
           terms,
-          message
+          message,
+          offeredBookId,
+          acceptedBookIds
         }
       );
 
@@ -482,6 +615,185 @@ export const exchangeAPI = {
     }
   },
 
+  proposeTerms: async (exchangeId: string, terms: ExchangeTerms, message?: string): Promise<Exchange> => {
+    return exchangeAPI.updateRequestStatus(exchangeId, 'modified', terms, message);
+  },
+
+  acceptTerms: async (exchangeId: string, version: number): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/terms/${version}/accept`
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Accept terms error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  proposeMeetup: async (exchangeId: string, slots: MeetupSlot[]): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/meetup`,
+        { slots }
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Propose meetup error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  confirmMeetup: async (exchangeId: string, slotId: string): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/meetup/confirm`,
+        { slotId }
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Confirm meetup error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  dispatchShipment: async (
+    exchangeId: string,
+    shipment: { carrier: string; trackingNumber: string; dispatchedAt: string }
+  ): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/shipment`,
+        shipment
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Dispatch shipment error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  markShipmentInTransit: async (exchangeId: string, note?: string): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/shipment/status`,
+        { status: 'in-transit', note }
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Update shipment error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  confirmDelivery: async (exchangeId: string): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/shipment/delivered`
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Confirm delivery error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  confirmHandover: async (exchangeId: string): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(
+        `/transactions/${exchangeId}/handover/confirm`
+      );
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Confirm handover error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  confirmReturn: async (exchangeId: string): Promise<Exchange> => {
+    try {
+      const response = await api.post<ApiResponse<Exchange>>(`/transactions/${exchangeId}/return`);
+
+      if (!response.data?.data) {
+        throw new Error('Invalid response format');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Confirm return error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  getDueLoans: async (): Promise<DueLoan[]> => {
+    try {
+      const response = await api.get<ApiResponse<DueLoan[]>>('/transactions/loans/due');
+      return response.data.data;
+    } catch (error) {
+      console.error('Get due loans error:', error);
+      throw error;
+    }
+  },
+
   handleExchangeAction: async (exchangeId: string, action: string, message?: string): Promise<Exchange> => {
     try {
       let status: ExchangeStatus;
@@ -561,22 +873,52 @@ export const exchangeAPI = {
       throw error;
     }
   },
-  sendMessage: async (exchangeId: string, message: string): Promise<Exchange> => {
+  // Latest page of the thread, or the page before/after a message when a cursor is given
+  getMessages: async (
+    exchangeId: string,
+    cursor: { before?: string; after?: string } = {}
+  ): Promise<ExchangeMessagePage> => {
+    try {
+      const response = await api.get<ApiResponse<{ messages: any[]; hasMore: boolean }>>(
+        `/transactions/${exchangeId}/messages`,
+        { params: cursor }
+      );
+
+      return {
+        messages: response.data.data.messages.map(transformMessage),
+        hasMore: response.data.data.hasMore
+      };
+    } catch (error) {
+      console.error('Get messages error:', error);
+      throw error;
+    }
+  },
+
+  sendMessage: async (exchangeId: string, message: string, photos: File[] = []): Promise<ExchangeMessage> => {
     try {
       if (!exchangeId) {
         throw new Error('Exchange ID is required');
       }
 
-      const response = await api.post<ApiResponse<Exchange>>(
+      const formData = new FormData();
+      formData.append('message', message);
+      photos.forEach(photo => formData.append('attachments', photo));
+
+      const response = await api.post<ApiResponse>(
         `/transactions/${exchangeId}/messages`,
-        { message }
+        formData,
+        {
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+        }
       );
 
       if (!response.data?.data) {
         throw new Error('Invalid response format');
       }
 
-      return response.data.data;
+      return transformMessage(response.data.data);
     } catch (error: any) {
       console.error('Send message error:', error);
       if (error.response?.data?.error) {
@@ -584,7 +926,411 @@ export const exchangeAPI = {
       }
       throw error;
     }
+  },
+
+  // Attachments need the auth header, so they are fetched as blobs rather than linked directly
+  getAttachmentUrl: async (exchangeId: string, messageId: string, attachmentId: string): Promise<string> => {
+    try {
+      const response = await api.get<Blob>(
+        `/transactions/${exchangeId}/messages/${messageId}/attachments/${attachmentId}`,
+        { responseType: 'blob' }
+      );
+      return URL.createObjectURL(response.data);
+    } catch (error) {
+      console.error('Get message attachment error:', error);
+      throw error;
+    }
+  },
+
+  markMessagesRead: async (exchangeId: string, upTo?: string): Promise<{ messageIds: string[]; readAt: string }> => {
+    try {
+      const response = await api.post<ApiResponse<{ messageIds: string[]; readAt: string }>>(
+        `/transactions/${exchangeId}/messages/read`,
+        { upTo }
+      );
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Mark messages read error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  sendTyping: async (exchangeId: string): Promise<void> => {
+    try {
+      await api.post(`/transactions/${exchangeId}/typing`);
+    } catch (error) {
+      console.error('Typing signal error:', error);
+    }
+  }
+};
+
+const transformReview = (review: any): Review => ({
+  ...review,
+  id: review.id || review._id
+});
+
+export const reviewAPI = {
+  getExchangeReviews: async (exchangeId: string): Promise<{ reviews: Review[]; editWindowDays: number }> => {
+    try {
+      const response = await api.get<ApiResponse<{ reviews: any[]; editWindowDays: number }>>(
+        `/reviews/transaction/${exchangeId}`
+      );
+      return {
+        reviews: response.data.data.reviews.map(transformReview),
+        editWindowDays: response.data.data.editWindowDays
+      };
+    } catch (error) {
+      console.error('Get exchange reviews error:', error);
+      throw error;
+    }
+  },
+
+  getUserReviews: async (userId: string): Promise<Review[]> => {
+    try {
+      const response = await api.get<ApiResponse<any[]>>(`/reviews/user/${userId}`);
+      return response.data.data.map(transformReview);
+    } catch (error) {
+      console.error('Get user reviews error:', error);
+      throw error;
+    }
+  },
+
+  createReview: async (exchangeId: string, rating: number, comment?: string): Promise<Review> => {
+    try {
+      const response = await api.post<ApiResponse>('/reviews', {
+        transactionId: exchangeId,
+        rating,
+        comment
+      });
+      return transformReview(response.data.data);
+    } catch (error: any) {
+      console.error('Create review error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  updateReview: async (reviewId: string, rating: number, comment?: string): Promise<Review> => {
+    try {
+      const response = await api.patch<ApiResponse>(`/reviews/${reviewId}`, { rating, comment });
+      return transformReview(response.data.data);
+    } catch (error: any) {
+      console.error('Update review error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  }
+};
+
+const transformDispute = (dispute: any): Dispute => ({
+  ...dispute,
+  id: dispute.id || dispute._id,
+  transaction: typeof dispute.transaction === 'object'
+    ? {
+        ...dispute.transaction,
+        id: dispute.transaction.id || dispute.transaction._id,
+        book: {
+          ...dispute.transaction.book,
+          id: dispute.transaction.book?.id || dispute.transaction.book?._id
+        }
+      }
+    : dispute.transaction
+});
+
+export const disputeAPI = {
+  getExchangeDisputes: async (exchangeId: string): Promise<Dispute[]> => {
+    try {
+      const response = await api.get<ApiResponse<any[]>>(`/disputes/transaction/${exchangeId}`);
+      return response.data.data.map(transformDispute);
+    } catch (error) {
+      console.error('Get exchange disputes error:', error);
+      throw error;
+    }
+  },
+
+  openDispute: async (
+    exchangeId: string,
+    reason: DisputeReason,
+    description: string,
+    photos: File[] = []
+  ): Promise<Dispute> => {
+    try {
+      const formData = new FormData();
+      formData.append('transactionId', exchangeId);
+      formData.append('reason', reason);
+      formData.append('description', description);
+      photos.forEach(photo => formData.append('evidence', photo));
+
+      const response = await api.post<ApiResponse>('/disputes', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return transformDispute(response.data.data);
+    } catch (error: any) {
+      console.error('Open dispute error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  // Evidence photos need the auth header, so they are fetched as blobs rather than linked directly
+  getEvidenceUrl: async (disputeId: string, photoIndex: number): Promise<string> => {
+    try {
+      const response = await api.get<Blob>(
+        `/disputes/${disputeId}/evidence/${photoIndex}`,
+        { responseType: 'blob' }
+      );
+      return URL.createObjectURL(response.data);
+    } catch (error) {
+      console.error('Get dispute evidence error:', error);
+      throw error;
+    }
+  },
+
+  addComment: async (disputeId: string, note: string): Promise<Dispute> => {
+    try {
+      const response = await api.post<ApiResponse>(`/disputes/${disputeId}/comments`, { note });
+      return transformDispute(response.data.data);
+    } catch (error: any) {
+      console.error('Add dispute comment error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  listDisputes: async (status: 'open' | 'resolved' = 'open'): Promise<Dispute[]> => {
+    try {
+      const response = await api.get<ApiResponse<any[]>>('/disputes', { params: { status } });
+      return response.data.data.map(transformDispute);
+    } catch (error) {
+      console.error('List disputes error:', error);
+      throw error;
+    }
+  },
+
+  resolveDispute: async (
+    disputeId: string,
+    outcome: DisputeOutcome,
+    note: string,
+    reputationPenalty: number
+  ): Promise<Dispute> => {
+    try {
+      const response = await api.post<ApiResponse>(`/disputes/${disputeId}/resolve`, {
+        outcome,
+        note,
+        reputationPenalty
+      });
+      return transformDispute(response.data.data);
+    } catch (error: any) {
+      console.error('Resolve dispute error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  }
+};
+
+const transformSwapCycle = (cycle: any): SwapCycle => ({
+  ...cycle,
+  id: cycle.id || cycle._id,
+  legs: cycle.legs.map((leg: any) => ({
+    ...leg,
+    giver: { ...leg.giver, id: leg.giver?.id || leg.giver?._id },
+    receiver: { ...leg.receiver, id: leg.receiver?.id || leg.receiver?._id },
+    book: { ...leg.book, id: leg.book?.id || leg.book?._id }
+  })),
+  participants: cycle.participants.map((participant: any) => ({
+    ...participant,
+    user: { ...participant.user, id: participant.user?.id || participant.user?._id }
+  }))
+});
+
+export const swapAPI = {
+  getMySwaps: async (): Promise<SwapCycle[]> => {
+    try {
+      const response = await api.get<ApiResponse<any[]>>('/swaps');
+      return response.data.data.map(transformSwapCycle);
+    } catch (error) {
+      console.error('Get swaps error:', error);
+      throw error;
+    }
+  },
+
+  respond: async (cycleId: string, accept: boolean): Promise<{ swap: SwapCycle; message: string }> => {
+    try {
+      const response = await api.post<ApiResponse>(`/swaps/${cycleId}/${accept ? 'accept' : 'decline'}`);
+      return {
+        swap: transformSwapCycle(response.data.data),
+        message: response.data.message || ''
+      };
+    } catch (error: any) {
+      console.error('Respond to swap error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  }
+};
+
+const transformNotification = (notification: any): AppNotification => ({
+  ...notification,
+  id: notification.id || notification._id
+});
+
+export const notificationAPI = {
+  getNotifications: async (): Promise<{ notifications: AppNotification[]; unreadCount: number }> => {
+    try {
+      const response = await api.get<ApiResponse<{ notifications: any[]; unreadCount: number }>>('/notifications');
+      return {
+        notifications: response.data.data.notifications.map(transformNotification),
+        unreadCount: response.data.data.unreadCount
+      };
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      throw error;
+    }
+  },
+
+  getUnreadCount: async (): Promise<number> => {
+    try {
+      const response = await api.get<ApiResponse<{ unreadCount: number }>>('/notifications/unread');
+      return response.data.data.unreadCount;
+    } catch (error) {
+      console.error('Get unread notification count error:', error);
+      throw error;
+    }
+  },
+
+  markRead: async (notificationId: string): Promise<number> => {
+    try {
+      const response = await api.patch<ApiResponse<{ unreadCount: number }>>(`/notifications/${notificationId}/read`);
+      return response.data.data.unreadCount;
+    } catch (error: any) {
+      console.error('Mark notification read error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  markAllRead: async (): Promise<number> => {
+    try {
+      const response = await api.patch<ApiResponse<{ unreadCount: number }>>('/notifications/read-all');
+      return response.data.data.unreadCount;
+    } catch (error: any) {
+      console.error('Mark all notifications read error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  }
+};
+
+export const realtimeAPI = {
+  // EventSource cannot send the Authorization header, so the token travels in the query string
+  getStreamUrl: (token: string) => `${BASE_URL}/realtime/stream?token=${encodeURIComponent(token)}`,
+
+  parseEvent: (data: string): RealtimeEvent | null => {
+    try {
+      const event = JSON.parse(data);
+      if (event.type === 'message') return { ...event, message: transformMessage(event.message) };
+      if (event.type === 'notification') return { ...event, notification: transformNotification(event.notification) };
+      return event;
+    } catch (error) {
+      console.error('Invalid realtime event:', error);
+      return null;
+    }
+  }
+};
+
+const transformQueuedEmail = (email: any): QueuedEmail => ({
+  id: email._id || email.id,
+  to: email.to,
+  type: email.type,
+  subject: email.subject,
+  status: email.status,
+  attempts: email.attempts,
+  lastError: email.lastError,
+  createdAt: email.createdAt,
+  updatedAt: email.updatedAt
+});
+
+export const emailAPI = {
+  getFailedEmails: async (): Promise<{
+    emails: QueuedEmail[];
+    counts: Partial<Record<QueuedEmailStatus, number>>;
+  }> => {
+    try {
+      const response = await api.get<ApiResponse>('/emails/failed');
+      return {
+        emails: response.data.data.emails.map(transformQueuedEmail),
+        counts: response.data.data.counts
+      };
+    } catch (error: any) {
+      console.error('Get failed emails error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  resend: async (emailId: string): Promise<QueuedEmail> => {
+    try {
+      const response = await api.post<ApiResponse>(`/emails/${emailId}/resend`);
+      return transformQueuedEmail(response.data.data);
+    } catch (error: any) {
+      console.error('Resend email error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  }
+};
+
+// Only served by development backends
+export const devAPI = {
+  getOutbox: async (): Promise<{ transport: string; emails: OutboxEmail[] }> => {
+    try {
+      const response = await api.get<ApiResponse<{ transport: string; emails: OutboxEmail[] }>>('/dev/outbox');
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Get outbox error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  clearOutbox: async (): Promise<void> => {
+    try {
+      await api.delete<ApiResponse>('/dev/outbox');
+    } catch (error: any) {
+      console.error('Clear outbox error:', error);
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
   }
 };
 
-export default api;
\ No newline at end of file
+export default api;
@@ -18,9 +18,28 @@ export interface User {
     genres: string[];
   };
   reputation?: number;
+  role?: 'user' | 'admin';
   createdAt?: string;
 }
 
+export type NotificationEvent = 'newRequest' | 'statusChange' | 'message' | 'reminder' | 'digest';
+export type NotificationChannel = 'email' | 'inApp' | 'push';
+
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export type NotificationPreferences = Record<NotificationEvent, NotificationChannels> & {
+  quietHours: QuietHours;
+};
+
+// Language the user's emails are written in
+export type PreferredLanguage = 'en' | 'hi' | 'ta' | 'te' | 'kn';
+
 export interface ProfileUpdateData {
   name?: string;
   bio?: string;
@@ -42,6 +61,9 @@ export interface Book {
   location: BookLocation;
   description?: string;
   owner: User;
+  queueSize?: number;
+  // Set by the catalogue when the book is pending but another request can still join its waitlist
+  canQueue?: boolean;
   createdAt: string;
 }
 
@@ -75,7 +97,7 @@ export interface UserUpdateData extends Partial<Omit<User, 'id' | 'email' | 'pre
   newPassword?: string;
 }
 
-export type ExchangeStatus = 'pending' | 'accepted' | 'rejected' | 'modified' | 'completed' | 'cancelled';
+export type ExchangeStatus = 'queued' | 'pending' | 'accepted' | 'rejected' | 'modified' | 'completed' | 'cancelled' | 'expired';
 export type DeliveryMethod = 'in-person' | 'courier' | 'mail';
 
 export interface ExchangeTerms {
@@ -85,27 +107,197 @@ export interface ExchangeTerms {
   additionalNotes?: string;
 }
 
+export interface ExchangeTermsRevision {
+  version: number;
+  terms: ExchangeTerms;
+  proposedBy: User;
+  previousStatus?: ExchangeStatus;
+  acceptedAt?: string;
+  createdAt: string;
+}
+
+export interface ExchangeHandover {
+  ownerConfirmedAt?: string;
+  requesterConfirmedAt?: string;
+}
+
+export interface ExchangeLoan {
+  dueDate?: string;
+  returnedAt?: string;
+  overdueAt?: string;
+}
+
+export interface MeetupSlot {
+  _id?: string;
+  startsAt: string;
+  place: string;
+}
+
+export interface ExchangeMeetup {
+  slots: MeetupSlot[];
+  proposedBy?: string;
+  proposedAt?: string;
+  confirmed?: MeetupSlot;
+  confirmedAt?: string;
+  rescheduleCount: number;
+}
+
+export type ShipmentStatus = 'dispatched' | 'in-transit' | 'delivered';
+
+export interface ShipmentEvent {
+  status: ShipmentStatus;
+  note?: string;
+  recordedBy: Pick<User, 'id' | 'name'> | string;
+  createdAt: string;
+}
+
+export interface ExchangeShipment {
+  carrier?: string;
+  trackingNumber?: string;
+  dispatchedAt?: string;
+  status?: ShipmentStatus;
+  deliveredAt?: string;
+  events: ShipmentEvent[];
+}
+
+export type LoanState = 'due-soon' | 'overdue';
+
+export interface DueLoan {
+  id: string;
+  book: Pick<Book, 'title' | 'author'>;
+  owner: Pick<User, 'name'>;
+  requester: Pick<User, 'name'>;
+  dueDate: string;
+  role: 'lender' | 'borrower';
+  state: LoanState;
+}
+
+export interface ExchangeMessageAttachment {
+  id: string;
+  mimeType: string;
+  size: number;
+  originalName?: string;
+}
+
 export interface ExchangeMessage {
   id: string;
   sender: User;
   content: string;
+  attachments: ExchangeMessageAttachment[];
   createdAt: string;
   read: boolean;
+  readAt?: string;
+  system?: boolean;
+}
+
+export interface ExchangeMessagePage {
+  messages: ExchangeMessage[];
+  hasMore: boolean;
+}
+
+export type NotificationType = 'exchange-request' | 'exchange-status' | 'message' | 'loan-reminder' | 'meetup-reminder' | 'review';
+
+// Named to stay clear of the browser's Notification API
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  exchange?: string;
+  book?: string;
+  count: number;
+  read: boolean;
+  readAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pushed over the event stream as exchanges change
+export type RealtimeEvent =
+  | { type: 'message'; exchangeId: string; message: ExchangeMessage }
+  | { type: 'exchange'; exchangeId: string; status: ExchangeStatus; event: string }
+  | { type: 'messages-read'; exchangeId: string; messageIds: string[]; readAt: string }
+  | { type: 'typing'; exchangeId: string; userId: string }
+  | { type: 'notification'; notification: AppNotification; unreadNotifications: number }
+  | { type: 'notification-count'; unreadNotifications: number }
+  | { type: 'push'; title: string; body?: string; exchangeId?: string }
+  | { type: 'unread-count'; unreadCount: number };
+
+export type BundleBookStatus = 'requested' | 'accepted' | 'declined';
+
+export interface ExchangeBundleBook {
+  book: Book;
+  status: BundleBookStatus;
 }
 
 export interface Exchange {
   id: string;
   book: Book;
+  bundle?: ExchangeBundleBook[];
+  offeredBooks?: Book[];
+  acceptedOfferBook?: Book;
   requester: User;
   owner: User;
   status: ExchangeStatus;
   terms: ExchangeTerms;
-  messages: ExchangeMessage[];
+  termsVersion: number;
+  termsRevisions: ExchangeTermsRevision[];
+  handover?: ExchangeHandover;
+  loan?: ExchangeLoan;
+  meetup?: ExchangeMeetup;
+  shipment?: ExchangeShipment;
+  dispute?: string | null;
+  // Statuses the current user may move the exchange to, worked out by the backend state machine
+  allowedStatuses: ExchangeStatus[];
   lastModifiedBy: User;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface Review {
+  id: string;
+  transaction: string;
+  reviewer: Pick<User, 'id' | 'name'>;
+  reviewee: Pick<User, 'id' | 'name'>;
+  rating: number;
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DisputeReason = 'not-returned' | 'damaged' | 'not-as-described' | 'no-show' | 'other';
+export type DisputeOutcome = 'upheld' | 'dismissed' | 'settled';
+
+export interface DisputeEvent {
+  type: 'opened' | 'comment' | 'resolved';
+  actor: Pick<User, 'id' | 'name'>;
+  note?: string;
+  createdAt: string;
+}
+
+export interface Dispute {
+  id: string;
+  transaction: string | { id: string; status: ExchangeStatus; book: Pick<Book, 'id' | 'title'> };
+  reporter: Pick<User, 'id' | 'name' | 'email'>;
+  respondent: Pick<User, 'id' | 'name' | 'email'>;
+  reason: DisputeReason;
+  description: string;
+  evidencePhotos: string[];
+  status: 'open' | 'resolved';
+  frozenStatus: ExchangeStatus;
+  events: DisputeEvent[];
+  resolution?: {
+    outcome: DisputeOutcome;
+    note?: string;
+    penalizedUser?: string;
+    reputationPenalty: number;
+    resolvedBy: Pick<User, 'id' | 'name'>;
+    resolvedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface BookApiResponse {
   books: Book[];
   pagination: {
@@ -127,3 +319,54 @@ export interface Message {
   read: boolean;
   notified: boolean;
 }
+
+export type SwapCycleStatus = 'proposed' | 'accepted' | 'declined' | 'cancelled';
+export type SwapResponse = 'pending' | 'accepted' | 'declined';
+
+export interface SwapLeg {
+  giver: Pick<User, 'id' | 'name'>;
+  receiver: Pick<User, 'id' | 'name'>;
+  book: Pick<Book, 'id' | 'title' | 'author' | 'condition'>;
+  transaction?: string;
+}
+
+export interface SwapParticipant {
+  user: Pick<User, 'id' | 'name'>;
+  response: SwapResponse;
+  respondedAt?: string;
+}
+
+export interface SwapCycle {
+  id: string;
+  city: BookLocation;
+  legs: SwapLeg[];
+  participants: SwapParticipant[];
+  status: SwapCycleStatus;
+  createdAt: string;
+}
+
+// An email captured by the backend's development outbox
+export interface OutboxEmail {
+  id: string;
+  from?: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  sentAt: string;
+}
+
+export type QueuedEmailStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// An email in the delivery queue; failed ones wait for an admin to resend them
+export interface QueuedEmail {
+  id: string;
+  to: string;
+  type: string;
+  subject: string;
+  status: QueuedEmailStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}